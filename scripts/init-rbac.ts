@@ -40,6 +40,13 @@ async function initRBAC() {
       { name: 'Read Posts', resource: 'posts', action: 'read', description: 'View posts' },
       { name: 'Create Posts', resource: 'posts', action: 'create', description: 'Create new posts' },
       { name: 'Update Posts', resource: 'posts', action: 'update', description: 'Update any posts' },
+      {
+        name: 'Update Unpublished Posts',
+        resource: 'posts',
+        action: 'update',
+        description: 'Update any post that has not been published yet',
+        condition: { attr: 'resource.published', op: 'eq', value: false }
+      },
       { name: 'Delete Posts', resource: 'posts', action: 'delete', description: 'Delete any posts' },
       { name: 'Update Own Posts', resource: 'posts', action: 'update_own', description: 'Update own posts' },
       { name: 'Delete Own Posts', resource: 'posts', action: 'delete_own', description: 'Delete own posts' },
@@ -50,7 +57,10 @@ async function initRBAC() {
       
       // Scheduler permissions
       { name: 'View Scheduler', resource: 'scheduler', action: 'read', description: 'View cron jobs and their status' },
-      { name: 'Manage Scheduler', resource: 'scheduler', action: 'manage', description: 'Start, stop, and trigger cron jobs' }
+      { name: 'Manage Scheduler', resource: 'scheduler', action: 'manage', description: 'Start, stop, and trigger cron jobs' },
+
+      // Audit permissions
+      { name: 'Read Audit Log', resource: 'audit', action: 'read', description: 'View the audit log of RBAC, user and auth changes' }
     ]
 
     console.log('📝 Creating roles...')
@@ -73,13 +83,8 @@ async function initRBAC() {
     console.log('🔑 Creating permissions...')
     const createdPermissions = []
     for (const permission of permissions) {
-      const existingPermission = await prisma.permission.findFirst({
-        where: {
-          AND: [
-            { resource: permission.resource },
-            { action: permission.action }
-          ]
-        }
+      const existingPermission = await prisma.permission.findUnique({
+        where: { name: permission.name }
       })
       
       if (!existingPermission) {
@@ -93,90 +98,86 @@ async function initRBAC() {
     }
 
     console.log('🔗 Assigning permissions to roles...')
-    
-    // Admin gets all permissions
-    const adminRole = createdRoles.find(r => r.name === 'admin')!
-    for (const permission of createdPermissions) {
-      const existingAssignment = await prisma.rolePermission.findUnique({
-        where: {
-          roleId_permissionId: {
-            roleId: adminRole.id,
-            permissionId: permission.id
-          }
-        }
-      })
-      
-      if (!existingAssignment) {
-        await prisma.rolePermission.create({
-          data: {
-            roleId: adminRole.id,
-            permissionId: permission.id
-          }
-        })
-      }
+
+    // Each role only lists what it adds on top of the roles it inherits from.
+    // Permissions are referenced by name since conditional variants share resource and action.
+    const rolePermissions: Record<string, string[]> = {
+      user: [
+        'Read Own Profile', 'Update Own Profile',
+        'Read Posts', 'Create Posts', 'Update Own Posts', 'Delete Own Posts',
+        'Send SSE Messages'
+      ],
+      moderator: [
+        'Read RBAC', 'Read Users',
+        'Update Unpublished Posts', 'Delete Posts',
+        'View Scheduler'
+      ],
+      admin: [
+        'Manage RBAC', 'Manage Users',
+        'Update Posts',
+        'Manage SSE', 'Manage Scheduler',
+        'Read Audit Log'
+      ]
     }
-    console.log(`  ✅ Admin role assigned all permissions`)
-
-    // User gets basic permissions
-    const userRole = createdRoles.find(r => r.name === 'user')!
-    const userPermissionNames = ['read_own', 'update_own', 'delete_own', 'read', 'create', 'send']
-    const userPermissions = createdPermissions.filter(p => 
-      userPermissionNames.some(name => p.action.includes(name)) ||
-      (p.resource === 'posts' && (p.action === 'read' || p.action === 'create')) ||
-      (p.resource === 'sse' && p.action === 'send')
-    )
-    
-    for (const permission of userPermissions) {
-      const existingAssignment = await prisma.rolePermission.findUnique({
-        where: {
-          roleId_permissionId: {
-            roleId: userRole.id,
-            permissionId: permission.id
-          }
-        }
-      })
-      
-      if (!existingAssignment) {
-        await prisma.rolePermission.create({
-          data: {
-            roleId: userRole.id,
-            permissionId: permission.id
+
+    for (const [roleName, grants] of Object.entries(rolePermissions)) {
+      const role = createdRoles.find(r => r.name === roleName)!
+      const rolePermissionList = createdPermissions.filter(p => grants.includes(p.name))
+
+      for (const permission of rolePermissionList) {
+        const existingAssignment = await prisma.rolePermission.findUnique({
+          where: {
+            roleId_permissionId: {
+              roleId: role.id,
+              permissionId: permission.id
+            }
           }
         })
+        
+        if (!existingAssignment) {
+          await prisma.rolePermission.create({
+            data: {
+              roleId: role.id,
+              permissionId: permission.id
+            }
+          })
+        }
       }
+      console.log(`  ✅ ${roleName} role assigned ${rolePermissionList.length} permissions`)
     }
-    console.log(`  ✅ User role assigned basic permissions`)
-
-    // Moderator gets user management and post moderation permissions
-    const moderatorRole = createdRoles.find(r => r.name === 'moderator')!
-    const moderatorPermissions = createdPermissions.filter(p =>
-      p.resource === 'users' && p.action === 'read' ||
-      p.resource === 'posts' ||
-      p.resource === 'rbac' && p.action === 'read' ||
-      p.resource === 'sse' && p.action === 'send' ||
-      p.resource === 'scheduler' && p.action === 'read'
-    )
-    
-    for (const permission of moderatorPermissions) {
-      const existingAssignment = await prisma.rolePermission.findUnique({
-        where: {
-          roleId_permissionId: {
-            roleId: moderatorRole.id,
-            permissionId: permission.id
-          }
-        }
-      })
-      
-      if (!existingAssignment) {
-        await prisma.rolePermission.create({
-          data: {
-            roleId: moderatorRole.id,
-            permissionId: permission.id
+
+    console.log('🌳 Linking role hierarchy...')
+
+    // admin inherits moderator, which inherits user
+    const roleParents: Record<string, string[]> = {
+      moderator: ['user'],
+      admin: ['moderator']
+    }
+
+    for (const [roleName, parentNames] of Object.entries(roleParents)) {
+      const role = createdRoles.find(r => r.name === roleName)!
+      for (const parentName of parentNames) {
+        const parent = createdRoles.find(r => r.name === parentName)!
+        const existingLink = await prisma.roleInheritance.findUnique({
+          where: {
+            roleId_parentId: {
+              roleId: role.id,
+              parentId: parent.id
+            }
           }
         })
+
+        if (!existingLink) {
+          await prisma.roleInheritance.create({
+            data: {
+              roleId: role.id,
+              parentId: parent.id
+            }
+          })
+        }
+        console.log(`  ✅ ${roleName} inherits from ${parentName}`)
       }
     }
-    console.log(`  ✅ Moderator role assigned moderation permissions`)
 
     console.log('')
     console.log('🎉 RBAC system initialized successfully!')
@@ -187,9 +188,9 @@ async function initRBAC() {
     console.log('• Permission assignments completed')
     console.log('')
     console.log('🔐 Default roles:')
-    console.log('• admin: Full system access (includes scheduler and SSE management)')
     console.log('• user: Basic user permissions (read own profile, create/edit own posts, send SSE messages)')
-    console.log('• moderator: User management, post moderation, and monitoring access')
+    console.log('• moderator: Inherits user, adds user read access, draft moderation, post deletion, and monitoring access')
+    console.log('• admin: Inherits moderator, adds RBAC, user, post, scheduler and SSE management, and audit log access')
 
   } catch (error) {
     console.error('❌ Failed to initialize RBAC system:', error)
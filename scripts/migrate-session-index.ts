@@ -0,0 +1,25 @@
+#!/usr/bin/env tsx
+
+import { closeRedisConnection } from '../src/config/redis.js'
+import { tokenService } from '../src/services/token.service.js'
+
+/**
+ * One-off backfill of the per-user session index for sessions created before it existed.
+ * Idempotent, and safe to run against a live Redis.
+ */
+async function main() {
+  try {
+    console.log('🔄 Indexing existing sessions...')
+
+    const { indexedCount } = await tokenService.migrateSessionIndex()
+
+    console.log(`✅ Indexed ${indexedCount} sessions`)
+  } catch (error) {
+    console.error('❌ Failed to migrate session index:', error)
+    process.exitCode = 1
+  } finally {
+    await closeRedisConnection()
+  }
+}
+
+main().catch(console.error)
\ No newline at end of file
@@ -0,0 +1,96 @@
+#!/usr/bin/env tsx
+
+import { readFile, writeFile } from 'node:fs/promises'
+import { ZodError } from 'zod'
+import { prisma } from '../src/config/database.js'
+import { closeRedisConnection } from '../src/config/redis.js'
+import { rbacPolicyService, type PolicyChange, type PolicyFormat } from '../src/services/rbac-policy.service.js'
+
+const usage = `Usage:
+  tsx scripts/rbac-policy.ts export [file] [--format json|yaml]
+  tsx scripts/rbac-policy.ts apply <file> [--dry-run] [--prune]`
+
+const formatFor = (file: string | undefined, flag: string | undefined): PolicyFormat => {
+  if (flag === 'json' || flag === 'yaml') {
+    return flag
+  }
+  return file && /\.ya?ml$/i.test(file) ? 'yaml' : 'json'
+}
+
+const describeChange = (change: PolicyChange): string => {
+  const symbol = change.op === 'create' ? '+' : change.op === 'delete' ? '-' : '~'
+
+  switch (change.type) {
+    case 'role-permission':
+      return `${symbol} role ${change.role} grants ${change.permission}`
+    case 'role-parent':
+      return `${symbol} role ${change.role} inherits ${change.parent}`
+    default: {
+      const fields = change.op === 'update'
+        ? ` (${Object.entries(change.fields).map(([key, { from, to }]) => `${key}: ${JSON.stringify(from)} -> ${JSON.stringify(to)}`).join(', ')})`
+        : ''
+      return `${symbol} ${change.type} ${change.name}${fields}`
+    }
+  }
+}
+
+async function exportPolicy(file: string | undefined, format: PolicyFormat) {
+  const policy = await rbacPolicyService.exportPolicy()
+  const content = rbacPolicyService.serialize(policy, format)
+
+  if (!file) {
+    process.stdout.write(content)
+    return
+  }
+
+  await writeFile(file, content)
+  console.log(`✅ Exported ${policy.roles.length} roles and ${policy.permissions.length} permissions to ${file}`)
+}
+
+async function applyPolicy(file: string, dryRun: boolean, prune: boolean) {
+  const policy = rbacPolicyService.parse(await readFile(file, 'utf8'))
+  const result = await rbacPolicyService.applyPolicy(policy, { dryRun, prune })
+
+  if (result.changes.length === 0) {
+    console.log('✅ RBAC already matches the policy, nothing to do')
+    return
+  }
+
+  console.log(dryRun ? '📝 Planned changes (dry run):' : '📝 Applied changes:')
+  result.changes.forEach(change => console.log(`  ${describeChange(change)}`))
+  console.log('')
+  console.log(dryRun
+    ? `ℹ️  ${result.changes.length} changes would be applied, re-run without --dry-run to apply them`
+    : `🎉 ${result.changes.length} changes applied`)
+}
+
+async function main() {
+  const [command, ...rest] = process.argv.slice(2)
+  const flags = rest.filter(arg => arg.startsWith('--'))
+  const [file] = rest.filter((arg, index) => !arg.startsWith('--') && rest[index - 1] !== '--format')
+  const formatFlag = rest[rest.indexOf('--format') + 1]
+
+  try {
+    if (command === 'export') {
+      await exportPolicy(file, formatFor(file, rest.includes('--format') ? formatFlag : undefined))
+    } else if (command === 'apply' && file) {
+      await applyPolicy(file, flags.includes('--dry-run'), flags.includes('--prune'))
+    } else {
+      console.error(usage)
+      process.exitCode = 1
+    }
+  } catch (error) {
+    if (error instanceof ZodError) {
+      console.error('❌ Invalid policy file:')
+      error.errors.forEach(issue => console.error(`  ${issue.path.join('.') || '(root)'}: ${issue.message}`))
+    } else {
+      console.error('❌ Failed to process RBAC policy:', error)
+    }
+    process.exitCode = 1
+  } finally {
+    await prisma.$disconnect()
+    await closeRedisConnection()
+  }
+}
+
+main().catch(console.error)
\ No newline at end of file
@@ -0,0 +1,142 @@
+import { createHash, generateKeyPairSync, randomUUID } from 'node:crypto'
+import type { AddressInfo } from 'node:net'
+import { serve } from '@hono/node-server'
+import { Hono } from 'hono'
+import jwt from 'jsonwebtoken'
+
+export interface TestIdentityProviderAccount {
+  sub: string
+  email?: string
+  email_verified?: boolean
+  name?: string
+}
+
+interface IssuedCode {
+  account: TestIdentityProviderAccount
+  clientId: string
+  redirectUri: string
+  nonce: string
+  codeChallenge: string
+}
+
+/**
+ * Local stand-in OpenID Connect provider on a random port. It serves discovery, JWKS,
+ * authorization, token and user info endpoints for one client, signs in whichever account
+ * `signInAs` chose without asking, and enforces PKCE and single-use codes like a real provider.
+ */
+export const startTestIdentityProvider = async (clientId: string, clientSecret: string) => {
+  const { publicKey, privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 })
+  const kid = 'stand-in-key'
+
+  const codes = new Map<string, IssuedCode>()
+  const accessTokens = new Map<string, TestIdentityProviderAccount>()
+  let account: TestIdentityProviderAccount | null = null
+  // Claims to put into the next ID tokens in place of the real ones
+  let overrides: Record<string, unknown> = {}
+
+  const app = new Hono()
+
+  app.get('/.well-known/openid-configuration', c => c.json({
+    issuer,
+    authorization_endpoint: `${issuer}/authorize`,
+    token_endpoint: `${issuer}/token`,
+    userinfo_endpoint: `${issuer}/userinfo`,
+    jwks_uri: `${issuer}/jwks`
+  }))
+
+  app.get('/jwks', c => c.json({
+    keys: [{ ...publicKey.export({ format: 'jwk' }), kid, alg: 'RS256', use: 'sig' }]
+  }))
+
+  app.get('/authorize', c => {
+    const query = c.req.query()
+    if (!account || query.client_id !== clientId || query.response_type !== 'code' || query.code_challenge_method !== 'S256') {
+      return c.text('Bad authorization request', 400)
+    }
+
+    const code = randomUUID()
+    codes.set(code, {
+      account,
+      clientId: query.client_id,
+      redirectUri: query.redirect_uri,
+      nonce: query.nonce,
+      codeChallenge: query.code_challenge
+    })
+
+    const redirect = new URL(query.redirect_uri)
+    redirect.searchParams.set('code', code)
+    redirect.searchParams.set('state', query.state)
+    return c.redirect(redirect.toString())
+  })
+
+  app.post('/token', async c => {
+    const form = await c.req.parseBody() as Record<string, string>
+    const issued = codes.get(form.code)
+    codes.delete(form.code)
+
+    const verifierMatches = issued &&
+      createHash('sha256').update(form.code_verifier ?? '').digest('base64url') === issued.codeChallenge
+
+    if (!issued || !verifierMatches || form.grant_type !== 'authorization_code' ||
+      form.client_id !== issued.clientId || form.client_secret !== clientSecret || form.redirect_uri !== issued.redirectUri) {
+      return c.json({ error: 'invalid_grant' }, 400)
+    }
+
+    const accessToken = randomUUID()
+    accessTokens.set(accessToken, issued.account)
+
+    const idToken = jwt.sign({ ...issued.account, nonce: issued.nonce, ...overrides }, privateKey, {
+      algorithm: 'RS256',
+      keyid: kid,
+      issuer,
+      audience: clientId,
+      expiresIn: 300
+    })
+
+    return c.json({ access_token: accessToken, token_type: 'Bearer', id_token: idToken })
+  })
+
+  app.get('/userinfo', c => {
+    const info = accessTokens.get(c.req.header('Authorization')?.replace('Bearer ', '') ?? '')
+    return info ? c.json(info) : c.json({ error: 'invalid_token' }, 401)
+  })
+
+  const server = await new Promise<ReturnType<typeof serve>>(resolve => {
+    const started = serve({ fetch: app.fetch, port: 0, hostname: '127.0.0.1' }, () => resolve(started))
+  })
+  const issuer = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+
+  return {
+    issuer,
+
+    signInAs(next: TestIdentityProviderAccount) {
+      account = next
+    },
+
+    // Undefined values leave the claim out
+    overrideIdTokenClaims(claims: Record<string, unknown>) {
+      overrides = claims
+    },
+
+    /**
+     * Open an authorization URL as the browser would, and return the code and state
+     * the provider redirected back with
+     */
+    async authorize(authorizationUrl: string) {
+      const response = await fetch(authorizationUrl, { redirect: 'manual' })
+      const location = new URL(response.headers.get('Location')!)
+      return { code: location.searchParams.get('code')!, state: location.searchParams.get('state')! }
+    },
+
+    reset() {
+      account = null
+      overrides = {}
+      codes.clear()
+      accessTokens.clear()
+    },
+
+    close() {
+      return new Promise<void>(resolve => server.close(() => resolve()))
+    }
+  }
+}
\ No newline at end of file
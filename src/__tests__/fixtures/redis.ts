@@ -0,0 +1,140 @@
+import { vi } from 'vitest'
+
+// Pattern support is limited to the prefix globs ("prefix:*") the services use
+const matches = (key: string, pattern: string) =>
+  pattern.endsWith('*') ? key.startsWith(pattern.slice(0, -1)) : key === pattern
+
+/**
+ * In-memory stand-in for the ioredis commands used by the token service: strings with TTLs,
+ * sorted sets and cursor-based SCAN. Expiry follows Date.now(), so fake timers apply.
+ */
+export const createMemoryRedis = () => {
+  const strings = new Map<string, string>()
+  const sortedSets = new Map<string, Map<string, number>>()
+  const expiries = new Map<string, number>()
+
+  const expire = (key: string) => {
+    const expiresAt = expiries.get(key)
+    if (expiresAt !== undefined && expiresAt <= Date.now()) {
+      strings.delete(key)
+      sortedSets.delete(key)
+      expiries.delete(key)
+    }
+  }
+
+  const allKeys = () => {
+    const keys = [...strings.keys(), ...sortedSets.keys()]
+    keys.forEach(expire)
+    return keys.filter(key => strings.has(key) || sortedSets.has(key))
+  }
+
+  const get = (key: string) => {
+    expire(key)
+    return strings.get(key) ?? null
+  }
+
+  const setex = (key: string, ttl: number, value: string) => {
+    strings.set(key, value)
+    expiries.set(key, Date.now() + ttl * 1000)
+    return 'OK'
+  }
+
+  const sortedSet = (key: string) => {
+    expire(key)
+    return sortedSets.get(key)
+  }
+
+  // Redis deletes a sorted set along with its last member
+  const dropIfEmpty = (key: string) => {
+    if (sortedSets.get(key)?.size === 0) {
+      sortedSets.delete(key)
+      expiries.delete(key)
+    }
+  }
+
+  const client = {
+    get: vi.fn(async (key: string) => get(key)),
+    mget: vi.fn(async (...keys: string[]) => keys.map(get)),
+    setex: vi.fn(async (key: string, ttl: number, value: string) => setex(key, ttl, value)),
+    // Only the "SET key value EX ttl NX" form is supported
+    set: vi.fn(async (key: string, value: string, _ex: 'EX', ttl: number, _nx: 'NX') => {
+      return get(key) === null ? setex(key, ttl, value) : null
+    }),
+    incr: vi.fn(async (key: string) => {
+      const value = Number(get(key) ?? 0) + 1
+      strings.set(key, String(value))
+      return value
+    }),
+    del: vi.fn(async (...keys: string[]) => {
+      let count = 0
+      for (const key of keys) {
+        count += Number(strings.delete(key) || sortedSets.delete(key))
+        expiries.delete(key)
+      }
+      return count
+    }),
+    exists: vi.fn(async (key: string) => {
+      expire(key)
+      return Number(strings.has(key) || sortedSets.has(key))
+    }),
+    expire: vi.fn(async (key: string, ttl: number) => {
+      expire(key)
+      if (!strings.has(key) && !sortedSets.has(key)) {
+        return 0
+      }
+      expiries.set(key, Date.now() + ttl * 1000)
+      return 1
+    }),
+    ttl: vi.fn(async (key: string) => {
+      expire(key)
+      if (!strings.has(key) && !sortedSets.has(key)) {
+        return -2
+      }
+      const expiresAt = expiries.get(key)
+      return expiresAt === undefined ? -1 : Math.ceil((expiresAt - Date.now()) / 1000)
+    }),
+    keys: vi.fn(async (pattern: string) => allKeys().filter(key => matches(key, pattern))),
+    scan: vi.fn(async (cursor: string, _match: 'MATCH', pattern: string, _count: 'COUNT', count: number) => {
+      const keys = allKeys().sort()
+      const start = Number(cursor)
+      const end = start + count
+      return [end >= keys.length ? '0' : String(end), keys.slice(start, end).filter(key => matches(key, pattern))] as [string, string[]]
+    }),
+    zadd: vi.fn(async (key: string, score: number, member: string) => {
+      const set = sortedSet(key) ?? new Map<string, number>()
+      const added = set.has(member) ? 0 : 1
+      set.set(member, score)
+      sortedSets.set(key, set)
+      return added
+    }),
+    zrem: vi.fn(async (key: string, ...members: string[]) => {
+      const set = sortedSet(key)
+      const removed = members.filter(member => set?.delete(member)).length
+      dropIfEmpty(key)
+      return removed
+    }),
+    zscore: vi.fn(async (key: string, member: string) => {
+      const score = sortedSet(key)?.get(member)
+      return score === undefined ? null : String(score)
+    }),
+    zrange: vi.fn(async (key: string, _start: 0, _stop: -1) => {
+      const set = sortedSet(key)
+      return set ? [...set.entries()].sort((a, b) => a[1] - b[1]).map(([member]) => member) : []
+    }),
+    zremrangebyscore: vi.fn(async (key: string, _min: '-inf', max: number) => {
+      const set = sortedSet(key)
+      const removed = set ? [...set.entries()].filter(([, score]) => score <= max) : []
+      removed.forEach(([member]) => set!.delete(member))
+      dropIfEmpty(key)
+      return removed.length
+    })
+  }
+
+  const reset = () => {
+    strings.clear()
+    sortedSets.clear()
+    expiries.clear()
+  }
+
+  return { client, reset }
+}
\ No newline at end of file
@@ -0,0 +1,71 @@
+import { vi } from 'vitest'
+import type { Prisma, Session } from '@prisma/client'
+
+interface SessionWhere {
+  id?: string
+  userId?: string
+  revokedAt?: null
+  expiresAt?: { gt?: Date; lt?: Date }
+}
+
+const matches = (session: Session, where: SessionWhere = {}) =>
+  (where.id === undefined || session.id === where.id) &&
+  (where.userId === undefined || session.userId === where.userId) &&
+  (where.revokedAt === undefined || session.revokedAt === null) &&
+  (where.expiresAt?.gt === undefined || session.expiresAt > where.expiresAt.gt) &&
+  (where.expiresAt?.lt === undefined || session.expiresAt < where.expiresAt.lt)
+
+/**
+ * In-memory stand-in for the prisma.session queries used by the token service and the session cleanup job.
+ * Rows are joined with a user whose email is `<userId>@example.com`.
+ */
+export const createMemorySessions = () => {
+  const rows = new Map<string, Session>()
+
+  const withUser = (session: Session) => ({ ...session, user: { email: `${session.userId}@example.com` } })
+
+  const delegate = {
+    create: vi.fn(async ({ data }: { data: Prisma.SessionUncheckedCreateInput }) => {
+      const session: Session = {
+        id: data.id!,
+        userId: data.userId,
+        refreshTokenHash: data.refreshTokenHash,
+        audience: data.audience,
+        rememberMe: data.rememberMe ?? false,
+        deviceName: data.deviceName ?? null,
+        userAgent: data.userAgent ?? null,
+        browser: data.browser ?? null,
+        os: data.os ?? null,
+        deviceType: data.deviceType ?? 'unknown',
+        ip: data.ip ?? null,
+        location: data.location ?? null,
+        expiresAt: new Date(data.expiresAt),
+        lastUsedAt: new Date(data.lastUsedAt ?? Date.now()),
+        revokedAt: null,
+        createdAt: new Date(data.createdAt ?? Date.now())
+      }
+      rows.set(session.id, session)
+      return session
+    }),
+    findUnique: vi.fn(async ({ where }: { where: { id: string } }) => {
+      const session = rows.get(where.id)
+      return session ? withUser(session) : null
+    }),
+    findMany: vi.fn(async ({ where }: { where?: SessionWhere }) =>
+      [...rows.values()].filter(session => matches(session, where)).map(withUser)),
+    updateMany: vi.fn(async ({ where, data }: { where: SessionWhere; data: Partial<Session> }) => {
+      const updated = [...rows.values()].filter(session => matches(session, where))
+      updated.forEach(session => rows.set(session.id, { ...session, ...data }))
+      return { count: updated.length }
+    }),
+    deleteMany: vi.fn(async ({ where }: { where?: SessionWhere }) => {
+      const deleted = [...rows.values()].filter(session => matches(session, where))
+      deleted.forEach(session => rows.delete(session.id))
+      return { count: deleted.length }
+    })
+  }
+
+  const reset = () => rows.clear()
+
+  return { delegate, rows, reset }
+}
\ No newline at end of file
@@ -0,0 +1,18 @@
+import { generateKeyPairSync } from 'node:crypto'
+import type { SigningKey } from '@/services/signing-key.service'
+
+const { publicKey, privateKey } = generateKeyPairSync('ec', {
+  namedCurve: 'P-256',
+  publicKeyEncoding: { type: 'spki', format: 'pem' },
+  privateKeyEncoding: { type: 'pkcs8', format: 'pem' }
+})
+
+// A single ES256 key for tests that issue real tokens
+export const testSigningKey: SigningKey = {
+  kid: 'test-key',
+  algorithm: 'ES256',
+  publicKey,
+  privateKey,
+  createdAt: new Date(),
+  retiredAt: null
+}
\ No newline at end of file
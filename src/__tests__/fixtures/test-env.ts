@@ -3,6 +3,7 @@ export const testEnv = {
   NODE_ENV: 'test',
   LOG_LEVEL: 'info',
   JWT_SECRET: 'test-secret-key',
+  JWT_AUDIENCES: 'honojs-template-client,mobile-app',
   DATABASE_URL: 'sqlite://./test.db',
   REDIS_HOST: 'localhost',
   REDIS_PORT: '6379',
@@ -0,0 +1,246 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { randomUUID } from 'node:crypto'
+import { Hono } from 'hono'
+import { contextStorage } from 'hono/context-storage'
+import { auth } from '@/routes/auth'
+import { users as usersRoute } from '@/routes/users'
+import { errorHandler } from '@/middleware/error-handler'
+import { prisma } from '@/config/database'
+import { hashToken } from '@/utils/auth'
+import { createMemoryRedis } from '@tests/fixtures/redis'
+import { createMemorySessions } from '@tests/fixtures/sessions'
+import { testSigningKey } from '@tests/fixtures/signing-key'
+
+const memoryRedis = createMemoryRedis()
+const memorySessions = createMemorySessions()
+
+Object.assign(prisma.session, memorySessions.delegate)
+
+vi.mock('@/config/redis', () => ({
+  getRedis: () => memoryRedis.client,
+  closeRedisConnection: vi.fn()
+}))
+
+vi.mock('@/services/signing-key.service', () => ({
+  signingKeyService: {
+    getSigningKey: vi.fn(async () => testSigningKey),
+    getVerificationKey: vi.fn(async (kid: string) => kid === testSigningKey.kid ? testSigningKey : null)
+  }
+}))
+
+vi.mock('@/utils/auth', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/utils/auth')>()),
+  comparePassword: vi.fn(async (password: string) => password === PASSWORD)
+}))
+
+const PASSWORD = 'Correct-passw0rd'
+const ALICE_ID = '11111111-1111-4111-8111-111111111111'
+
+const alice = {
+  id: ALICE_ID,
+  email: 'alice@example.com',
+  name: 'Alice',
+  password: 'hashed-password',
+  tokenVersion: 0,
+  emailVerifiedAt: new Date(),
+  totpSecret: null,
+  totpEnabledAt: null,
+  createdAt: new Date(),
+  updatedAt: new Date()
+}
+
+interface StoredApiKey {
+  id: string
+  userId: string
+  name: string
+  prefix: string
+  keyHash: string
+  scopes: string[]
+  expiresAt: Date
+  lastUsedAt: Date | null
+  lastUsedIp: string | null
+  createdAt: Date
+}
+
+const apiKeys = new Map<string, StoredApiKey>()
+
+const app = new Hono()
+app.onError(errorHandler)
+app.use('*', contextStorage())
+app.use('*', async (c, next) => {
+  c.set('clientIP', '198.51.100.1')
+  await next()
+})
+app.route('/auth', auth)
+app.route('/users', usersRoute)
+
+const request = (path: string, token: string, init: RequestInit = {}) =>
+  app.request(path, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` }
+  })
+
+const signIn = async (): Promise<string> => {
+  const response = await app.request('/auth/login', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ email: alice.email, password: PASSWORD })
+  })
+  return (await response.json()).data.tokens.accessToken
+}
+
+const createKey = async (accessToken: string, body: object) =>
+  request('/auth/api-keys', accessToken, { method: 'POST', body: JSON.stringify(body) })
+
+describe('API Keys Integration Tests', () => {
+  let accessToken: string
+
+  beforeEach(async () => {
+    memoryRedis.reset()
+    memorySessions.reset()
+    apiKeys.clear()
+
+    vi.mocked(prisma.user.findUnique).mockImplementation((async (args: { where: { id?: string; email?: string } }) =>
+      args.where.id === ALICE_ID || args.where.email === alice.email ? alice : null) as never)
+    vi.mocked(prisma.user.update).mockImplementation((async () =>
+      ({ tokenVersion: ++alice.tokenVersion })) as never)
+    vi.mocked(prisma.userRole.findMany).mockResolvedValue([
+      { expiresAt: null, role: { id: 'role-user', name: 'user', description: null, requireMfa: false, permissions: [
+        { permission: { id: 'users-read', name: 'users:read', resource: 'users', action: 'read', description: null } },
+        { permission: { id: 'users-update-own', name: 'users:update_own', resource: 'users', action: 'update_own', description: null } }
+      ] } }
+    ] as never)
+
+    vi.mocked(prisma.apiKey.create).mockImplementation((async (args: { data: Omit<StoredApiKey, 'id' | 'lastUsedAt' | 'lastUsedIp' | 'createdAt'> }) => {
+      const apiKey = { id: randomUUID(), lastUsedAt: null, lastUsedIp: null, createdAt: new Date(), ...args.data }
+      apiKeys.set(apiKey.id, apiKey)
+      return apiKey
+    }) as never)
+    vi.mocked(prisma.apiKey.findMany).mockImplementation((async (args: { where: { userId: string } }) =>
+      [...apiKeys.values()].filter(apiKey => apiKey.userId === args.where.userId)) as never)
+    vi.mocked(prisma.apiKey.findUnique).mockImplementation((async (args: { where: { keyHash: string } }) => {
+      const apiKey = [...apiKeys.values()].find(row => row.keyHash === args.where.keyHash)
+      return apiKey ? { ...apiKey, user: alice } : null
+    }) as never)
+    vi.mocked(prisma.apiKey.update).mockImplementation((async (args: { where: { id: string }; data: Partial<StoredApiKey> }) =>
+      Object.assign(apiKeys.get(args.where.id)!, args.data)) as never)
+    vi.mocked(prisma.apiKey.deleteMany).mockImplementation((async (args: { where: { id?: string; userId: string } }) => {
+      const deleted = [...apiKeys.values()].filter(apiKey =>
+        apiKey.userId === args.where.userId && (args.where.id === undefined || apiKey.id === args.where.id))
+      deleted.forEach(apiKey => apiKeys.delete(apiKey.id))
+      return { count: deleted.length }
+    }) as never)
+
+    accessToken = await signIn()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  describe('POST /auth/api-keys', () => {
+    it('should show the key once and store only its hash', async () => {
+      const response = await createKey(accessToken, { name: 'CI', scopes: ['users:read'] })
+      const { data } = await response.json()
+
+      expect(response.status).toBe(201)
+      expect(data.key).toMatch(/^pat_/)
+      expect(data.apiKey).toMatchObject({ name: 'CI', prefix: data.key.slice(0, 10), scopes: ['users:read'] })
+      expect(data.apiKey).not.toHaveProperty('keyHash')
+
+      const [stored] = apiKeys.values()
+      expect(stored.keyHash).toBe(hashToken(data.key))
+      expect(stored.expiresAt.getTime()).toBeCloseTo(Date.now() + 90 * 24 * 60 * 60 * 1000, -4)
+
+      const list = await (await request('/auth/api-keys', accessToken)).json()
+      expect(list.data).toEqual([data.apiKey])
+      expect(JSON.stringify(list)).not.toContain(data.key)
+    })
+
+    it('should refuse scopes the user does not hold', async () => {
+      const response = await createKey(accessToken, { name: 'CI', scopes: ['users:read', 'users:manage'] })
+
+      expect(response.status).toBe(403)
+      expect((await response.json()).error.message).toBe('Scope not granted: users:manage')
+      expect(apiKeys.size).toBe(0)
+    })
+
+    it('should cap the lifetime', async () => {
+      const response = await createKey(accessToken, { name: 'CI', scopes: ['users:read'], expiresInDays: 366 })
+
+      expect(response.status).toBe(400)
+    })
+  })
+
+  describe('authenticating with a key', () => {
+    it('should sign in as the key\'s user and record its last use', async () => {
+      const { key } = (await (await createKey(accessToken, { name: 'CI', scopes: ['users:read'] })).json()).data
+
+      const response = await request('/auth/me', key)
+
+      expect(response.status).toBe(200)
+      expect((await response.json()).data.id).toBe(ALICE_ID)
+
+      const [stored] = apiKeys.values()
+      expect(stored.lastUsedAt).toBeInstanceOf(Date)
+      expect(stored.lastUsedIp).toBe('198.51.100.1')
+    })
+
+    it('should only grant what the scopes cover', async () => {
+      const readKey = (await (await createKey(accessToken, { name: 'read', scopes: ['users:read'] })).json()).data.key
+      const updateKey = (await (await createKey(accessToken, { name: 'update', scopes: ['users:update_own'] })).json()).data.key
+
+      expect((await request(`/users/${ALICE_ID}`, readKey)).status).toBe(200)
+      // Alice may read profiles, but this key may not
+      expect((await request(`/users/${ALICE_ID}`, updateKey)).status).toBe(403)
+    })
+
+    it('should not manage the account', async () => {
+      const { key } = (await (await createKey(accessToken, { name: 'CI', scopes: ['users:read'] })).json()).data
+
+      expect((await request('/auth/api-keys', key)).status).toBe(403)
+      expect((await createKey(key, { name: 'another', scopes: ['users:read'] })).status).toBe(403)
+      expect((await request('/auth/sessions', key)).status).toBe(403)
+      expect((await request('/auth/logout-all', key, { method: 'POST' })).status).toBe(403)
+    })
+
+    it('should reject expired keys', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] })
+      const { key } = (await (await createKey(accessToken, { name: 'CI', scopes: ['users:read'], expiresInDays: 1 })).json()).data
+
+      vi.setSystemTime(Date.now() + 24 * 60 * 60 * 1000)
+      const response = await request('/auth/me', key)
+
+      expect(response.status).toBe(401)
+      expect((await response.json()).error.message).toBe('Invalid or expired API key')
+    })
+  })
+
+  describe('DELETE /auth/api-keys/:id', () => {
+    it('should stop the key from working', async () => {
+      const { apiKey, key } = (await (await createKey(accessToken, { name: 'CI', scopes: ['users:read'] })).json()).data
+
+      const response = await request(`/auth/api-keys/${apiKey.id}`, accessToken, { method: 'DELETE' })
+
+      expect(response.status).toBe(200)
+      expect((await request('/auth/me', key)).status).toBe(401)
+      expect((await request(`/auth/api-keys/${apiKey.id}`, accessToken, { method: 'DELETE' })).status).toBe(404)
+    })
+  })
+
+  describe('signing out everywhere', () => {
+    it('should revoke every key, so one created from a stolen session stops working', async () => {
+      const { key } = (await (await createKey(accessToken, { name: 'CI', scopes: ['users:read'] })).json()).data
+      await createKey(accessToken, { name: 'backup', scopes: ['users:read'] })
+
+      const response = await request('/auth/logout-all', accessToken, { method: 'POST' })
+
+      expect(response.status).toBe(200)
+      expect(apiKeys.size).toBe(0)
+      expect((await request('/auth/me', key)).status).toBe(401)
+      expect(prisma.auditLog.create).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ action: 'auth.api_key.revoke_all', metadata: { count: 2 } })
+      }))
+    })
+  })
+})
\ No newline at end of file
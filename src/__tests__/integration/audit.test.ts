@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { Hono } from 'hono'
+import { contextStorage } from 'hono/context-storage'
+import { audit } from '@/routes/audit'
+import { users } from '@/routes/users'
+import { errorHandler } from '@/middleware/error-handler'
+import { loggerMiddleware } from '@/middleware/logger'
+import { ipSecurity } from '@/middleware/security'
+import { prisma } from '@/config/database'
+
+// Each bearer token maps directly to the user it authenticates
+vi.mock('@/services/token.service', () => ({
+  tokenService: {
+    verifyToken: vi.fn(async (token: string) => {
+      const userId = token.replace('-token', '')
+      return { userId, email: `${userId}@example.com`, sessionId: `session-${userId}`, tokenType: 'access' }
+    })
+  }
+}))
+
+const AUDITOR_ID = '11111111-1111-4111-8111-111111111111'
+const MEMBER_ID = '22222222-2222-4222-8222-222222222222'
+
+const permission = (resource: string, action: string) => ({
+  permission: { id: `${resource}-${action}`, name: `${resource}:${action}`, resource, action, description: null }
+})
+
+const grants: Record<string, Array<ReturnType<typeof permission>>> = {
+  [AUDITOR_ID]: [permission('audit', 'read'), permission('users', 'manage')],
+  [MEMBER_ID]: [permission('users', 'read_own')]
+}
+
+const makeUser = (id: string) => ({
+  id,
+  email: `${id}@example.com`,
+  name: `User ${id.slice(0, 4)}`,
+  password: 'hashed-password',
+  createdAt: new Date(),
+  updatedAt: new Date()
+})
+
+const app = new Hono()
+app.onError(errorHandler)
+app.use('*', contextStorage())
+app.use('*', ipSecurity)
+app.use('*', loggerMiddleware)
+app.route('/audit', audit)
+app.route('/users', users)
+
+const call = (method: string, path: string, userId?: string) =>
+  app.request(path, {
+    method,
+    headers: {
+      'X-Forwarded-For': '203.0.113.7',
+      ...(userId ? { Authorization: `Bearer ${userId}-token` } : {})
+    }
+  })
+
+describe('Audit API Integration Tests', () => {
+  beforeEach(() => {
+    vi.mocked(prisma.user.findUnique).mockImplementation((async (args: { where: { id?: string } }) => {
+      const id = args.where.id
+      return id && id in grants ? makeUser(id) : null
+    }) as never)
+    vi.mocked(prisma.userRole.findMany).mockImplementation((async (args: { where: { userId: string } }) => [{
+      role: { id: 'role', name: 'role', description: null, permissions: grants[args.where.userId] ?? [] }
+    }]) as never)
+    vi.mocked(prisma.auditLog.findMany).mockResolvedValue([])
+    vi.mocked(prisma.auditLog.count).mockResolvedValue(0)
+  })
+
+  describe('GET /audit', () => {
+    it('should return 401 without a token', async () => {
+      const response = await call('GET', '/audit')
+
+      expect(response.status).toBe(401)
+    })
+
+    it('should deny callers without audit:read', async () => {
+      const response = await call('GET', '/audit', MEMBER_ID)
+
+      expect(response.status).toBe(403)
+    })
+
+    it('should list entries for callers with audit:read', async () => {
+      const response = await call('GET', `/audit?targetType=user&actorId=${AUDITOR_ID}`, AUDITOR_ID)
+
+      expect(response.status).toBe(200)
+      expect(prisma.auditLog.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { actorId: AUDITOR_ID, targetType: 'user' }
+      }))
+    })
+
+    it('should reject invalid filters', async () => {
+      const response = await call('GET', '/audit?actorId=not-a-uuid', AUDITOR_ID)
+
+      expect(response.status).toBe(400)
+    })
+  })
+
+  describe('audited mutations', () => {
+    it('should record actor, IP and request id when a user is deleted', async () => {
+      const response = await call('DELETE', `/users/${MEMBER_ID}`, AUDITOR_ID)
+
+      expect(response.status).toBe(200)
+      expect(prisma.auditLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          actorId: AUDITOR_ID,
+          action: 'user.delete',
+          targetType: 'user',
+          targetId: MEMBER_ID,
+          ip: '203.0.113.7',
+          requestId: expect.any(String)
+        })
+      })
+    })
+  })
+})
\ No newline at end of file
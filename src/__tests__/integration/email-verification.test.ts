@@ -0,0 +1,239 @@
+import { describe, it, expect, beforeEach, afterAll, vi } from 'vitest'
+import { existsSync, mkdtempSync, readdirSync, readFileSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { Hono } from 'hono'
+import { auth } from '@/routes/auth'
+import { errorHandler } from '@/middleware/error-handler'
+import { prisma } from '@/config/database'
+import { env } from '@/config/env'
+import { mailService, FileMailTransport } from '@/services/mail.service'
+import { settleBackgroundTasks } from '@/utils/background'
+import { createMemoryRedis } from '@tests/fixtures/redis'
+import { createMemorySessions } from '@tests/fixtures/sessions'
+import { testSigningKey } from '@tests/fixtures/signing-key'
+
+const memoryRedis = createMemoryRedis()
+const memorySessions = createMemorySessions()
+
+Object.assign(prisma.session, memorySessions.delegate)
+
+vi.mock('@/config/redis', () => ({
+  getRedis: () => memoryRedis.client,
+  closeRedisConnection: vi.fn()
+}))
+
+vi.mock('@/services/signing-key.service', () => ({
+  signingKeyService: {
+    getSigningKey: vi.fn(async () => testSigningKey),
+    getVerificationKey: vi.fn(async (kid: string) => kid === testSigningKey.kid ? testSigningKey : null)
+  }
+}))
+
+vi.mock('@/services/rbac.service', () => ({
+  RBACService: vi.fn(function () {
+    return { assignRoleToUser: vi.fn(), requiresMfa: vi.fn().mockResolvedValue(false) }
+  })
+}))
+
+vi.mock('@/utils/auth', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/utils/auth')>()),
+  hashPassword: vi.fn().mockResolvedValue('hashed-password'),
+  comparePassword: vi.fn().mockResolvedValue(true)
+}))
+
+interface StoredUser {
+  id: string
+  email: string
+  name: string
+  password: string
+  tokenVersion: number
+  emailVerifiedAt: Date | null
+  createdAt: Date
+  updatedAt: Date
+}
+
+const users = new Map<string, StoredUser>()
+
+const findUser = (where: { id?: string; email?: string }) =>
+  [...users.values()].find(user => where.id ? user.id === where.id : user.email === where.email) ?? null
+
+const addUser = (id: string, overrides: Partial<StoredUser> = {}) => {
+  const user: StoredUser = {
+    id,
+    email: `${id}@example.com`,
+    name: `User ${id}`,
+    password: 'hashed-password',
+    tokenVersion: 0,
+    emailVerifiedAt: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides
+  }
+  users.set(id, user)
+  return user
+}
+
+const mailDir = mkdtempSync(join(tmpdir(), 'mail-'))
+mailService.setTransport(new FileMailTransport(mailDir))
+
+const sentMail = () => existsSync(mailDir)
+  ? readdirSync(mailDir).sort().map(file => readFileSync(join(mailDir, file), 'utf8'))
+  : []
+const tokenFrom = (mail: string) => /[?&]token=([\w.-]+)/.exec(mail)![1]
+
+const app = new Hono()
+app.onError(errorHandler)
+app.route('/auth', auth)
+
+const post = (path: string, body: object) =>
+  app.request(path, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  })
+
+// Waits for the email too, which is sent after the response
+const resend = async (email: string) => {
+  const response = await post('/auth/verify-email/resend', { email })
+  await settleBackgroundTasks()
+  return response
+}
+
+const register = (email: string) => post('/auth/register', { name: 'New User', email, password: 'Tr0ub4dor&3' })
+
+describe('Email Verification Integration Tests', () => {
+  beforeEach(() => {
+    memoryRedis.reset()
+    memorySessions.reset()
+    users.clear()
+    rmSync(mailDir, { recursive: true, force: true })
+
+    vi.mocked(prisma.role.findUnique).mockResolvedValue({ id: 'role-user', name: 'user' } as never)
+    vi.mocked(prisma.user.findUnique).mockImplementation((async (args: { where: { id?: string; email?: string } }) =>
+      findUser(args.where)) as never)
+    vi.mocked(prisma.user.create).mockImplementation((async (args: { data: { email: string; name: string } }) =>
+      addUser('new-user', args.data)) as never)
+    vi.mocked(prisma.user.update).mockImplementation((async (args: { where: { id: string }; data: Partial<StoredUser> }) => {
+      const user = { ...users.get(args.where.id)!, ...args.data }
+      users.set(user.id, user)
+      return user
+    }) as never)
+  })
+
+  afterAll(() => {
+    rmSync(mailDir, { recursive: true, force: true })
+  })
+
+  describe('POST /auth/register', () => {
+    it('should email a verification link to the new address', async () => {
+      const response = await register('new@example.com')
+
+      expect(response.status).toBe(201)
+      expect((await response.json()).data.user.emailVerifiedAt).toBeNull()
+
+      const [mail] = sentMail()
+      expect(mail).toContain('To: new@example.com')
+      expect(mail).toContain('Subject: Verify your email address')
+      expect(mail).toContain('http://localhost:3000/verify-email?token=')
+    })
+  })
+
+  describe('POST /auth/verify-email', () => {
+    it('should verify the address once', async () => {
+      await register('new@example.com')
+      const token = tokenFrom(sentMail()[0])
+
+      const response = await post('/auth/verify-email', { token })
+
+      expect(response.status).toBe(200)
+      expect(users.get('new-user')!.emailVerifiedAt).toBeInstanceOf(Date)
+      expect((await post('/auth/verify-email', { token })).status).toBe(400)
+    })
+
+    it('should reject a link sent to a previous address', async () => {
+      await register('old@example.com')
+      users.get('new-user')!.email = 'changed@example.com'
+
+      const response = await post('/auth/verify-email', { token: tokenFrom(sentMail()[0]) })
+
+      expect(response.status).toBe(400)
+      expect(users.get('new-user')!.emailVerifiedAt).toBeNull()
+    })
+
+    it('should not accept verification and access tokens in place of each other', async () => {
+      const registered = await (await register('new@example.com')).json()
+      const verificationToken = tokenFrom(sentMail()[0])
+
+      const me = await app.request('/auth/me', { headers: { Authorization: `Bearer ${verificationToken}` } })
+
+      expect(me.status).toBe(401)
+      expect((await post('/auth/verify-email', { token: registered.data.tokens.accessToken })).status).toBe(400)
+    })
+  })
+
+  describe('POST /auth/verify-email/resend', () => {
+    it('should send another link, at most once a minute', async () => {
+      addUser('alice')
+
+      const response = await resend('alice@example.com')
+      await resend('alice@example.com')
+
+      expect(response.status).toBe(200)
+      expect(sentMail()).toHaveLength(1)
+      expect((await post('/auth/verify-email', { token: tokenFrom(sentMail()[0]) })).status).toBe(200)
+    })
+
+    it('should answer the same for unknown and verified addresses without sending mail', async () => {
+      addUser('bob', { emailVerifiedAt: new Date() })
+
+      const unknown = await resend('nobody@example.com')
+      const verified = await resend('bob@example.com')
+
+      expect(await unknown.json()).toEqual(await verified.json())
+      expect(sentMail()).toHaveLength(0)
+    })
+
+    it('should answer before the email is sent', async () => {
+      addUser('alice')
+      let deliver!: () => void
+      const send = vi.fn(() => new Promise<void>(resolve => { deliver = resolve }))
+      mailService.setTransport({ send })
+
+      try {
+        const response = await post('/auth/verify-email/resend', { email: 'alice@example.com' })
+
+        expect(response.status).toBe(200)
+        await vi.waitFor(() => expect(send).toHaveBeenCalledTimes(1))
+
+        deliver()
+        await settleBackgroundTasks()
+      } finally {
+        mailService.setTransport(new FileMailTransport(mailDir))
+      }
+    })
+  })
+
+  describe('with EMAIL_VERIFICATION_REQUIRED', () => {
+    beforeEach(() => {
+      env.EMAIL_VERIFICATION_REQUIRED = true
+      return () => {
+        env.EMAIL_VERIFICATION_REQUIRED = false
+      }
+    })
+
+    it('should withhold tokens until the address is verified', async () => {
+      const registered = await (await register('new@example.com')).json()
+      expect(registered.data).not.toHaveProperty('tokens')
+
+      const blocked = await post('/auth/login', { email: 'new@example.com', password: 'Tr0ub4dor&3' })
+      expect(blocked.status).toBe(403)
+
+      await post('/auth/verify-email', { token: tokenFrom(sentMail()[0]) })
+
+      const login = await post('/auth/login', { email: 'new@example.com', password: 'Tr0ub4dor&3' })
+      expect(login.status).toBe(200)
+      expect((await login.json()).data.tokens).toHaveProperty('accessToken')
+    })
+  })
+})
\ No newline at end of file
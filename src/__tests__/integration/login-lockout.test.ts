@@ -0,0 +1,243 @@
+import { describe, it, expect, beforeEach, afterEach, afterAll, vi } from 'vitest'
+import { existsSync, mkdtempSync, readdirSync, readFileSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { Hono } from 'hono'
+import { contextStorage } from 'hono/context-storage'
+import { auth } from '@/routes/auth'
+import { users as usersRoute } from '@/routes/users'
+import { errorHandler } from '@/middleware/error-handler'
+import { prisma } from '@/config/database'
+import { env } from '@/config/env'
+import { mailService, FileMailTransport } from '@/services/mail.service'
+import { comparePassword } from '@/utils/auth'
+import { settleBackgroundTasks } from '@/utils/background'
+import { createMemoryRedis } from '@tests/fixtures/redis'
+import { createMemorySessions } from '@tests/fixtures/sessions'
+import { testSigningKey } from '@tests/fixtures/signing-key'
+
+const memoryRedis = createMemoryRedis()
+const memorySessions = createMemorySessions()
+
+Object.assign(prisma.session, memorySessions.delegate)
+
+vi.mock('@/config/redis', () => ({
+  getRedis: () => memoryRedis.client,
+  closeRedisConnection: vi.fn()
+}))
+
+vi.mock('@/services/signing-key.service', () => ({
+  signingKeyService: {
+    getSigningKey: vi.fn(async () => testSigningKey),
+    getVerificationKey: vi.fn(async (kid: string) => kid === testSigningKey.kid ? testSigningKey : null)
+  }
+}))
+
+vi.mock('@/utils/auth', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/utils/auth')>()),
+  comparePassword: vi.fn(async (password: string) => password === PASSWORD)
+}))
+
+const PASSWORD = 'Correct-passw0rd'
+const ALICE_ID = '11111111-1111-4111-8111-111111111111'
+const ADMIN_ID = '22222222-2222-4222-8222-222222222222'
+
+const users = [
+  { id: ALICE_ID, email: 'alice@example.com', name: 'Alice' },
+  { id: ADMIN_ID, email: 'admin@example.com', name: 'Admin' }
+].map(user => ({
+  ...user,
+  password: 'hashed-password',
+  tokenVersion: 0,
+  emailVerifiedAt: new Date(),
+  totpSecret: null,
+  totpEnabledAt: null,
+  createdAt: new Date(),
+  updatedAt: new Date()
+}))
+
+const mailDir = mkdtempSync(join(tmpdir(), 'mail-'))
+mailService.setTransport(new FileMailTransport(mailDir))
+
+const sentMail = () => existsSync(mailDir)
+  ? readdirSync(mailDir).sort().map(file => readFileSync(join(mailDir, file), 'utf8'))
+  : []
+
+const app = new Hono()
+app.onError(errorHandler)
+app.use('*', contextStorage())
+app.use('*', async (c, next) => {
+  c.set('clientIP', c.req.header('X-Forwarded-For') ?? '198.51.100.1')
+  await next()
+})
+app.route('/auth', auth)
+app.route('/users', usersRoute)
+
+const login = (email: string, password: string, ip?: string) =>
+  app.request('/auth/login', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(ip ? { 'X-Forwarded-For': ip } : {}) },
+    body: JSON.stringify({ email, password })
+  })
+
+// Wrong passwords, each after any delay has run out, so only the lockout can stop them.
+// Waits for the lockout email too, which is sent after the response.
+const failLogins = async (email: string, times: number) => {
+  for (let i = 0; i < times; i++) {
+    vi.setSystemTime(Date.now() + 60 * 1000)
+    expect((await login(email, 'wrong-password')).status).toBe(401)
+  }
+  await settleBackgroundTasks()
+}
+
+describe('Login Lockout Integration Tests', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    memoryRedis.reset()
+    memorySessions.reset()
+    rmSync(mailDir, { recursive: true, force: true })
+    env.LOGIN_MAX_FAILED_ATTEMPTS = 5
+
+    vi.mocked(prisma.user.findUnique).mockImplementation((async (args: { where: { id?: string; email?: string } }) =>
+      users.find(user => args.where.id ? user.id === args.where.id : user.email === args.where.email) ?? null) as never)
+    vi.mocked(prisma.userRole.findMany).mockImplementation((async (args: { where: { userId: string } }) =>
+      args.where.userId === ADMIN_ID
+        ? [{ expiresAt: null, role: { id: 'role-admin', name: 'admin', description: null, requireMfa: false, permissions: [
+          { permission: { id: 'users-manage', name: 'users:manage', resource: 'users', action: 'manage', description: null } }
+        ] } }]
+        : []) as never)
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    env.LOGIN_MAX_FAILED_ATTEMPTS = 10
+    env.LOGIN_IP_MAX_FAILED_ATTEMPTS = 100
+  })
+
+  afterAll(() => {
+    rmSync(mailDir, { recursive: true, force: true })
+  })
+
+  describe('progressive delays', () => {
+    it('should make each attempt after the third failure wait twice as long', async () => {
+      for (let i = 0; i < 3; i++) {
+        expect((await login('alice@example.com', 'wrong-password')).status).toBe(401)
+      }
+
+      const refused = await login('alice@example.com', PASSWORD)
+      expect(refused.status).toBe(429)
+      expect(refused.headers.get('Retry-After')).toBe('1')
+
+      vi.setSystemTime(Date.now() + 1000)
+      expect((await login('alice@example.com', 'wrong-password')).status).toBe(401)
+      expect((await login('alice@example.com', PASSWORD)).headers.get('Retry-After')).toBe('2')
+    })
+
+    it('should forget failures once the password is right', async () => {
+      await failLogins('alice@example.com', 2)
+      expect((await login('alice@example.com', PASSWORD)).status).toBe(200)
+
+      await failLogins('alice@example.com', 2)
+      expect((await login('alice@example.com', PASSWORD)).status).toBe(200)
+    })
+  })
+
+  describe('lockout', () => {
+    it('should lock the account, even for the right password, and tell the owner', async () => {
+      await failLogins('alice@example.com', 5)
+
+      const refused = await login('ALICE@example.com', PASSWORD)
+      expect(refused.status).toBe(429)
+      expect(refused.headers.get('Retry-After')).toBe('900')
+
+      const [mail] = sentMail()
+      expect(mail).toContain('To: alice@example.com')
+      expect(mail).toContain('Subject: Signing in to your account is temporarily locked')
+
+      vi.setSystemTime(Date.now() + 900 * 1000)
+      expect((await login('alice@example.com', PASSWORD)).status).toBe(200)
+    })
+
+    it('should answer the locking attempt before the owner is told', async () => {
+      let deliver!: () => void
+      const send = vi.fn(() => new Promise<void>(resolve => { deliver = resolve }))
+      mailService.setTransport({ send })
+
+      try {
+        await failLogins('alice@example.com', 4)
+        vi.setSystemTime(Date.now() + 60 * 1000)
+        const response = await login('alice@example.com', 'wrong-password')
+
+        expect(response.status).toBe(401)
+        await vi.waitFor(() => expect(send).toHaveBeenCalledTimes(1))
+
+        deliver()
+        await settleBackgroundTasks()
+      } finally {
+        mailService.setTransport(new FileMailTransport(mailDir))
+      }
+    })
+
+    it('should treat unknown addresses the same as existing ones', async () => {
+      const known: Array<[number, unknown]> = []
+      const unknown: Array<[number, unknown]> = []
+
+      for (let i = 0; i < 6; i++) {
+        vi.setSystemTime(Date.now() + 60 * 1000)
+        const knownResponse = await login('alice@example.com', 'wrong-password')
+        const unknownResponse = await login('nobody@example.com', 'wrong-password')
+        known.push([knownResponse.status, await knownResponse.json()])
+        unknown.push([unknownResponse.status, await unknownResponse.json()])
+      }
+
+      await settleBackgroundTasks()
+
+      expect(unknown).toEqual(known)
+      expect(known.at(-1)![0]).toBe(429)
+      // Only the real owner hears about it
+      expect(sentMail()).toHaveLength(1)
+      // And the unknown address still cost a password check
+      expect(comparePassword).toHaveBeenCalledWith('wrong-password', expect.stringMatching(/^\$2b\$12\$/))
+    })
+  })
+
+  describe('per-IP limit', () => {
+    it('should refuse a client that fails across many addresses', async () => {
+      env.LOGIN_IP_MAX_FAILED_ATTEMPTS = 3
+
+      for (const name of ['a', 'b', 'c']) {
+        expect((await login(`${name}@example.com`, 'wrong-password', '203.0.113.7')).status).toBe(401)
+      }
+
+      expect((await login('alice@example.com', PASSWORD, '203.0.113.7')).status).toBe(429)
+      expect((await login('alice@example.com', PASSWORD, '203.0.113.8')).status).toBe(200)
+    })
+  })
+
+  describe('POST /users/:id/unlock', () => {
+    it('should let an admin lift the lock early', async () => {
+      await failLogins('alice@example.com', 5)
+      const { accessToken } = (await (await login('admin@example.com', PASSWORD)).json()).data.tokens
+
+      const response = await app.request(`/users/${ALICE_ID}/unlock`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${accessToken}` }
+      })
+
+      expect(response.status).toBe(200)
+      expect((await response.json()).data.message).toBe('User unlocked successfully')
+      expect((await login('alice@example.com', PASSWORD)).status).toBe(200)
+    })
+
+    it('should require users:manage', async () => {
+      const { accessToken } = (await (await login('alice@example.com', PASSWORD)).json()).data.tokens
+
+      const response = await app.request(`/users/${ALICE_ID}/unlock`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${accessToken}` }
+      })
+
+      expect(response.status).toBe(403)
+    })
+  })
+})
\ No newline at end of file
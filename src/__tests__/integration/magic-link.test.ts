@@ -0,0 +1,276 @@
+import { describe, it, expect, beforeEach, afterEach, afterAll, vi } from 'vitest'
+import { existsSync, mkdtempSync, readdirSync, readFileSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { Hono } from 'hono'
+import { auth } from '@/routes/auth'
+import { errorHandler } from '@/middleware/error-handler'
+import { prisma } from '@/config/database'
+import { env } from '@/config/env'
+import { mailService, FileMailTransport } from '@/services/mail.service'
+import { loginThrottleService } from '@/services/login-throttle.service'
+import { settleBackgroundTasks } from '@/utils/background'
+import { createMemoryRedis } from '@tests/fixtures/redis'
+import { createMemorySessions } from '@tests/fixtures/sessions'
+import { testSigningKey } from '@tests/fixtures/signing-key'
+
+const memoryRedis = createMemoryRedis()
+const memorySessions = createMemorySessions()
+
+Object.assign(prisma.session, memorySessions.delegate)
+
+vi.mock('@/config/redis', () => ({
+  getRedis: () => memoryRedis.client,
+  closeRedisConnection: vi.fn()
+}))
+
+vi.mock('@/services/signing-key.service', () => ({
+  signingKeyService: {
+    getSigningKey: vi.fn(async () => testSigningKey),
+    getVerificationKey: vi.fn(async (kid: string) => kid === testSigningKey.kid ? testSigningKey : null)
+  }
+}))
+
+interface StoredUser {
+  id: string
+  email: string
+  name: string
+  password: string
+  tokenVersion: number
+  emailVerifiedAt: Date | null
+  totpSecret: string | null
+  totpEnabledAt: Date | null
+  createdAt: Date
+  updatedAt: Date
+}
+
+const users = new Map<string, StoredUser>()
+
+const addUser = (id: string, fields: Partial<StoredUser> = {}) => {
+  const user: StoredUser = {
+    id,
+    email: `${id}@example.com`,
+    name: `User ${id}`,
+    password: 'hashed-password',
+    tokenVersion: 0,
+    emailVerifiedAt: new Date(),
+    totpSecret: null,
+    totpEnabledAt: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...fields
+  }
+  users.set(id, user)
+  return user
+}
+
+const mailDir = mkdtempSync(join(tmpdir(), 'mail-'))
+mailService.setTransport(new FileMailTransport(mailDir))
+
+const sentMail = () => existsSync(mailDir)
+  ? readdirSync(mailDir).sort().map(file => readFileSync(join(mailDir, file), 'utf8'))
+  : []
+const tokenFrom = (mail: string) => /[?&]token=([\w.-]+)/.exec(mail)![1]
+
+const app = new Hono()
+app.onError(errorHandler)
+app.route('/auth', auth)
+
+const post = (path: string, body: object) =>
+  app.request(path, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  })
+
+// Waits for the email too, which is sent after the response
+const requestLink = async (email: string, options: object = {}) => {
+  const response = await post('/auth/magic-link', { email, ...options })
+  await settleBackgroundTasks()
+  return response
+}
+const verify = (token: string) => post('/auth/magic-link/verify', { token })
+
+describe('Magic Link Integration Tests', () => {
+  beforeEach(() => {
+    memoryRedis.reset()
+    memorySessions.reset()
+    users.clear()
+    rmSync(mailDir, { recursive: true, force: true })
+
+    vi.mocked(prisma.user.findUnique).mockImplementation((async (args: { where: { id?: string; email?: string } }) =>
+      [...users.values()].find(user => args.where.id ? user.id === args.where.id : user.email === args.where.email) ?? null) as never)
+    vi.mocked(prisma.user.findFirst).mockImplementation((async (args: { where: { email: { equals: string; mode: 'insensitive' } } }) =>
+      [...users.values()].find(user => user.email.toLowerCase() === args.where.email.equals.toLowerCase()) ?? null) as never)
+    vi.mocked(prisma.user.update).mockImplementation((async (args: { where: { id: string }; data: Partial<StoredUser> }) =>
+      Object.assign(users.get(args.where.id)!, args.data)) as never)
+    vi.mocked(prisma.userRole.findMany).mockResolvedValue([])
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  afterAll(() => {
+    rmSync(mailDir, { recursive: true, force: true })
+  })
+
+  describe('POST /auth/magic-link', () => {
+    it('should email a sign-in link', async () => {
+      addUser('alice')
+
+      const response = await requestLink('alice@example.com')
+
+      expect(response.status).toBe(200)
+      const [mail] = sentMail()
+      expect(mail).toContain('To: alice@example.com')
+      expect(mail).toContain('Subject: Your sign-in link')
+      expect(mail).toContain('http://localhost:3000/magic-link?token=')
+    })
+
+    it('should find the account whatever the case of the address', async () => {
+      addUser('alice', { email: 'Alice@Example.com' })
+
+      await requestLink('alice@EXAMPLE.com')
+
+      const [mail] = sentMail()
+      expect(mail).toContain('To: Alice@Example.com')
+      expect((await verify(tokenFrom(mail))).status).toBe(200)
+    })
+
+    it('should answer before the email is sent', async () => {
+      addUser('alice')
+      let deliver!: () => void
+      const send = vi.fn(() => new Promise<void>(resolve => { deliver = resolve }))
+      mailService.setTransport({ send })
+
+      try {
+        const response = await post('/auth/magic-link', { email: 'alice@example.com' })
+
+        expect(response.status).toBe(200)
+        await vi.waitFor(() => expect(send).toHaveBeenCalledTimes(1))
+
+        deliver()
+        await settleBackgroundTasks()
+      } finally {
+        mailService.setTransport(new FileMailTransport(mailDir))
+      }
+    })
+
+    it('should answer unknown addresses the same way without sending anything', async () => {
+      addUser('alice')
+
+      const known = await requestLink('alice@example.com')
+      const unknown = await requestLink('nobody@example.com')
+
+      expect(unknown.status).toBe(known.status)
+      expect(await unknown.json()).toEqual(await known.json())
+      expect(sentMail()).toHaveLength(1)
+    })
+
+    it('should limit the links sent to an address', async () => {
+      addUser('alice')
+
+      for (let i = 0; i < 5; i++) {
+        expect((await requestLink('alice@example.com')).status).toBe(200)
+      }
+
+      expect((await requestLink('ALICE@example.com')).status).toBe(429)
+      expect((await requestLink('alice@EXAMPLE.COM')).status).toBe(429)
+      expect(sentMail()).toHaveLength(5)
+    })
+
+    it('should not send links to locked addresses', async () => {
+      addUser('alice')
+      for (let i = 0; i < env.LOGIN_MAX_FAILED_ATTEMPTS; i++) {
+        await loginThrottleService.recordFailure('alice@example.com', null)
+      }
+
+      const response = await requestLink('alice@example.com')
+
+      expect(response.status).toBe(429)
+      expect(response.headers.get('Retry-After')).toBe(String(env.LOGIN_LOCKOUT_SECONDS))
+      expect(sentMail()).toHaveLength(0)
+    })
+  })
+
+  describe('POST /auth/magic-link/verify', () => {
+    it('should sign in with the options the link was asked for', async () => {
+      addUser('alice')
+      await requestLink('alice@example.com', { rememberMe: true, deviceName: 'Work laptop' })
+
+      const response = await verify(tokenFrom(sentMail()[0]))
+      const { data } = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.user.id).toBe('alice')
+      expect(data.tokens).toHaveProperty('accessToken')
+      expect([...memorySessions.rows.values()]).toEqual([
+        expect.objectContaining({ userId: 'alice', rememberMe: true, deviceName: 'Work laptop' })
+      ])
+    })
+
+    it('should work once', async () => {
+      addUser('alice')
+      await requestLink('alice@example.com')
+      const token = tokenFrom(sentMail()[0])
+
+      expect((await verify(token)).status).toBe(200)
+      expect((await verify(token)).status).toBe(401)
+    })
+
+    it('should expire', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] })
+      addUser('alice')
+      await requestLink('alice@example.com')
+
+      vi.setSystemTime(Date.now() + env.MAGIC_LINK_TTL_SECONDS * 1000 + 1000)
+      const response = await verify(tokenFrom(sentMail()[0]))
+
+      expect(response.status).toBe(401)
+      expect((await response.json()).error.message).toBe('Invalid or expired magic link')
+    })
+
+    it('should stop working when the address changes', async () => {
+      const alice = addUser('alice')
+      await requestLink('alice@example.com')
+      alice.email = 'alice@elsewhere.example'
+
+      expect((await verify(tokenFrom(sentMail()[0]))).status).toBe(401)
+    })
+
+    it('should refuse while the address is locked, without spending the link', async () => {
+      addUser('alice')
+      await requestLink('alice@example.com')
+      const token = tokenFrom(sentMail()[0])
+      for (let i = 0; i < env.LOGIN_MAX_FAILED_ATTEMPTS; i++) {
+        await loginThrottleService.recordFailure('alice@example.com', null)
+      }
+
+      expect((await verify(token)).status).toBe(429)
+
+      await loginThrottleService.unlock('alice@example.com')
+      expect((await verify(token)).status).toBe(200)
+    })
+
+    it('should verify the address', async () => {
+      addUser('alice', { emailVerifiedAt: null })
+      await requestLink('alice@example.com')
+
+      const { data } = await (await verify(tokenFrom(sentMail()[0]))).json()
+
+      expect(data.user.emailVerifiedAt).not.toBeNull()
+      expect(users.get('alice')!.emailVerifiedAt).toBeInstanceOf(Date)
+    })
+
+    it('should still ask users with 2FA for a code', async () => {
+      addUser('alice', { totpSecret: 'JBSWY3DPEHPK3PXP', totpEnabledAt: new Date() })
+      await requestLink('alice@example.com')
+
+      const { data } = await (await verify(tokenFrom(sentMail()[0]))).json()
+
+      expect(data).toEqual({ mfaRequired: true, mfaEnrollmentRequired: false, mfaToken: expect.any(String) })
+      expect(memorySessions.rows.size).toBe(0)
+    })
+  })
+})
\ No newline at end of file
@@ -0,0 +1,282 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { Hono } from 'hono'
+import { auth } from '@/routes/auth'
+import { errorHandler } from '@/middleware/error-handler'
+import { prisma } from '@/config/database'
+import { hashToken } from '@/utils/auth'
+import { generateTotpCode, totpStep } from '@/utils/totp'
+import { createMemoryRedis } from '@tests/fixtures/redis'
+import { createMemorySessions } from '@tests/fixtures/sessions'
+import { testSigningKey } from '@tests/fixtures/signing-key'
+
+const memoryRedis = createMemoryRedis()
+const memorySessions = createMemorySessions()
+
+Object.assign(prisma.session, memorySessions.delegate)
+
+vi.mock('@/config/redis', () => ({
+  getRedis: () => memoryRedis.client,
+  closeRedisConnection: vi.fn()
+}))
+
+vi.mock('@/services/signing-key.service', () => ({
+  signingKeyService: {
+    getSigningKey: vi.fn(async () => testSigningKey),
+    getVerificationKey: vi.fn(async (kid: string) => kid === testSigningKey.kid ? testSigningKey : null)
+  }
+}))
+
+// Any password is accepted
+vi.mock('@/utils/auth', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/utils/auth')>()),
+  comparePassword: vi.fn().mockResolvedValue(true)
+}))
+
+interface StoredUser {
+  id: string
+  email: string
+  name: string
+  password: string
+  tokenVersion: number
+  emailVerifiedAt: Date | null
+  totpSecret: string | null
+  totpEnabledAt: Date | null
+  createdAt: Date
+  updatedAt: Date
+}
+
+interface StoredRecoveryCode {
+  userId: string
+  codeHash: string
+  usedAt: Date | null
+}
+
+const users = new Map<string, StoredUser>()
+const recoveryCodes: StoredRecoveryCode[] = []
+// Users holding a role that requires two-factor authentication
+const mfaRoleHolders = new Set<string>()
+
+const addUser = (id: string) => {
+  users.set(id, {
+    id,
+    email: `${id}@example.com`,
+    name: `User ${id}`,
+    password: 'hashed-password',
+    tokenVersion: 0,
+    emailVerifiedAt: new Date(),
+    totpSecret: null,
+    totpEnabledAt: null,
+    createdAt: new Date(),
+    updatedAt: new Date()
+  })
+}
+
+const app = new Hono()
+app.onError(errorHandler)
+app.route('/auth', auth)
+
+const post = (path: string, body: object = {}, accessToken?: string) =>
+  app.request(path, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(accessToken ? { Authorization: `Bearer ${accessToken}` } : {})
+    },
+    body: JSON.stringify(body)
+  })
+
+const login = async (userId: string) =>
+  (await (await post('/auth/login', { email: `${userId}@example.com`, password: 'secret' })).json()).data
+
+// Code the authenticator app shows, `offset` time steps from now; each code is accepted once
+const codeFor = (userId: string, offset = 0) =>
+  generateTotpCode(users.get(userId)!.totpSecret!, totpStep() + offset)
+
+/**
+ * Enroll a signed-in user and return their recovery codes
+ */
+const enroll = async (userId: string): Promise<string[]> => {
+  const accessToken = (await login(userId)).tokens.accessToken
+  await post('/auth/mfa/totp/setup', {}, accessToken)
+  const confirmed = await post('/auth/mfa/totp/confirm', { code: codeFor(userId) }, accessToken)
+  return (await confirmed.json()).data.recoveryCodes
+}
+
+describe('Two-Factor Authentication Integration Tests', () => {
+  beforeEach(() => {
+    memoryRedis.reset()
+    memorySessions.reset()
+    users.clear()
+    recoveryCodes.length = 0
+    mfaRoleHolders.clear()
+    addUser('alice')
+
+    vi.mocked(prisma.user.findUnique).mockImplementation((async (args: { where: { id?: string; email?: string } }) =>
+      [...users.values()].find(user => args.where.id ? user.id === args.where.id : user.email === args.where.email) ?? null) as never)
+    vi.mocked(prisma.user.update).mockImplementation((async (args: { where: { id: string }; data: Partial<StoredUser> }) => {
+      const user = users.get(args.where.id)!
+      Object.assign(user, args.data)
+      return user
+    }) as never)
+
+    vi.mocked(prisma.recoveryCode.createMany).mockImplementation((async (args: { data: Array<Omit<StoredRecoveryCode, 'usedAt'>> }) => {
+      recoveryCodes.push(...args.data.map(row => ({ ...row, usedAt: null })))
+      return { count: args.data.length }
+    }) as never)
+    vi.mocked(prisma.recoveryCode.updateMany).mockImplementation((async (args: { where: StoredRecoveryCode; data: { usedAt: Date } }) => {
+      const rows = recoveryCodes.filter(row =>
+        row.userId === args.where.userId && row.codeHash === args.where.codeHash && row.usedAt === null)
+      rows.forEach(row => Object.assign(row, args.data))
+      return { count: rows.length }
+    }) as never)
+    vi.mocked(prisma.recoveryCode.deleteMany).mockImplementation((async (args: { where: { userId: string } }) => {
+      const kept = recoveryCodes.filter(row => row.userId !== args.where.userId)
+      const count = recoveryCodes.length - kept.length
+      recoveryCodes.splice(0, recoveryCodes.length, ...kept)
+      return { count }
+    }) as never)
+
+    vi.mocked(prisma.userRole.findMany).mockImplementation((async (args: { where: { userId: string } }) =>
+      mfaRoleHolders.has(args.where.userId)
+        ? [{ expiresAt: null, role: { id: 'role-admin', name: 'admin', description: null, requireMfa: true, permissions: [] } }]
+        : []) as never)
+  })
+
+  describe('enrollment', () => {
+    it('should return a secret and otpauth URI, and enable 2FA once a code confirms it', async () => {
+      const accessToken = (await login('alice')).tokens.accessToken
+
+      const setup = await (await post('/auth/mfa/totp/setup', {}, accessToken)).json()
+      expect(setup.data.otpauthUri).toBe(
+        `otpauth://totp/honojs-template%3Aalice%40example.com?secret=${setup.data.secret}&issuer=honojs-template&algorithm=SHA1&digits=6&period=30`
+      )
+      expect(users.get('alice')!.totpEnabledAt).toBeNull()
+
+      const wrong = await post('/auth/mfa/totp/confirm', { code: '000000' }, accessToken)
+      expect(wrong.status).toBe(400)
+
+      const confirmed = await post('/auth/mfa/totp/confirm', { code: codeFor('alice') }, accessToken)
+      const { recoveryCodes: codes } = (await confirmed.json()).data
+
+      expect(confirmed.status).toBe(200)
+      expect(users.get('alice')!.totpEnabledAt).toBeInstanceOf(Date)
+      expect(codes).toHaveLength(10)
+      expect(recoveryCodes.map(row => row.codeHash)).toEqual(codes.map((code: string) => hashToken(code.replace('-', ''))))
+    })
+
+    it('should not start over once enabled', async () => {
+      await enroll('alice')
+      const accessToken = await post('/auth/login/mfa', { mfaToken: (await login('alice')).mfaToken, code: codeFor('alice', 1) })
+        .then(response => response.json())
+        .then(body => body.data.tokens.accessToken)
+
+      expect((await post('/auth/mfa/totp/setup', {}, accessToken)).status).toBe(409)
+    })
+  })
+
+  describe('two-step login', () => {
+    it('should withhold tokens until a code is verified', async () => {
+      await enroll('alice')
+
+      const pending = await login('alice')
+      expect(pending).toEqual({ mfaRequired: true, mfaEnrollmentRequired: false, mfaToken: expect.any(String) })
+
+      // The pending token is no access token
+      const me = await app.request('/auth/me', { headers: { Authorization: `Bearer ${pending.mfaToken}` } })
+      expect(me.status).toBe(401)
+
+      const wrong = await post('/auth/login/mfa', { mfaToken: pending.mfaToken, code: '000000' })
+      expect(wrong.status).toBe(400)
+
+      const verified = await post('/auth/login/mfa', { mfaToken: pending.mfaToken, code: codeFor('alice', 1) })
+      const { data } = await verified.json()
+
+      expect(verified.status).toBe(200)
+      expect(data.tokens).toHaveProperty('accessToken')
+      expect(data.user.totpEnabledAt).not.toBeNull()
+      expect((await app.request('/auth/me', { headers: { Authorization: `Bearer ${data.tokens.accessToken}` } })).status).toBe(200)
+    })
+
+    it('should accept each pending token and each code only once', async () => {
+      await enroll('alice')
+      const { mfaToken } = await login('alice')
+      const code = codeFor('alice', 1)
+
+      expect((await post('/auth/login/mfa', { mfaToken, code })).status).toBe(200)
+      expect((await post('/auth/login/mfa', { mfaToken, code })).status).toBe(401)
+
+      const next = await login('alice')
+      expect((await post('/auth/login/mfa', { mfaToken: next.mfaToken, code })).status).toBe(400)
+    })
+
+    it('should accept each recovery code once', async () => {
+      const [recoveryCode] = await enroll('alice')
+
+      const first = await post('/auth/login/mfa', { mfaToken: (await login('alice')).mfaToken, code: recoveryCode.toUpperCase() })
+      const second = await post('/auth/login/mfa', { mfaToken: (await login('alice')).mfaToken, code: recoveryCode })
+
+      expect(first.status).toBe(200)
+      expect(second.status).toBe(400)
+    })
+
+    it('should stop checking codes after five failures', async () => {
+      await enroll('alice')
+      const { mfaToken } = await login('alice')
+
+      for (let i = 0; i < 5; i++) {
+        expect((await post('/auth/login/mfa', { mfaToken, code: '000000' })).status).toBe(400)
+      }
+
+      expect((await post('/auth/login/mfa', { mfaToken, code: codeFor('alice', 1) })).status).toBe(429)
+    })
+  })
+
+  describe('roles requiring 2FA', () => {
+    it('should make users enroll before they get tokens', async () => {
+      mfaRoleHolders.add('alice')
+
+      const pending = await login('alice')
+      expect(pending).toEqual({ mfaRequired: true, mfaEnrollmentRequired: true, mfaToken: expect.any(String) })
+
+      const setup = await post('/auth/login/mfa/setup', { mfaToken: pending.mfaToken })
+      expect(setup.status).toBe(200)
+
+      const verified = await post('/auth/login/mfa', { mfaToken: pending.mfaToken, code: codeFor('alice') })
+      const { data } = await verified.json()
+
+      expect(verified.status).toBe(200)
+      expect(data.tokens).toHaveProperty('accessToken')
+      expect(data.recoveryCodes).toHaveLength(10)
+      expect(users.get('alice')!.totpEnabledAt).toBeInstanceOf(Date)
+    })
+
+    it('should not let holders disable 2FA', async () => {
+      mfaRoleHolders.add('alice')
+      const { mfaToken } = await login('alice')
+      await post('/auth/login/mfa/setup', { mfaToken })
+      const { data } = await (await post('/auth/login/mfa', { mfaToken, code: codeFor('alice') })).json()
+
+      const response = await post('/auth/mfa/totp/disable', { code: data.recoveryCodes[0] }, data.tokens.accessToken)
+
+      expect(response.status).toBe(403)
+      expect(users.get('alice')!.totpEnabledAt).toBeInstanceOf(Date)
+    })
+  })
+
+  describe('POST /auth/mfa/totp/disable', () => {
+    it('should turn 2FA off with a recovery code', async () => {
+      const [recoveryCode, ...others] = await enroll('alice')
+      const { data } = await (await post('/auth/login/mfa', {
+        mfaToken: (await login('alice')).mfaToken,
+        code: others[0]
+      })).json()
+
+      const response = await post('/auth/mfa/totp/disable', { code: recoveryCode }, data.tokens.accessToken)
+
+      expect(response.status).toBe(200)
+      expect(users.get('alice')).toMatchObject({ totpSecret: null, totpEnabledAt: null })
+      expect(recoveryCodes).toHaveLength(0)
+      expect((await login('alice')).tokens).toHaveProperty('accessToken')
+    })
+  })
+})
\ No newline at end of file
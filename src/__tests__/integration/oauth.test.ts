@@ -0,0 +1,295 @@
+import { describe, it, expect, beforeAll, beforeEach, afterAll, vi } from 'vitest'
+import { Hono } from 'hono'
+import { auth } from '@/routes/auth'
+import { errorHandler } from '@/middleware/error-handler'
+import { prisma } from '@/config/database'
+import { oauthService, OidcProvider } from '@/services/oauth.service'
+import { createMemoryRedis } from '@tests/fixtures/redis'
+import { createMemorySessions } from '@tests/fixtures/sessions'
+import { testSigningKey } from '@tests/fixtures/signing-key'
+import { startTestIdentityProvider } from '@tests/fixtures/identity-provider'
+
+const memoryRedis = createMemoryRedis()
+const memorySessions = createMemorySessions()
+
+Object.assign(prisma.session, memorySessions.delegate)
+
+vi.mock('@/config/redis', () => ({
+  getRedis: () => memoryRedis.client,
+  closeRedisConnection: vi.fn()
+}))
+
+vi.mock('@/services/signing-key.service', () => ({
+  signingKeyService: {
+    getSigningKey: vi.fn(async () => testSigningKey),
+    getVerificationKey: vi.fn(async (kid: string) => kid === testSigningKey.kid ? testSigningKey : null)
+  }
+}))
+
+vi.mock('@/utils/auth', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/utils/auth')>()),
+  hashPassword: vi.fn(async (password: string) => `hashed:${password}`)
+}))
+
+interface StoredUser {
+  id: string
+  email: string
+  name: string
+  password: string
+  tokenVersion: number
+  emailVerifiedAt: Date | null
+  totpSecret: string | null
+  totpEnabledAt: Date | null
+  createdAt: Date
+  updatedAt: Date
+}
+
+interface StoredIdentity {
+  userId: string
+  provider: string
+  subject: string
+  email: string | null
+}
+
+const users = new Map<string, StoredUser>()
+const identities: StoredIdentity[] = []
+
+const addUser = (id: string, fields: Partial<StoredUser> = {}) => {
+  const user: StoredUser = {
+    id,
+    email: `${id}@example.com`,
+    name: `User ${id}`,
+    password: 'hashed:password',
+    tokenVersion: 0,
+    emailVerifiedAt: new Date(),
+    totpSecret: null,
+    totpEnabledAt: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...fields
+  }
+  users.set(id, user)
+  return user
+}
+
+const app = new Hono()
+app.onError(errorHandler)
+app.route('/auth', auth)
+
+const post = (path: string, body: object = {}) =>
+  app.request(path, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  })
+
+const idp = await startTestIdentityProvider('test-client', 'test-secret')
+
+// Asks for the authorization URL and signs in at the provider, like the browser does before it is sent back
+const authorize = async (options: object = {}) => {
+  const { data } = await (await post('/auth/oauth/stand-in/authorize', options)).json()
+  const { code, state } = await idp.authorize(data.authorizationUrl)
+  return { code, state, stateVerifier: data.stateVerifier as string }
+}
+
+/**
+ * The whole round trip: ask for the authorization URL, sign in at the provider and post
+ * what it redirected back with
+ */
+const signIn = async (options: object = {}) => post('/auth/oauth/stand-in/callback', await authorize(options))
+
+describe('OAuth Login Integration Tests', () => {
+  beforeAll(() => {
+    oauthService.registerProvider(new OidcProvider({
+      name: 'stand-in',
+      issuer: idp.issuer,
+      clientId: 'test-client',
+      clientSecret: 'test-secret',
+      redirectUri: 'http://localhost:3000/oauth/callback',
+      scopes: 'openid email profile'
+    }))
+  })
+
+  afterAll(async () => {
+    await idp.close()
+  })
+
+  beforeEach(() => {
+    memoryRedis.reset()
+    memorySessions.reset()
+    idp.reset()
+    users.clear()
+    identities.length = 0
+
+    vi.mocked(prisma.user.findUnique).mockImplementation((async (args: { where: { id?: string; email?: string } }) =>
+      [...users.values()].find(user => args.where.id ? user.id === args.where.id : user.email === args.where.email) ?? null) as never)
+    vi.mocked(prisma.user.create).mockImplementation((async (args: { data: Partial<StoredUser> }) =>
+      addUser(`user-${users.size + 1}`, args.data)) as never)
+
+    vi.mocked(prisma.externalIdentity.findUnique).mockImplementation((async (args: { where: { provider_subject: { provider: string; subject: string } } }) => {
+      const { provider, subject } = args.where.provider_subject
+      const identity = identities.find(row => row.provider === provider && row.subject === subject)
+      return identity ? { ...identity, user: users.get(identity.userId) } : null
+    }) as never)
+    vi.mocked(prisma.externalIdentity.create).mockImplementation((async (args: { data: StoredIdentity }) => {
+      identities.push(args.data)
+      return args.data
+    }) as never)
+
+    vi.mocked(prisma.role.findUnique).mockResolvedValue({ id: 'role-user', name: 'user', description: null } as never)
+    vi.mocked(prisma.userRole.findUnique).mockResolvedValue(null)
+    vi.mocked(prisma.userRole.create).mockResolvedValue({ role: { id: 'role-user', name: 'user' } } as never)
+    vi.mocked(prisma.userRole.findMany).mockResolvedValue([])
+  })
+
+  describe('GET /auth/oauth/providers', () => {
+    it('should list the registered providers', async () => {
+      const response = await app.request('/auth/oauth/providers')
+
+      expect((await response.json()).data.providers).toContain('stand-in')
+    })
+  })
+
+  describe('POST /auth/oauth/:provider/authorize', () => {
+    it('should send the user to the provider with state, nonce and a PKCE challenge', async () => {
+      const response = await post('/auth/oauth/stand-in/authorize')
+      const { data } = await response.json()
+      const url = new URL(data.authorizationUrl)
+
+      expect(`${url.origin}${url.pathname}`).toBe(`${idp.issuer}/authorize`)
+      expect(Object.fromEntries(url.searchParams)).toEqual({
+        response_type: 'code',
+        client_id: 'test-client',
+        redirect_uri: 'http://localhost:3000/oauth/callback',
+        scope: 'openid email profile',
+        state: expect.any(String),
+        nonce: expect.any(String),
+        code_challenge: expect.stringMatching(/^[\w-]{43}$/),
+        code_challenge_method: 'S256'
+      })
+      expect(data.stateVerifier).toEqual(expect.any(String))
+      // Only its hash is kept with the state
+      const [stateKey] = await memoryRedis.client.keys('oauth-state:*')
+      expect(await memoryRedis.client.get(stateKey)).not.toContain(data.stateVerifier)
+    })
+
+    it('should return 404 for unknown providers', async () => {
+      expect((await post('/auth/oauth/nowhere/authorize')).status).toBe(404)
+    })
+  })
+
+  describe('POST /auth/oauth/:provider/callback', () => {
+    it('should create a verified user for a new identity and sign them in', async () => {
+      idp.signInAs({ sub: 'idp-1', email: 'new@example.com', email_verified: true, name: 'New Person' })
+
+      const response = await signIn({ rememberMe: true })
+      const { data } = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.tokens).toHaveProperty('accessToken')
+      expect(data.user).toMatchObject({ email: 'new@example.com', name: 'New Person' })
+      expect(data.user.emailVerifiedAt).not.toBeNull()
+      expect(identities).toEqual([{ userId: data.user.id, provider: 'stand-in', subject: 'idp-1', email: 'new@example.com' }])
+      expect(prisma.userRole.create).toHaveBeenCalled()
+    })
+
+    it('should link an identity to the user with its verified email address', async () => {
+      addUser('alice')
+      idp.signInAs({ sub: 'idp-alice', email: 'alice@example.com', email_verified: true })
+
+      const { data } = await (await signIn()).json()
+      expect(data.user.id).toBe('alice')
+
+      // Once linked, the identity signs in as the user whatever address the provider reports
+      idp.signInAs({ sub: 'idp-alice', email: 'alice@elsewhere.example', email_verified: false })
+      const again = await (await signIn()).json()
+
+      expect(again.data.user.id).toBe('alice')
+      expect(identities).toHaveLength(1)
+      expect(users.size).toBe(1)
+    })
+
+    it('should not link to an account whose address is unverified', async () => {
+      addUser('alice', { emailVerifiedAt: null })
+      idp.signInAs({ sub: 'idp-alice', email: 'alice@example.com', email_verified: true })
+
+      const response = await signIn()
+
+      expect(response.status).toBe(409)
+      expect(identities).toHaveLength(0)
+    })
+
+    it('should refuse identities without a verified email address', async () => {
+      idp.signInAs({ sub: 'idp-1', email: 'new@example.com', email_verified: false })
+
+      expect((await signIn()).status).toBe(403)
+      expect(users.size).toBe(0)
+    })
+
+    it('should fetch the email address from user info when the ID token leaves it out', async () => {
+      idp.signInAs({ sub: 'idp-1', email: 'new@example.com', email_verified: true })
+      idp.overrideIdTokenClaims({ email: undefined, email_verified: undefined })
+
+      const response = await signIn()
+
+      expect(response.status).toBe(200)
+      expect((await response.json()).data.user.email).toBe('new@example.com')
+    })
+
+    it('should accept each state once', async () => {
+      idp.signInAs({ sub: 'idp-1', email: 'new@example.com', email_verified: true })
+      const callback = await authorize()
+
+      expect((await post('/auth/oauth/stand-in/callback', callback)).status).toBe(200)
+      expect((await post('/auth/oauth/stand-in/callback', callback)).status).toBe(400)
+      expect((await post('/auth/oauth/stand-in/callback', { ...callback, state: 'made-up' })).status).toBe(400)
+    })
+
+    it('should not finish a login in a client other than the one that started it', async () => {
+      // The attacker signs in at the provider and stops before being sent back
+      idp.signInAs({ sub: 'idp-mallory', email: 'mallory@example.com', email_verified: true })
+      const attacker = await authorize()
+
+      // Then lures the victim's client into posting the attacker's code and state with its own verifier
+      const { data: victim } = await (await post('/auth/oauth/stand-in/authorize')).json()
+      const response = await post('/auth/oauth/stand-in/callback', {
+        code: attacker.code,
+        state: attacker.state,
+        stateVerifier: victim.stateVerifier
+      })
+
+      expect(response.status).toBe(400)
+      expect((await response.json()).error.message).toBe('Invalid or expired OAuth state')
+      expect(users.size).toBe(0)
+      expect(memorySessions.rows.size).toBe(0)
+    })
+
+    it('should require the state verifier', async () => {
+      idp.signInAs({ sub: 'idp-1', email: 'new@example.com', email_verified: true })
+      const { code, state } = await authorize()
+
+      expect((await post('/auth/oauth/stand-in/callback', { code, state })).status).toBe(400)
+      expect(users.size).toBe(0)
+    })
+
+    it('should reject ID tokens issued for another login', async () => {
+      idp.signInAs({ sub: 'idp-1', email: 'new@example.com', email_verified: true })
+      idp.overrideIdTokenClaims({ nonce: 'another-login' })
+
+      const response = await signIn()
+
+      expect(response.status).toBe(401)
+      expect((await response.json()).error.message).toBe('Invalid ID token')
+      expect(users.size).toBe(0)
+    })
+
+    it('should still ask users with 2FA for a code', async () => {
+      addUser('alice', { totpSecret: 'JBSWY3DPEHPK3PXP', totpEnabledAt: new Date() })
+      idp.signInAs({ sub: 'idp-alice', email: 'alice@example.com', email_verified: true })
+
+      const { data } = await (await signIn()).json()
+
+      expect(data).toEqual({ mfaRequired: true, mfaEnrollmentRequired: false, mfaToken: expect.any(String) })
+    })
+  })
+})
\ No newline at end of file
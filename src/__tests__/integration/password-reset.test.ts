@@ -0,0 +1,287 @@
+import { describe, it, expect, beforeEach, afterAll, vi } from 'vitest'
+import { existsSync, mkdtempSync, readdirSync, readFileSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { Hono } from 'hono'
+import { auth } from '@/routes/auth'
+import { errorHandler } from '@/middleware/error-handler'
+import { prisma } from '@/config/database'
+import { mailService, FileMailTransport } from '@/services/mail.service'
+import { tokenService } from '@/services/token.service'
+import { hashPassword } from '@/utils/auth'
+import { settleBackgroundTasks } from '@/utils/background'
+import { createMemoryRedis } from '@tests/fixtures/redis'
+import { createMemorySessions } from '@tests/fixtures/sessions'
+import { testSigningKey } from '@tests/fixtures/signing-key'
+
+const memoryRedis = createMemoryRedis()
+const memorySessions = createMemorySessions()
+
+Object.assign(prisma.session, memorySessions.delegate)
+
+vi.mock('@/config/redis', () => ({
+  getRedis: () => memoryRedis.client,
+  closeRedisConnection: vi.fn()
+}))
+
+vi.mock('@/services/signing-key.service', () => ({
+  signingKeyService: {
+    getSigningKey: vi.fn(async () => testSigningKey),
+    getVerificationKey: vi.fn(async (kid: string) => kid === testSigningKey.kid ? testSigningKey : null)
+  }
+}))
+
+vi.mock('@/utils/auth', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/utils/auth')>()),
+  hashPassword: vi.fn(async (password: string) => `hashed:${password}`)
+}))
+
+interface StoredUser {
+  id: string
+  email: string
+  name: string
+  password: string
+  tokenVersion: number
+}
+
+interface StoredResetToken {
+  id: string
+  userId: string
+  tokenHash: string
+  expiresAt: Date
+  usedAt: Date | null
+  createdAt: Date
+}
+
+interface ResetTokenWhere {
+  userId?: string
+  tokenHash?: string
+  usedAt?: null
+  expiresAt?: { gt?: Date; lt?: Date }
+}
+
+const users = new Map<string, StoredUser>()
+const resetTokens: StoredResetToken[] = []
+
+const matches = (row: StoredResetToken, where: ResetTokenWhere) =>
+  (where.userId === undefined || row.userId === where.userId) &&
+  (where.tokenHash === undefined || row.tokenHash === where.tokenHash) &&
+  (where.usedAt === undefined || row.usedAt === null) &&
+  (where.expiresAt?.gt === undefined || row.expiresAt > where.expiresAt.gt) &&
+  (where.expiresAt?.lt === undefined || row.expiresAt < where.expiresAt.lt)
+
+const addUser = (id: string) => {
+  const user: StoredUser = {
+    id,
+    email: `${id}@example.com`,
+    name: `User ${id}`,
+    password: 'hashed:old-password',
+    tokenVersion: 0
+  }
+  users.set(id, user)
+  return user
+}
+
+const mailDir = mkdtempSync(join(tmpdir(), 'mail-'))
+mailService.setTransport(new FileMailTransport(mailDir))
+
+const sentMail = () => existsSync(mailDir)
+  ? readdirSync(mailDir).sort().map(file => readFileSync(join(mailDir, file), 'utf8'))
+  : []
+const tokenFrom = (mail: string) => /[?&]token=([\w.-]+)/.exec(mail)![1]
+
+const app = new Hono()
+app.onError(errorHandler)
+app.route('/auth', auth)
+
+const post = (path: string, body: object) =>
+  app.request(path, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  })
+
+// Waits for the email too, which is sent after the response
+const forgot = async (email: string) => {
+  const response = await post('/auth/password/forgot', { email })
+  await settleBackgroundTasks()
+  return response
+}
+const reset = (token: string, password = 'N3w-passphrase') => post('/auth/password/reset', { token, password })
+
+describe('Password Reset Integration Tests', () => {
+  beforeEach(() => {
+    memoryRedis.reset()
+    memorySessions.reset()
+    users.clear()
+    resetTokens.length = 0
+    rmSync(mailDir, { recursive: true, force: true })
+
+    vi.mocked(prisma.user.findUnique).mockImplementation((async (args: { where: { id?: string; email?: string } }) =>
+      [...users.values()].find(user => args.where.id ? user.id === args.where.id : user.email === args.where.email) ?? null) as never)
+    vi.mocked(prisma.user.update).mockImplementation((async (args: { where: { id: string }; data: Record<string, unknown> }) => {
+      const user = users.get(args.where.id)!
+      const { tokenVersion, ...data } = args.data as { tokenVersion?: { increment: number } }
+      Object.assign(user, data)
+      if (tokenVersion) {
+        user.tokenVersion += tokenVersion.increment
+      }
+      return user
+    }) as never)
+
+    vi.mocked(prisma.passwordResetToken.create).mockImplementation((async (args: { data: Omit<StoredResetToken, 'id' | 'usedAt' | 'createdAt'> }) => {
+      const row = { id: `reset-${resetTokens.length}`, usedAt: null, createdAt: new Date(), ...args.data }
+      resetTokens.push(row)
+      return row
+    }) as never)
+    vi.mocked(prisma.passwordResetToken.findUnique).mockImplementation((async (args: { where: { tokenHash: string } }) => {
+      const row = resetTokens.find(row => row.tokenHash === args.where.tokenHash)
+      return row ? { ...row, user: users.get(row.userId) } : null
+    }) as never)
+    vi.mocked(prisma.passwordResetToken.updateMany).mockImplementation((async (args: { where: ResetTokenWhere; data: Partial<StoredResetToken> }) => {
+      const rows = resetTokens.filter(row => matches(row, args.where))
+      rows.forEach(row => Object.assign(row, args.data))
+      return { count: rows.length }
+    }) as never)
+    vi.mocked(prisma.passwordResetToken.deleteMany).mockImplementation((async (args: { where: ResetTokenWhere }) => {
+      const kept = resetTokens.filter(row => !matches(row, args.where))
+      const count = resetTokens.length - kept.length
+      resetTokens.splice(0, resetTokens.length, ...kept)
+      return { count }
+    }) as never)
+  })
+
+  afterAll(() => {
+    rmSync(mailDir, { recursive: true, force: true })
+  })
+
+  describe('POST /auth/password/forgot', () => {
+    it('should email a reset link and store only a hash of its token', async () => {
+      addUser('alice')
+
+      const response = await forgot('alice@example.com')
+
+      expect(response.status).toBe(200)
+
+      const [mail] = sentMail()
+      expect(mail).toContain('To: alice@example.com')
+      expect(mail).toContain('Subject: Reset your password')
+      expect(mail).toContain('http://localhost:3000/reset-password?token=')
+
+      expect(resetTokens).toHaveLength(1)
+      expect(resetTokens[0].tokenHash).not.toBe(tokenFrom(mail))
+    })
+
+    it('should answer the same for unknown addresses without sending mail', async () => {
+      addUser('alice')
+
+      const known = await forgot('alice@example.com')
+      const unknown = await forgot('nobody@example.com')
+
+      expect(unknown.status).toBe(200)
+      expect(await unknown.json()).toEqual(await known.json())
+      expect(sentMail()).toHaveLength(1)
+    })
+
+    it('should answer before the email is sent, and the same when sending fails', async () => {
+      addUser('alice')
+      // A mail server that takes its time and then fails
+      let fail!: (error: Error) => void
+      const send = vi.fn(() => new Promise<void>((_resolve, reject) => { fail = reject }))
+      mailService.setTransport({ send })
+
+      try {
+        const response = await post('/auth/password/forgot', { email: 'alice@example.com' })
+
+        expect(response.status).toBe(200)
+        await vi.waitFor(() => expect(send).toHaveBeenCalledTimes(1))
+
+        fail(new Error('Mail server unavailable'))
+        await settleBackgroundTasks()
+      } finally {
+        mailService.setTransport(new FileMailTransport(mailDir))
+      }
+    })
+
+    it('should limit requests per address, whether or not it has an account', async () => {
+      addUser('alice')
+
+      for (let i = 0; i < 3; i++) {
+        expect((await forgot('alice@example.com')).status).toBe(200)
+        expect((await forgot('nobody@example.com')).status).toBe(200)
+      }
+
+      expect((await forgot('ALICE@example.com')).status).toBe(429)
+      expect((await forgot('nobody@example.com')).status).toBe(429)
+      expect(sentMail()).toHaveLength(3)
+    })
+  })
+
+  describe('POST /auth/password/reset', () => {
+    it('should set the new password, sign the user out everywhere and revoke their API keys', async () => {
+      addUser('alice')
+      const { accessToken } = await tokenService.generateTokenPair('alice', 'alice@example.com')
+      await forgot('alice@example.com')
+
+      const response = await reset(tokenFrom(sentMail()[0]))
+
+      expect(response.status).toBe(200)
+      expect(hashPassword).toHaveBeenCalledWith('N3w-passphrase')
+      expect(users.get('alice')!.password).toBe('hashed:N3w-passphrase')
+      await expect(tokenService.verifyToken(accessToken)).resolves.toBeNull()
+      expect(prisma.apiKey.deleteMany).toHaveBeenCalledWith({ where: { userId: 'alice' } })
+    })
+
+    it('should accept a token only once', async () => {
+      addUser('alice')
+      await forgot('alice@example.com')
+      const token = tokenFrom(sentMail()[0])
+
+      expect((await reset(token)).status).toBe(200)
+      expect((await reset(token, 'An0ther-passphrase')).status).toBe(400)
+      expect(users.get('alice')!.password).toBe('hashed:N3w-passphrase')
+    })
+
+    it('should keep the token usable when the new password breaks the password policy', async () => {
+      addUser('alice')
+      await forgot('alice@example.com')
+      const token = tokenFrom(sentMail()[0])
+
+      const personal = await reset(token, 'Alice-passphrase1')
+
+      expect(personal.status).toBe(400)
+      expect((await personal.json()).error.message).toBe('Password must not contain your name or email address')
+      expect((await reset(token)).status).toBe(200)
+    })
+
+    it('should reject expired tokens', async () => {
+      addUser('alice')
+      await forgot('alice@example.com')
+      resetTokens[0].expiresAt = new Date(Date.now() - 1000)
+
+      const response = await reset(tokenFrom(sentMail()[0]))
+
+      expect(response.status).toBe(400)
+      expect(users.get('alice')!.password).toBe('hashed:old-password')
+    })
+
+    it('should only accept the newest link', async () => {
+      addUser('alice')
+      await forgot('alice@example.com')
+      const first = tokenFrom(sentMail()[0])
+      await forgot('alice@example.com')
+      // Mail files sent within the same millisecond do not sort in the order they were sent
+      const second = sentMail().map(tokenFrom).find(token => token !== first)!
+
+      expect((await reset(first)).status).toBe(400)
+      expect((await reset(second)).status).toBe(200)
+    })
+
+    it('should reject unknown tokens', async () => {
+      const response = await reset('not-a-reset-token')
+
+      expect(response.status).toBe(400)
+      expect((await response.json()).error.message).toBe('Invalid or expired reset token')
+    })
+  })
+})
\ No newline at end of file
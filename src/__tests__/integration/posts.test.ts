@@ -0,0 +1,416 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { randomUUID } from 'node:crypto'
+import { Hono } from 'hono'
+import { posts as postsRoute } from '@/routes/posts'
+import { errorHandler } from '@/middleware/error-handler'
+import { prisma } from '@/config/database'
+import { hashToken } from '@/utils/auth'
+
+// Each bearer token maps directly to the user it authenticates
+vi.mock('@/services/token.service', () => ({
+  tokenService: {
+    verifyToken: vi.fn(async (token: string) => {
+      const userId = token.replace('-token', '')
+      return { userId, email: `${userId}@example.com`, sessionId: `session-${userId}`, tokenType: 'access' }
+    })
+  }
+}))
+
+const EDITOR_ID = '11111111-1111-4111-8111-111111111111'
+const AUTHOR_ID = '22222222-2222-4222-8222-222222222222'
+const OTHER_ID = '33333333-3333-4333-8333-333333333333'
+const READER_ID = '44444444-4444-4444-8444-444444444444'
+const NOBODY_ID = '55555555-5555-4555-8555-555555555555'
+const MISSING_POST_ID = '99999999-9999-4999-8999-999999999999'
+
+// An API key of the editor that may only read posts
+const EDITOR_READ_KEY = 'pat_editor-read-only'
+
+const permission = (resource: string, action: string) => ({
+  permission: { id: `${resource}-${action}`, name: `${resource}:${action}`, resource, action, description: null }
+})
+
+const authorGrants = [
+  permission('posts', 'read'),
+  permission('posts', 'create'),
+  permission('posts', 'update_own'),
+  permission('posts', 'delete_own')
+]
+
+// Role grants per user, shaped like `userRole.findMany` results
+const grants: Record<string, Array<ReturnType<typeof permission>>> = {
+  [EDITOR_ID]: [permission('posts', 'read'), permission('posts', 'create'), permission('posts', 'update'), permission('posts', 'delete')],
+  [AUTHOR_ID]: authorGrants,
+  [OTHER_ID]: authorGrants,
+  [READER_ID]: [permission('posts', 'read')],
+  [NOBODY_ID]: []
+}
+
+const makeUser = (id: string) => ({
+  id,
+  email: `${id}@example.com`,
+  name: `User ${id.slice(0, 4)}`,
+  emailVerifiedAt: new Date(),
+  totpEnabledAt: null,
+  createdAt: new Date(),
+  updatedAt: new Date()
+})
+
+interface StoredPost {
+  id: string
+  title: string
+  content: string | null
+  published: boolean
+  authorId: string
+  createdAt: Date
+  updatedAt: Date
+}
+
+interface PostWhere {
+  authorId?: string
+  published?: boolean
+  OR?: PostWhere[]
+}
+
+const posts = new Map<string, StoredPost>()
+
+// Posts are created a minute apart, in the order they are added
+const addPost = (authorId: string, published: boolean, title = `Post ${posts.size + 1}`) => {
+  const createdAt = new Date(Date.UTC(2026, 0, 1, 0, posts.size))
+  const post: StoredPost = { id: randomUUID(), title, content: null, published, authorId, createdAt, updatedAt: createdAt }
+  posts.set(post.id, post)
+  return post
+}
+
+const matches = (post: StoredPost, where: PostWhere): boolean =>
+  (where.authorId === undefined || post.authorId === where.authorId) &&
+  (where.published === undefined || post.published === where.published) &&
+  (where.OR === undefined || where.OR.some(clause => matches(post, clause)))
+
+const app = new Hono()
+app.onError(errorHandler)
+app.route('/posts', postsRoute)
+
+const call = (method: string, path: string, userId?: string, body?: unknown) =>
+  app.request(path, {
+    method,
+    headers: {
+      ...(userId ? { Authorization: `Bearer ${userId.startsWith('pat_') ? userId : `${userId}-token`}` } : {}),
+      ...(body ? { 'Content-Type': 'application/json' } : {})
+    },
+    body: body ? JSON.stringify(body) : undefined
+  })
+
+const titles = async (response: Response) =>
+  (await response.json()).data.items.map((post: StoredPost) => post.title)
+
+describe('Posts API Integration Tests', () => {
+  beforeEach(() => {
+    posts.clear()
+
+    vi.mocked(prisma.user.findUnique).mockImplementation((async (args: { where: { id?: string } }) => {
+      const id = args.where.id
+      return id && id in grants ? makeUser(id) : null
+    }) as never)
+    vi.mocked(prisma.userRole.findMany).mockImplementation((async (args: { where: { userId: string } }) => [{
+      role: { id: 'role', name: 'role', description: null, permissions: grants[args.where.userId] ?? [] }
+    }]) as never)
+    vi.mocked(prisma.apiKey.findUnique).mockImplementation((async (args: { where: { keyHash: string } }) =>
+      args.where.keyHash === hashToken(EDITOR_READ_KEY)
+        ? {
+            id: 'key-1',
+            userId: EDITOR_ID,
+            scopes: ['posts:read'],
+            expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+            lastUsedAt: new Date(),
+            user: makeUser(EDITOR_ID)
+          }
+        : null) as never)
+
+    vi.mocked(prisma.post.findUnique).mockImplementation((async (args: { where: { id: string } }) =>
+      posts.get(args.where.id) ?? null) as never)
+    vi.mocked(prisma.post.findMany).mockImplementation((async (args: {
+      where: PostWhere
+      skip: number
+      take: number
+      orderBy: { createdAt: 'asc' | 'desc' }
+    }) => {
+      const direction = args.orderBy.createdAt === 'asc' ? 1 : -1
+      return [...posts.values()]
+        .filter(post => matches(post, args.where))
+        .sort((a, b) => direction * (a.createdAt.getTime() - b.createdAt.getTime()))
+        .slice(args.skip, args.skip + args.take)
+    }) as never)
+    vi.mocked(prisma.post.count).mockImplementation((async (args: { where: PostWhere }) =>
+      [...posts.values()].filter(post => matches(post, args.where)).length) as never)
+    vi.mocked(prisma.post.create).mockImplementation((async (args: { data: Omit<StoredPost, 'id' | 'createdAt' | 'updatedAt'> }) => {
+      // Column defaults apply to fields left undefined, as in Postgres
+      const post = {
+        ...args.data,
+        id: randomUUID(),
+        content: args.data.content ?? null,
+        published: args.data.published ?? false,
+        createdAt: new Date(),
+        updatedAt: new Date()
+      }
+      posts.set(post.id, post)
+      return post
+    }) as never)
+    vi.mocked(prisma.post.update).mockImplementation((async (args: { where: { id: string }; data: Partial<StoredPost> }) =>
+      Object.assign(posts.get(args.where.id)!, args.data)) as never)
+    vi.mocked(prisma.post.delete).mockImplementation((async (args: { where: { id: string } }) => {
+      const post = posts.get(args.where.id)!
+      posts.delete(post.id)
+      return post
+    }) as never)
+  })
+
+  describe('authentication', () => {
+    it('should return 401 without a token', async () => {
+      const response = await call('GET', '/posts')
+
+      expect(response.status).toBe(401)
+    })
+  })
+
+  describe('GET /posts', () => {
+    beforeEach(() => {
+      addPost(AUTHOR_ID, true, 'Author published')
+      addPost(AUTHOR_ID, false, 'Author draft')
+      addPost(OTHER_ID, true, 'Other published')
+      addPost(OTHER_ID, false, 'Other draft')
+    })
+
+    it('should hide drafts of other users', async () => {
+      const response = await call('GET', '/posts', AUTHOR_ID)
+
+      expect(response.status).toBe(200)
+      expect(await titles(response)).toEqual(['Other published', 'Author draft', 'Author published'])
+    })
+
+    it('should show every draft to callers who may update any post', async () => {
+      const response = await call('GET', '/posts', EDITOR_ID)
+
+      expect(await titles(response)).toEqual(['Other draft', 'Other published', 'Author draft', 'Author published'])
+    })
+
+    it('should hide drafts from API keys whose scopes do not cover updating posts', async () => {
+      const response = await call('GET', '/posts', EDITOR_READ_KEY)
+
+      expect(response.status).toBe(200)
+      expect(await titles(response)).toEqual(['Other published', 'Author published'])
+    })
+
+    it('should filter by author', async () => {
+      const response = await call('GET', `/posts?authorId=${OTHER_ID}`, AUTHOR_ID)
+
+      expect(await titles(response)).toEqual(['Other published'])
+    })
+
+    it('should filter by author and published state', async () => {
+      const response = await call('GET', `/posts?authorId=${AUTHOR_ID}&published=false`, AUTHOR_ID)
+
+      expect(await titles(response)).toEqual(['Author draft'])
+    })
+
+    it('should paginate', async () => {
+      const response = await call('GET', '/posts?page=2&limit=2&order=asc', EDITOR_ID)
+      const { data } = await response.json()
+
+      expect(data.items.map((post: StoredPost) => post.title)).toEqual(['Other published', 'Other draft'])
+      expect(data.pagination).toEqual({ page: 2, limit: 2, total: 4, pages: 2, hasNext: false, hasPrev: true })
+    })
+
+    it('should reject an invalid author filter', async () => {
+      const response = await call('GET', '/posts?authorId=not-a-uuid', AUTHOR_ID)
+
+      expect(response.status).toBe(400)
+    })
+  })
+
+  describe('GET /posts/:id', () => {
+    it('should show published posts to anyone who may read posts', async () => {
+      const post = addPost(OTHER_ID, true)
+
+      const response = await call('GET', `/posts/${post.id}`, READER_ID)
+
+      expect(response.status).toBe(200)
+      expect((await response.json()).data.id).toBe(post.id)
+    })
+
+    it('should show drafts to their author', async () => {
+      const post = addPost(AUTHOR_ID, false)
+
+      const response = await call('GET', `/posts/${post.id}`, AUTHOR_ID)
+
+      expect(response.status).toBe(200)
+    })
+
+    it('should not reveal drafts of other users', async () => {
+      const post = addPost(OTHER_ID, false)
+
+      const response = await call('GET', `/posts/${post.id}`, AUTHOR_ID)
+
+      expect(response.status).toBe(404)
+      expect((await response.json()).error.message).toBe('Post not found')
+    })
+
+    it('should show drafts to callers who may update any post', async () => {
+      const post = addPost(OTHER_ID, false)
+
+      const response = await call('GET', `/posts/${post.id}`, EDITOR_ID)
+
+      expect(response.status).toBe(200)
+    })
+
+    it('should return 404 for unknown posts', async () => {
+      const response = await call('GET', `/posts/${MISSING_POST_ID}`, EDITOR_ID)
+
+      expect(response.status).toBe(404)
+    })
+  })
+
+  describe('POST /posts', () => {
+    it('should create a draft owned by the caller', async () => {
+      const response = await call('POST', '/posts', AUTHOR_ID, { title: 'Hello', content: 'World' })
+
+      expect(response.status).toBe(201)
+      const { data } = await response.json()
+      expect(data).toMatchObject({ title: 'Hello', content: 'World', published: false, authorId: AUTHOR_ID })
+      expect(posts.get(data.id)).toMatchObject({ authorId: AUTHOR_ID })
+    })
+
+    it('should deny callers without posts:create', async () => {
+      const response = await call('POST', '/posts', READER_ID, { title: 'Hello' })
+
+      expect(response.status).toBe(403)
+      expect(prisma.post.create).not.toHaveBeenCalled()
+    })
+
+    it('should reject posts without a title', async () => {
+      const response = await call('POST', '/posts', AUTHOR_ID, { title: '' })
+
+      expect(response.status).toBe(400)
+      expect(prisma.post.create).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('PUT /posts/:id', () => {
+    it('should allow posts:update_own on the caller post', async () => {
+      const post = addPost(AUTHOR_ID, false)
+
+      const response = await call('PUT', `/posts/${post.id}`, AUTHOR_ID, { title: 'Renamed' })
+
+      expect(response.status).toBe(200)
+      expect(posts.get(post.id)!.title).toBe('Renamed')
+    })
+
+    it('should deny posts:update_own on another post', async () => {
+      const post = addPost(OTHER_ID, true)
+
+      const response = await call('PUT', `/posts/${post.id}`, AUTHOR_ID, { title: 'Renamed' })
+
+      expect(response.status).toBe(403)
+      expect(prisma.post.update).not.toHaveBeenCalled()
+    })
+
+    it('should allow posts:update on any post', async () => {
+      const post = addPost(OTHER_ID, true)
+
+      const response = await call('PUT', `/posts/${post.id}`, EDITOR_ID, { title: 'Renamed' })
+
+      expect(response.status).toBe(200)
+    })
+
+    it('should deny API keys whose scopes do not cover it', async () => {
+      const post = addPost(EDITOR_ID, true)
+
+      const response = await call('PUT', `/posts/${post.id}`, EDITOR_READ_KEY, { title: 'Renamed' })
+
+      expect(response.status).toBe(403)
+      expect(prisma.post.update).not.toHaveBeenCalled()
+    })
+
+    it('should return 404 for unknown posts', async () => {
+      const response = await call('PUT', `/posts/${MISSING_POST_ID}`, EDITOR_ID, { title: 'Renamed' })
+
+      expect(response.status).toBe(404)
+    })
+
+    it('should answer drafts of other users like unknown posts', async () => {
+      const draft = addPost(OTHER_ID, false)
+
+      const existing = await call('PUT', `/posts/${draft.id}`, AUTHOR_ID, { title: 'Renamed' })
+      const missing = await call('PUT', `/posts/${MISSING_POST_ID}`, AUTHOR_ID, { title: 'Renamed' })
+
+      expect(existing.status).toBe(404)
+      expect(await existing.json()).toEqual(await missing.json())
+      expect(prisma.post.update).not.toHaveBeenCalled()
+    })
+
+    it('should answer callers who may not read posts like unknown posts', async () => {
+      const post = addPost(OTHER_ID, true)
+
+      for (const [method, path] of [['PUT', `/posts/${post.id}`], ['POST', `/posts/${post.id}/publish`], ['DELETE', `/posts/${post.id}`]]) {
+        const existing = await call(method, path, NOBODY_ID, method === 'PUT' ? { title: 'Renamed' } : undefined)
+        const missing = await call(method, path.replace(post.id, MISSING_POST_ID), NOBODY_ID, method === 'PUT' ? { title: 'Renamed' } : undefined)
+
+        expect(existing.status).toBe(404)
+        expect(await existing.json()).toEqual(await missing.json())
+      }
+      expect(posts.get(post.id)).toBeDefined()
+    })
+  })
+
+  describe('POST /posts/:id/publish and /unpublish', () => {
+    it('should let authors publish and unpublish their posts', async () => {
+      const post = addPost(AUTHOR_ID, false)
+
+      const published = await call('POST', `/posts/${post.id}/publish`, AUTHOR_ID)
+      expect(published.status).toBe(200)
+      expect((await published.json()).data.published).toBe(true)
+
+      const unpublished = await call('POST', `/posts/${post.id}/unpublish`, AUTHOR_ID)
+      expect(unpublished.status).toBe(200)
+      expect(posts.get(post.id)!.published).toBe(false)
+    })
+
+    it('should deny unpublishing another post without posts:update', async () => {
+      const post = addPost(OTHER_ID, true)
+
+      const response = await call('POST', `/posts/${post.id}/unpublish`, AUTHOR_ID)
+
+      expect(response.status).toBe(403)
+      expect(posts.get(post.id)!.published).toBe(true)
+    })
+  })
+
+  describe('DELETE /posts/:id', () => {
+    it('should allow posts:delete_own on the caller post', async () => {
+      const post = addPost(AUTHOR_ID, true)
+
+      const response = await call('DELETE', `/posts/${post.id}`, AUTHOR_ID)
+
+      expect(response.status).toBe(200)
+      expect(posts.has(post.id)).toBe(false)
+    })
+
+    it('should deny posts:delete_own on another post', async () => {
+      const post = addPost(OTHER_ID, true)
+
+      const response = await call('DELETE', `/posts/${post.id}`, AUTHOR_ID)
+
+      expect(response.status).toBe(403)
+      expect(prisma.post.delete).not.toHaveBeenCalled()
+    })
+
+    it('should allow posts:delete on any post', async () => {
+      const post = addPost(OTHER_ID, true)
+
+      const response = await call('DELETE', `/posts/${post.id}`, EDITOR_ID)
+
+      expect(response.status).toBe(200)
+      expect(posts.has(post.id)).toBe(false)
+    })
+  })
+})
\ No newline at end of file
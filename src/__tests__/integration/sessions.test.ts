@@ -0,0 +1,228 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { Hono } from 'hono'
+import { contextStorage } from 'hono/context-storage'
+import { auth } from '@/routes/auth'
+import { errorHandler } from '@/middleware/error-handler'
+import { ipSecurity } from '@/middleware/security'
+import { prisma } from '@/config/database'
+import { comparePassword, hashPassword } from '@/utils/auth'
+import { createMemoryRedis } from '@tests/fixtures/redis'
+import { createMemorySessions } from '@tests/fixtures/sessions'
+import { testSigningKey } from '@tests/fixtures/signing-key'
+
+const memoryRedis = createMemoryRedis()
+const memorySessions = createMemorySessions()
+
+Object.assign(prisma.session, memorySessions.delegate)
+
+vi.mock('@/config/redis', () => ({
+  getRedis: () => memoryRedis.client,
+  closeRedisConnection: vi.fn()
+}))
+
+vi.mock('@/services/signing-key.service', () => ({
+  signingKeyService: {
+    getSigningKey: vi.fn(async () => testSigningKey),
+    getVerificationKey: vi.fn(async (kid: string) => kid === testSigningKey.kid ? testSigningKey : null)
+  }
+}))
+
+// Any password is accepted
+vi.mock('@/utils/auth', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/utils/auth')>()),
+  hashPassword: vi.fn().mockResolvedValue('hashed-password'),
+  comparePassword: vi.fn().mockResolvedValue(true)
+}))
+
+const CHROME_WINDOWS = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Safari/537.36'
+const SAFARI_IPHONE = 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_5 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.5 Mobile/15E148 Safari/604.1'
+
+const makeUser = (id: string) => ({
+  id,
+  email: `${id}@example.com`,
+  name: `User ${id}`,
+  password: 'hashed-password',
+  tokenVersion: 0,
+  createdAt: new Date(),
+  updatedAt: new Date()
+})
+
+const app = new Hono()
+app.onError(errorHandler)
+app.use('*', contextStorage())
+app.use('*', ipSecurity)
+app.route('/auth', auth)
+
+const login = async (userId: string, headers: Record<string, string>, deviceName?: string) => {
+  const response = await app.request('/auth/login', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify({ email: `${userId}@example.com`, password: 'secret', deviceName })
+  })
+  const body = await response.json()
+  return body.data.tokens.accessToken as string
+}
+
+const call = (method: string, path: string, accessToken: string, body?: object) =>
+  app.request(path, {
+    method,
+    headers: { Authorization: `Bearer ${accessToken}`, 'Content-Type': 'application/json' },
+    body: body ? JSON.stringify(body) : undefined
+  })
+
+const listSessions = async (accessToken: string) => {
+  const response = await call('GET', '/auth/sessions', accessToken)
+  return (await response.json()).data.sessions as Array<Record<string, unknown>>
+}
+
+describe('Session Management Integration Tests', () => {
+  let laptopToken: string
+  let phoneToken: string
+
+  beforeEach(async () => {
+    memoryRedis.reset()
+    memorySessions.reset()
+    vi.mocked(prisma.user.findUnique).mockImplementation((async (args: { where: { id?: string; email?: string } }) =>
+      makeUser(args.where.id ?? args.where.email!.replace('@example.com', ''))) as never)
+    vi.mocked(prisma.userRole.findMany).mockResolvedValue([])
+
+    laptopToken = await login('alice', {
+      'User-Agent': CHROME_WINDOWS,
+      'X-Forwarded-For': '203.0.113.7',
+      'CF-IPCountry': 'DE',
+      'CF-IPCity': 'Berlin'
+    }, 'Work laptop')
+    phoneToken = await login('alice', { 'User-Agent': SAFARI_IPHONE, 'X-Forwarded-For': '198.51.100.4' })
+  })
+
+  describe('GET /auth/sessions', () => {
+    it('should describe each device and flag the current session', async () => {
+      const sessions = await listSessions(laptopToken)
+
+      expect(sessions).toHaveLength(2)
+      expect(sessions.find(session => session.isCurrent)).toMatchObject({
+        deviceName: 'Work laptop',
+        userAgent: CHROME_WINDOWS,
+        browser: 'Chrome 126',
+        os: 'Windows 10',
+        deviceType: 'desktop',
+        ip: '203.0.113.7',
+        location: 'Berlin, DE'
+      })
+      expect(sessions.find(session => !session.isCurrent)).toMatchObject({
+        deviceName: null,
+        browser: 'Safari 17',
+        os: 'iOS 17',
+        deviceType: 'mobile',
+        ip: '198.51.100.4',
+        location: null
+      })
+    })
+
+    it('should still list every device after Redis was flushed', async () => {
+      memoryRedis.reset()
+
+      const sessions = await listSessions(phoneToken)
+
+      expect(sessions).toHaveLength(2)
+      expect(sessions.find(session => !session.isCurrent)).toMatchObject({ deviceName: 'Work laptop', location: 'Berlin, DE' })
+    })
+  })
+
+  describe('PATCH /auth/sessions/:sessionId', () => {
+    it('should rename one of the user\'s sessions', async () => {
+      const phone = (await listSessions(laptopToken)).find(session => !session.isCurrent)!
+
+      const response = await call('PATCH', `/auth/sessions/${phone.sessionId}`, laptopToken, { deviceName: 'My iPhone' })
+
+      expect(response.status).toBe(200)
+      expect((await listSessions(phoneToken)).find(session => session.isCurrent)).toMatchObject({ deviceName: 'My iPhone' })
+    })
+
+    it('should not rename another user\'s session', async () => {
+      const bobToken = await login('bob', {})
+      const [bobSession] = await listSessions(bobToken)
+
+      const response = await call('PATCH', `/auth/sessions/${bobSession.sessionId}`, laptopToken, { deviceName: 'Mine now' })
+
+      expect(response.status).toBe(404)
+    })
+
+    it('should reject an empty name', async () => {
+      const [session] = await listSessions(laptopToken)
+
+      const response = await call('PATCH', `/auth/sessions/${session.sessionId}`, laptopToken, { deviceName: ' ' })
+
+      expect(response.status).toBe(400)
+    })
+  })
+
+  describe('DELETE /auth/sessions/:sessionId', () => {
+    it('should not revoke another user\'s session', async () => {
+      const bobToken = await login('bob', {})
+      const [bobSession] = await listSessions(bobToken)
+
+      const response = await call('DELETE', `/auth/sessions/${bobSession.sessionId}`, laptopToken)
+
+      expect(response.status).toBe(404)
+      expect(await listSessions(bobToken)).toHaveLength(1)
+    })
+  })
+
+  describe('POST /auth/logout-others', () => {
+    it('should revoke every session except the current one', async () => {
+      const response = await call('POST', '/auth/logout-others', laptopToken)
+
+      expect(response.status).toBe(200)
+      expect((await response.json()).data.revokedCount).toBe(1)
+      expect((await call('GET', '/auth/sessions', phoneToken)).status).toBe(401)
+      expect(await listSessions(laptopToken)).toEqual([expect.objectContaining({ isCurrent: true })])
+    })
+  })
+
+  describe('POST /auth/password/change', () => {
+    it('should change the password and revoke every other session', async () => {
+      const response = await call('POST', '/auth/password/change', laptopToken, {
+        currentPassword: 'secret',
+        newPassword: 'Tr0ub4dor&3'
+      })
+
+      expect(response.status).toBe(200)
+      expect((await response.json()).data.revokedCount).toBe(1)
+      expect(hashPassword).toHaveBeenCalledWith('Tr0ub4dor&3')
+      expect(prisma.user.update).toHaveBeenCalledWith(expect.objectContaining({ where: { id: 'alice' } }))
+      expect((await call('GET', '/auth/sessions', phoneToken)).status).toBe(401)
+      expect(await listSessions(laptopToken)).toHaveLength(1)
+    })
+
+    it('should reject a wrong current password', async () => {
+      vi.mocked(comparePassword).mockResolvedValueOnce(false)
+
+      const response = await call('POST', '/auth/password/change', laptopToken, {
+        currentPassword: 'wrong',
+        newPassword: 'Tr0ub4dor&3'
+      })
+
+      expect(response.status).toBe(400)
+      expect((await response.json()).error.message).toBe('Current password is incorrect')
+      expect(prisma.user.update).not.toHaveBeenCalled()
+      expect(await listSessions(phoneToken)).toHaveLength(2)
+    })
+
+    it('should reject a new password that breaks the password policy', async () => {
+      const common = await call('POST', '/auth/password/change', laptopToken, {
+        currentPassword: 'secret',
+        newPassword: 'Password123!'
+      })
+      const personal = await call('POST', '/auth/password/change', laptopToken, {
+        currentPassword: 'secret',
+        newPassword: 'Alice-2024-pw'
+      })
+
+      expect(common.status).toBe(400)
+      expect(personal.status).toBe(400)
+      expect((await personal.json()).error.message).toBe('Password must not contain your name or email address')
+      expect(prisma.user.update).not.toHaveBeenCalled()
+    })
+  })
+})
\ No newline at end of file
@@ -0,0 +1,220 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { Hono } from 'hono'
+import { users } from '@/routes/users'
+import { errorHandler } from '@/middleware/error-handler'
+import { prisma } from '@/config/database'
+import { tokenService } from '@/services/token.service'
+
+// Each bearer token maps directly to the user it authenticates
+vi.mock('@/services/token.service', () => ({
+  tokenService: {
+    verifyToken: vi.fn(async (token: string) => {
+      const userId = token.replace('-token', '')
+      return { userId, email: `${userId}@example.com`, sessionId: `session-${userId}`, tokenType: 'access' }
+    }),
+    revokeAllUserTokens: vi.fn()
+  }
+}))
+
+vi.mock('@/utils/auth', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/utils/auth')>()),
+  hashPassword: vi.fn().mockResolvedValue('hashed-password'),
+  comparePassword: vi.fn(async (password: string) => password === 'Current-passw0rd')
+}))
+
+const ADMIN_ID = '11111111-1111-4111-8111-111111111111'
+const MEMBER_ID = '22222222-2222-4222-8222-222222222222'
+const OTHER_ID = '33333333-3333-4333-8333-333333333333'
+const NOBODY_ID = '44444444-4444-4444-8444-444444444444'
+
+const permission = (resource: string, action: string) => ({
+  permission: { id: `${resource}-${action}`, name: `${resource}:${action}`, resource, action, description: null }
+})
+
+// Role grants per user, shaped like `userRole.findMany` results
+const grants: Record<string, Array<ReturnType<typeof permission>>> = {
+  [ADMIN_ID]: [permission('users', 'read'), permission('users', 'manage')],
+  [MEMBER_ID]: [permission('users', 'read_own'), permission('users', 'update_own')],
+  [OTHER_ID]: [permission('users', 'read_own'), permission('users', 'update_own')],
+  [NOBODY_ID]: []
+}
+
+const makeUser = (id: string) => ({
+  id,
+  email: `${id}@example.com`,
+  name: `User ${id.slice(0, 4)}`,
+  password: 'hashed-password',
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  posts: [],
+  _count: { posts: 0 }
+})
+
+const app = new Hono()
+app.onError(errorHandler)
+app.route('/users', users)
+
+const call = (method: string, path: string, userId?: string, body?: unknown) =>
+  app.request(path, {
+    method,
+    headers: {
+      ...(userId ? { Authorization: `Bearer ${userId}-token` } : {}),
+      ...(body ? { 'Content-Type': 'application/json' } : {})
+    },
+    body: body ? JSON.stringify(body) : undefined
+  })
+
+describe('Users API Integration Tests', () => {
+  beforeEach(() => {
+    vi.mocked(prisma.user.findUnique).mockImplementation((async (args: { where: { id?: string } }) => {
+      const id = args.where.id
+      return id && id in grants ? makeUser(id) : null
+    }) as never)
+    vi.mocked(prisma.user.findMany).mockResolvedValue([makeUser(ADMIN_ID), makeUser(MEMBER_ID)] as never)
+    vi.mocked(prisma.user.count).mockResolvedValue(2)
+    vi.mocked(prisma.user.create).mockImplementation((async () => makeUser(OTHER_ID)) as never)
+    vi.mocked(prisma.user.update).mockImplementation((async (args: { where: { id: string } }) => makeUser(args.where.id)) as never)
+    vi.mocked(prisma.user.delete).mockResolvedValue(makeUser(OTHER_ID) as never)
+    vi.mocked(prisma.userRole.findMany).mockImplementation((async (args: { where: { userId: string } }) => [{
+      role: { id: 'role', name: 'role', description: null, permissions: grants[args.where.userId] ?? [] }
+    }]) as never)
+  })
+
+  describe('authentication', () => {
+    it('should return 401 without a token', async () => {
+      const response = await call('GET', '/users')
+
+      expect(response.status).toBe(401)
+    })
+  })
+
+  describe('GET /users', () => {
+    it('should allow users:read', async () => {
+      const response = await call('GET', '/users', ADMIN_ID)
+
+      expect(response.status).toBe(200)
+      const body = await response.json()
+      expect(body.data.items).toHaveLength(2)
+    })
+
+    it('should deny callers with only read_own', async () => {
+      const response = await call('GET', '/users', MEMBER_ID)
+
+      expect(response.status).toBe(403)
+    })
+  })
+
+  describe('GET /users/:id', () => {
+    it('should allow users:read on any profile', async () => {
+      const response = await call('GET', `/users/${MEMBER_ID}`, ADMIN_ID)
+
+      expect(response.status).toBe(200)
+    })
+
+    it('should allow users:read_own on the caller profile', async () => {
+      const response = await call('GET', `/users/${MEMBER_ID}`, MEMBER_ID)
+
+      expect(response.status).toBe(200)
+      const body = await response.json()
+      expect(body.data.id).toBe(MEMBER_ID)
+    })
+
+    it('should deny users:read_own on another profile', async () => {
+      const response = await call('GET', `/users/${OTHER_ID}`, MEMBER_ID)
+
+      expect(response.status).toBe(403)
+    })
+
+    it('should deny callers without any users permission', async () => {
+      const response = await call('GET', `/users/${NOBODY_ID}`, NOBODY_ID)
+
+      expect(response.status).toBe(403)
+    })
+  })
+
+  describe('POST /users', () => {
+    const newUser = { email: 'new@example.com', name: 'New User', password: 'Tr0ub4dor&3' }
+
+    it('should allow users:manage', async () => {
+      const response = await call('POST', '/users', ADMIN_ID, newUser)
+
+      expect(response.status).toBe(201)
+    })
+
+    it('should deny callers without users:manage', async () => {
+      const response = await call('POST', '/users', MEMBER_ID, newUser)
+
+      expect(response.status).toBe(403)
+      expect(prisma.user.create).not.toHaveBeenCalled()
+    })
+
+    it('should reject passwords that break the password policy', async () => {
+      const common = await call('POST', '/users', ADMIN_ID, { ...newUser, password: 'Password123!' })
+      const personal = await call('POST', '/users', ADMIN_ID, { ...newUser, password: 'New-user-2024!' })
+
+      expect(common.status).toBe(400)
+      expect(personal.status).toBe(400)
+      expect(prisma.user.create).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('PUT /users/:id', () => {
+    it('should allow users:manage on any profile', async () => {
+      const response = await call('PUT', `/users/${MEMBER_ID}`, ADMIN_ID, { name: 'Renamed' })
+
+      expect(response.status).toBe(200)
+    })
+
+    it('should allow users:update_own on the caller profile', async () => {
+      const response = await call('PUT', `/users/${MEMBER_ID}`, MEMBER_ID, { name: 'Renamed' })
+
+      expect(response.status).toBe(200)
+      expect(tokenService.revokeAllUserTokens).not.toHaveBeenCalled()
+    })
+
+    it('should invalidate every token of the user when their password changes', async () => {
+      const response = await call('PUT', `/users/${MEMBER_ID}`, MEMBER_ID, {
+        password: 'Tr0ub4dor&3',
+        currentPassword: 'Current-passw0rd'
+      })
+
+      expect(response.status).toBe(200)
+      expect(tokenService.revokeAllUserTokens).toHaveBeenCalledWith(MEMBER_ID)
+    })
+
+    it('should require the current password to change the password', async () => {
+      const missing = await call('PUT', `/users/${MEMBER_ID}`, ADMIN_ID, { password: 'Tr0ub4dor&3' })
+      const wrong = await call('PUT', `/users/${MEMBER_ID}`, ADMIN_ID, {
+        password: 'Tr0ub4dor&3',
+        currentPassword: 'Wrong-passw0rd'
+      })
+
+      expect(missing.status).toBe(400)
+      expect(wrong.status).toBe(400)
+      expect((await wrong.json()).error.message).toBe('Current password is incorrect')
+      expect(prisma.user.update).not.toHaveBeenCalled()
+    })
+
+    it('should deny users:update_own on another profile', async () => {
+      const response = await call('PUT', `/users/${OTHER_ID}`, MEMBER_ID, { name: 'Renamed' })
+
+      expect(response.status).toBe(403)
+      expect(prisma.user.update).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('DELETE /users/:id', () => {
+    it('should allow users:manage', async () => {
+      const response = await call('DELETE', `/users/${OTHER_ID}`, ADMIN_ID)
+
+      expect(response.status).toBe(200)
+    })
+
+    it('should deny callers deleting their own account without users:manage', async () => {
+      const response = await call('DELETE', `/users/${MEMBER_ID}`, MEMBER_ID)
+
+      expect(response.status).toBe(403)
+      expect(prisma.user.delete).not.toHaveBeenCalled()
+    })
+  })
+})
\ No newline at end of file
@@ -17,11 +17,16 @@ vi.mock('@/config/redis', () => ({
 }))
 
 vi.mock('@prisma/client', () => ({
+  Prisma: {
+    DbNull: 'DbNull',
+    JsonNull: 'JsonNull'
+  },
   PrismaClient: vi.fn(() => ({
     $connect: vi.fn(),
     $disconnect: vi.fn(),
     user: {
       findUnique: vi.fn(),
+      findFirst: vi.fn(),
       findMany: vi.fn(),
       create: vi.fn(),
       update: vi.fn(),
@@ -29,6 +34,14 @@ vi.mock('@prisma/client', () => ({
       deleteMany: vi.fn(),
       count: vi.fn()
     },
+    post: {
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      delete: vi.fn(),
+      count: vi.fn()
+    },
     role: {
       findUnique: vi.fn(),
       findMany: vi.fn(),
@@ -46,18 +59,74 @@ vi.mock('@prisma/client', () => ({
       deleteMany: vi.fn()
     },
     session: {
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      create: vi.fn(),
+      updateMany: vi.fn(),
       deleteMany: vi.fn()
     },
+    passwordResetToken: {
+      findUnique: vi.fn(),
+      create: vi.fn(),
+      updateMany: vi.fn(),
+      deleteMany: vi.fn()
+    },
+    recoveryCode: {
+      createMany: vi.fn(),
+      updateMany: vi.fn(),
+      deleteMany: vi.fn()
+    },
+    externalIdentity: {
+      findUnique: vi.fn(),
+      create: vi.fn()
+    },
+    apiKey: {
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      deleteMany: vi.fn(async () => ({ count: 0 }))
+    },
     userRole: {
+      findUnique: vi.fn(),
       findMany: vi.fn(),
       create: vi.fn(),
+      update: vi.fn(),
+      delete: vi.fn(),
       deleteMany: vi.fn()
     },
     rolePermission: {
+      findUnique: vi.fn(),
       findMany: vi.fn(),
       create: vi.fn(),
+      delete: vi.fn(),
       deleteMany: vi.fn()
-    }
+    },
+    auditLog: {
+      create: vi.fn(),
+      findMany: vi.fn(),
+      count: vi.fn()
+    },
+    signingKey: {
+      findMany: vi.fn(async () => []),
+      create: vi.fn(),
+      updateMany: vi.fn(),
+      deleteMany: vi.fn(async () => ({ count: 0 }))
+    },
+    roleInheritance: {
+      findMany: vi.fn(async () => []),
+      create: vi.fn(),
+      createMany: vi.fn(),
+      delete: vi.fn(),
+      deleteMany: vi.fn()
+    },
+    // Interactive transactions run against the same mocked client
+    $transaction: vi.fn(async function (this: unknown, operations: unknown) {
+      if (typeof operations === 'function') {
+        return operations(this)
+      }
+      return Array.isArray(operations) ? Promise.all(operations) : undefined
+    })
   }))
 }))
 
@@ -88,6 +157,7 @@ export const createTestUser = async (overrides = {}) => {
     email: 'test@example.com',
     name: 'Test User',
     password: '$2b$12$LQv3c1yqBWVHxkd0LHAkCOYz6TtxMQJqhN8/LewbHyJ6ZYGxBqQqi', // "password" hashed
+    tokenVersion: 0,
     createdAt: new Date(),
     updatedAt: new Date(),
     ...overrides
@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { Hono } from 'hono'
+import { createMiddleware } from 'hono/factory'
+
+const { checkUserPermission } = vi.hoisted(() => ({
+  checkUserPermission: vi.fn()
+}))
+
+// Mock RBAC service
+vi.mock('@/services/rbac.service', () => ({
+  RBACService: vi.fn(() => ({
+    checkUserPermission,
+    getUserRoles: vi.fn(),
+    getUserPermissions: vi.fn()
+  }))
+}))
+
+import { requireOwnershipOrPermission, requirePermission, loadResourceAttributes } from '@/middleware/rbac'
+import { errorHandler } from '@/middleware/error-handler'
+
+const grant = (...granted: string[]) => {
+  checkUserPermission.mockImplementation(async (_userId: string, { resource, action }: { resource: string; action: string }) => ({
+    hasPermission: granted.includes(`${resource}:${action}`)
+  }))
+}
+
+const buildApp = (ownerId: string | null) => {
+  const app = new Hono()
+  app.onError(errorHandler)
+  app.use('*', createMiddleware(async (c, next) => {
+    c.set('user', {
+      id: 'user-1',
+      email: 'user@example.com',
+      name: 'User',
+      createdAt: new Date(),
+      updatedAt: new Date()
+    })
+    await next()
+  }))
+  app.put(
+    '/posts/:id',
+    requireOwnershipOrPermission('posts', 'update', async () => ownerId),
+    (c) => c.json({ scope: c.get('permissionScope') })
+  )
+  return app
+}
+
+describe('RBAC Middleware', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  describe('requireOwnershipOrPermission', () => {
+    it('should allow callers holding the unrestricted action on any resource', async () => {
+      grant('posts:update')
+
+      const response = await buildApp('someone-else').request('/posts/1', { method: 'PUT' })
+
+      expect(response.status).toBe(200)
+      expect(await response.json()).toEqual({ scope: 'any' })
+    })
+
+    it('should allow owners holding the _own action', async () => {
+      grant('posts:update_own')
+
+      const response = await buildApp('user-1').request('/posts/1', { method: 'PUT' })
+
+      expect(response.status).toBe(200)
+      expect(await response.json()).toEqual({ scope: 'own' })
+    })
+
+    it('should deny non-owners holding only the _own action', async () => {
+      grant('posts:update_own')
+
+      const response = await buildApp('someone-else').request('/posts/1', { method: 'PUT' })
+
+      expect(response.status).toBe(403)
+    })
+
+    it('should deny owners without any matching permission', async () => {
+      grant('posts:read')
+
+      const response = await buildApp('user-1').request('/posts/1', { method: 'PUT' })
+
+      expect(response.status).toBe(403)
+    })
+
+    it('should return 404 when the resource does not exist', async () => {
+      grant('posts:update_own')
+
+      const response = await buildApp(null).request('/posts/1', { method: 'PUT' })
+
+      expect(response.status).toBe(404)
+    })
+
+    it('should not resolve the owner when the unrestricted action is held', async () => {
+      grant('posts:update')
+      const resolver = vi.fn()
+
+      const app = new Hono()
+      app.use('*', createMiddleware(async (c, next) => {
+        c.set('user', { id: 'user-1', email: 'u@example.com', name: 'U', createdAt: new Date(), updatedAt: new Date() })
+        await next()
+      }))
+      app.put('/posts/:id', requireOwnershipOrPermission('posts', 'update', resolver), (c) => c.text('OK'))
+
+      const response = await app.request('/posts/1', { method: 'PUT' })
+
+      expect(response.status).toBe(200)
+      expect(resolver).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('loadResourceAttributes', () => {
+    const buildConditionalApp = (attributes: Record<string, unknown> | null) => {
+      const app = new Hono()
+      app.onError(errorHandler)
+      app.use('*', createMiddleware(async (c, next) => {
+        c.set('user', { id: 'user-1', email: 'u@example.com', name: 'U', createdAt: new Date(), updatedAt: new Date() })
+        await next()
+      }))
+      app.put(
+        '/posts/:id',
+        loadResourceAttributes(async () => attributes),
+        requirePermission('posts', 'update'),
+        (c) => c.text('OK')
+      )
+      return app
+    }
+
+    it('should pass loaded attributes and the caller to the permission check', async () => {
+      checkUserPermission.mockResolvedValue({ hasPermission: true })
+
+      const response = await buildConditionalApp({ published: false }).request('/posts/1', { method: 'PUT' })
+
+      expect(response.status).toBe(200)
+      expect(checkUserPermission).toHaveBeenCalledWith(
+        'user-1',
+        { resource: 'posts', action: 'update', resourceAttributes: { published: false } },
+        expect.objectContaining({ id: 'user-1', email: 'u@example.com' })
+      )
+    })
+
+    it('should return 404 before checking permissions when the resource does not exist', async () => {
+      const response = await buildConditionalApp(null).request('/posts/1', { method: 'PUT' })
+
+      expect(response.status).toBe(404)
+      expect(checkUserPermission).not.toHaveBeenCalled()
+    })
+  })
+})
\ No newline at end of file
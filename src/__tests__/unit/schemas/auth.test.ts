@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest'
+import { createApiKeySchema } from '@/schemas/auth'
+
+const scopesValid = (...scopes: string[]) => createApiKeySchema.safeParse({ name: 'CI', scopes }).success
+
+describe('Auth schemas', () => {
+  describe('createApiKeySchema', () => {
+    it('should accept resource:action scopes', () => {
+      expect(scopesValid('posts:read', 'users:update_own', '*:*')).toBe(true)
+    })
+
+    it('should accept scopes on resources that contain colons', () => {
+      expect(scopesValid('sse:channel:news:send', 'sse:channel:*:*')).toBe(true)
+    })
+
+    it('should reject scopes without an action', () => {
+      expect(scopesValid('posts')).toBe(false)
+      expect(scopesValid('posts:')).toBe(false)
+      expect(scopesValid(':read')).toBe(false)
+      expect(scopesValid('sse:channel:news:')).toBe(false)
+    })
+
+    it('should reject characters outside names and wildcards', () => {
+      expect(scopesValid('posts:read write')).toBe(false)
+      expect(scopesValid('posts/1:read')).toBe(false)
+    })
+  })
+})
\ No newline at end of file
@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { Hono } from 'hono'
+import { contextStorage } from 'hono/context-storage'
+import { createMiddleware } from 'hono/factory'
+import { AuditService, diffSnapshots } from '@/services/audit.service'
+import { prisma } from '@/config/database'
+
+describe('AuditService', () => {
+  let auditService: AuditService
+
+  beforeEach(() => {
+    auditService = new AuditService()
+    vi.clearAllMocks()
+  })
+
+  describe('diffSnapshots', () => {
+    it('should report every field of a creation', () => {
+      expect(diffSnapshots(null, { name: 'editor', description: null })).toEqual({
+        name: { before: null, after: 'editor' }
+      })
+    })
+
+    it('should report only changed fields of an update', () => {
+      const changes = diffSnapshots(
+        { email: 'old@example.com', name: 'Same' },
+        { email: 'new@example.com', name: 'Same' }
+      )
+
+      expect(changes).toEqual({ email: { before: 'old@example.com', after: 'new@example.com' } })
+    })
+
+    it('should redact secrets', () => {
+      expect(diffSnapshots({ password: 'hash-1' }, { password: 'hash-2' })).toEqual({
+        password: { before: '[REDACTED]', after: '[REDACTED]' }
+      })
+    })
+
+    it('should return null when nothing changed', () => {
+      expect(diffSnapshots({ parentIds: ['a'] }, { parentIds: ['a'] })).toBeNull()
+    })
+  })
+
+  describe('record', () => {
+    it('should take actor, IP and request id from the current request', async () => {
+      const app = new Hono()
+      app.use('*', contextStorage())
+      app.use('*', createMiddleware(async (c, next) => {
+        c.set('user', { id: 'admin-1', email: 'admin@example.com', name: 'Admin', createdAt: new Date(), updatedAt: new Date() })
+        c.set('clientIP', '203.0.113.7')
+        c.set('requestId', 'request-1')
+        await next()
+      }))
+      app.post('/roles', async (c) => {
+        await auditService.record({ action: 'rbac.role.create', targetType: 'role', targetId: 'role-1', after: { name: 'editor' } })
+        return c.text('OK')
+      })
+
+      await app.request('/roles', { method: 'POST' })
+
+      expect(prisma.auditLog.create).toHaveBeenCalledWith({
+        data: {
+          actorId: 'admin-1',
+          action: 'rbac.role.create',
+          targetType: 'role',
+          targetId: 'role-1',
+          changes: { name: { before: null, after: 'editor' } },
+          metadata: undefined,
+          ip: '203.0.113.7',
+          requestId: 'request-1'
+        }
+      })
+    })
+
+    it('should record system actions outside of a request', async () => {
+      await auditService.record({ action: 'rbac.user_role.expire', targetType: 'user', targetId: 'user-1', actorId: null })
+
+      expect(prisma.auditLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ actorId: null, ip: null, requestId: null })
+      })
+    })
+
+    it('should not throw when the write fails', async () => {
+      vi.mocked(prisma.auditLog.create).mockRejectedValueOnce(new Error('database down'))
+
+      await expect(auditService.record({ action: 'user.delete', targetType: 'user' })).resolves.toBeUndefined()
+    })
+  })
+
+  describe('getAuditLogs', () => {
+    it('should filter by actor, target, action and time range', async () => {
+      vi.mocked(prisma.auditLog.findMany).mockResolvedValue([])
+      vi.mocked(prisma.auditLog.count).mockResolvedValue(0)
+      const from = new Date('2026-01-01T00:00:00Z')
+
+      const result = await auditService.getAuditLogs({
+        page: 2,
+        limit: 20,
+        order: 'desc',
+        actorId: '11111111-1111-4111-8111-111111111111',
+        targetType: 'role',
+        action: 'rbac.role.delete',
+        from
+      })
+
+      expect(prisma.auditLog.findMany).toHaveBeenCalledWith({
+        where: {
+          actorId: '11111111-1111-4111-8111-111111111111',
+          action: 'rbac.role.delete',
+          targetType: 'role',
+          createdAt: { gte: from }
+        },
+        skip: 20,
+        take: 20,
+        orderBy: { createdAt: 'desc' }
+      })
+      expect(result.pagination).toMatchObject({ page: 2, total: 0 })
+    })
+  })
+})
\ No newline at end of file
@@ -1,6 +1,15 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest'
 import { AuthService } from '@/services/auth.service'
 import { createTestUser, testPrisma } from '@tests/setup'
+import { createMemoryRedis } from '@tests/fixtures/redis'
+
+const memoryRedis = createMemoryRedis()
+
+// Login throttling keeps its counters in Redis
+vi.mock('@/config/redis', () => ({
+  getRedis: () => memoryRedis.client,
+  closeRedisConnection: vi.fn()
+}))
 
 // Mock token service
 vi.mock('@/services/token.service', () => ({
@@ -38,7 +47,9 @@ vi.mock('@/services/metrics.service', () => ({
 // Mock env
 vi.mock('@/config/env', () => ({
   env: {
-    ENABLE_MONITORING: false
+    ENABLE_MONITORING: false,
+    LOG_LEVEL: 'silent',
+    NODE_ENV: 'test'
   }
 }))
 
@@ -47,6 +58,7 @@ describe('AuthService', () => {
 
   beforeEach(() => {
     authService = new AuthService()
+    memoryRedis.reset()
     vi.clearAllMocks()
   })
 
@@ -211,10 +223,10 @@ describe('AuthService', () => {
       
       vi.mocked(tokenService.getUserSessions).mockResolvedValue(mockSessions)
 
-      const result = await authService.getUserSessions('user-123')
+      const result = await authService.getUserSessions('user-123', 'session-1')
 
       expect(result).toEqual(mockSessions)
-      expect(tokenService.getUserSessions).toHaveBeenCalledWith('user-123')
+      expect(tokenService.getUserSessions).toHaveBeenCalledWith('user-123', 'session-1')
     })
   })
 })
\ No newline at end of file
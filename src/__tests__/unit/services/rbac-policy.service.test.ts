@@ -0,0 +1,216 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { RBACPolicyService } from '@/services/rbac-policy.service'
+import { permissionCache } from '@/services/permission-cache.service'
+import { rbacPolicySchema } from '@/schemas/rbac'
+import { prisma } from '@/config/database'
+
+// Mock permission cache
+vi.mock('@/services/permission-cache.service', () => ({
+  permissionCache: {
+    get: vi.fn(),
+    set: vi.fn(),
+    invalidateUsers: vi.fn(),
+    invalidateRoleList: vi.fn()
+  }
+}))
+
+const postsRead = { id: 'perm-1', name: 'Read Posts', resource: 'posts', action: 'read', description: 'View posts', condition: null }
+const postsUpdate = {
+  id: 'perm-2',
+  name: 'Update Unpublished Posts',
+  resource: 'posts',
+  action: 'update',
+  description: null,
+  condition: { attr: 'resource.published', op: 'eq', value: false }
+}
+
+const userRole = {
+  id: 'role-1',
+  name: 'user',
+  description: 'Regular user',
+  requireMfa: false,
+  permissions: [{ permission: postsRead }],
+  parents: []
+}
+const moderatorRole = {
+  id: 'role-2',
+  name: 'moderator',
+  description: null,
+  requireMfa: false,
+  permissions: [{ permission: postsUpdate }],
+  parents: [{ parent: userRole }]
+}
+
+const currentPolicy = {
+  version: 1 as const,
+  permissions: [
+    { name: 'Read Posts', resource: 'posts', action: 'read', description: 'View posts' },
+    {
+      name: 'Update Unpublished Posts',
+      resource: 'posts',
+      action: 'update',
+      condition: { attr: 'resource.published', op: 'eq' as const, value: false }
+    }
+  ],
+  roles: [
+    { name: 'moderator', parents: ['user'], permissions: ['Update Unpublished Posts'] },
+    { name: 'user', description: 'Regular user', parents: [], permissions: ['Read Posts'] }
+  ]
+}
+
+describe('RBACPolicyService', () => {
+  let policyService: RBACPolicyService
+
+  beforeEach(() => {
+    policyService = new RBACPolicyService()
+    vi.clearAllMocks()
+    vi.mocked(prisma.role.findMany).mockResolvedValue([moderatorRole, userRole] as never)
+    vi.mocked(prisma.permission.findMany).mockResolvedValue([postsUpdate, postsRead] as never)
+  })
+
+  describe('exportPolicy', () => {
+    it('should export a sorted document without empty fields', async () => {
+      const policy = await policyService.exportPolicy()
+
+      expect(policy).toEqual({
+        ...currentPolicy,
+        roles: [
+          { name: 'moderator', parents: ['user'], permissions: ['Update Unpublished Posts'] },
+          { name: 'user', description: 'Regular user', parents: [], permissions: ['Read Posts'] }
+        ]
+      })
+    })
+
+    it('should round-trip through YAML', async () => {
+      const policy = await policyService.exportPolicy()
+
+      const yaml = policyService.serialize(policy, 'yaml')
+
+      expect(yaml).toContain('name: Update Unpublished Posts')
+      expect(policyService.parse(yaml)).toEqual(policy)
+    })
+  })
+
+  describe('planPolicy', () => {
+    it('should report no changes when the database matches the policy', async () => {
+      expect(await policyService.planPolicy(currentPolicy)).toEqual([])
+    })
+
+    it('should diff entities and mappings', async () => {
+      const changes = await policyService.planPolicy({
+        version: 1,
+        permissions: [
+          { name: 'Read Posts', resource: 'posts', action: 'read', description: 'Read any post' },
+          { name: 'Update Unpublished Posts', resource: 'posts', action: 'update', condition: currentPolicy.permissions[1].condition },
+          { name: 'Delete Posts', resource: 'posts', action: 'delete' }
+        ],
+        roles: [
+          { name: 'moderator', parents: [], permissions: ['Update Unpublished Posts', 'Delete Posts'] },
+          { name: 'user', description: 'Regular user', parents: [], permissions: ['Read Posts'] },
+          { name: 'editor', parents: ['user'], permissions: [] }
+        ]
+      })
+
+      expect(changes).toEqual([
+        { op: 'update', type: 'permission', name: 'Read Posts', fields: { description: { from: 'View posts', to: 'Read any post' } } },
+        { op: 'create', type: 'permission', name: 'Delete Posts' },
+        { op: 'create', type: 'role', name: 'editor' },
+        { op: 'create', type: 'role-permission', role: 'moderator', permission: 'Delete Posts' },
+        { op: 'delete', type: 'role-parent', role: 'moderator', parent: 'user' },
+        { op: 'create', type: 'role-parent', role: 'editor', parent: 'user' }
+      ])
+    })
+
+    it('should diff whether a role requires MFA', async () => {
+      const changes = await policyService.planPolicy({
+        ...currentPolicy,
+        roles: [{ ...currentPolicy.roles[0], requireMfa: true }, currentPolicy.roles[1]]
+      })
+
+      expect(changes).toEqual([
+        { op: 'update', type: 'role', name: 'moderator', fields: { requireMfa: { from: false, to: true } } }
+      ])
+    })
+
+    it('should only delete missing roles and permissions when pruning', async () => {
+      const policy = {
+        version: 1 as const,
+        permissions: [currentPolicy.permissions[0]],
+        roles: [currentPolicy.roles[1]]
+      }
+
+      expect(await policyService.planPolicy(policy)).toEqual([])
+      expect(await policyService.planPolicy(policy, true)).toEqual([
+        { op: 'delete', type: 'role', name: 'moderator' },
+        { op: 'delete', type: 'permission', name: 'Update Unpublished Posts' }
+      ])
+    })
+  })
+
+  describe('applyPolicy', () => {
+    it('should not write anything on a dry run', async () => {
+      const result = await policyService.applyPolicy({ ...currentPolicy, roles: [] }, { dryRun: true, prune: true })
+
+      expect(result.applied).toBe(false)
+      expect(result.changes).toHaveLength(2)
+      expect(prisma.$transaction).not.toHaveBeenCalled()
+    })
+
+    it('should apply changes in one transaction and invalidate affected users', async () => {
+      vi.mocked(prisma.permission.create).mockResolvedValue({ id: 'perm-3' } as never)
+      vi.mocked(prisma.userRole.findMany).mockResolvedValue([{ userId: 'user-1' }] as never)
+
+      const result = await policyService.applyPolicy({
+        ...currentPolicy,
+        permissions: [...currentPolicy.permissions, { name: 'Delete Posts', resource: 'posts', action: 'delete' }],
+        roles: [
+          { name: 'moderator', parents: ['user'], permissions: ['Update Unpublished Posts', 'Delete Posts'] },
+          currentPolicy.roles[1]
+        ]
+      })
+
+      expect(result.applied).toBe(true)
+      expect(prisma.$transaction).toHaveBeenCalledTimes(1)
+      expect(prisma.permission.create).toHaveBeenCalledWith({
+        data: { name: 'Delete Posts', resource: 'posts', action: 'delete', description: null, condition: expect.anything() }
+      })
+      expect(prisma.rolePermission.create).toHaveBeenCalledWith({ data: { roleId: 'role-2', permissionId: 'perm-3' } })
+      expect(permissionCache.invalidateUsers).toHaveBeenCalledWith(['user-1'])
+    })
+
+    it('should be a no-op when nothing changed', async () => {
+      const result = await policyService.applyPolicy(currentPolicy)
+
+      expect(result).toEqual({ dryRun: false, applied: false, changes: [] })
+      expect(prisma.$transaction).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('rbacPolicySchema', () => {
+    it('should reject unknown references', () => {
+      const result = rbacPolicySchema.safeParse({
+        version: 1,
+        roles: [{ name: 'user', parents: ['guest'], permissions: ['Read Everything'] }]
+      })
+
+      expect(result.success).toBe(false)
+      expect(result.error?.errors.map(issue => issue.message)).toEqual([
+        'Role user references unknown permission: Read Everything',
+        'Role user references unknown parent role: guest'
+      ])
+    })
+
+    it('should reject inheritance cycles', () => {
+      const result = rbacPolicySchema.safeParse({
+        version: 1,
+        roles: [
+          { name: 'a', parents: ['b'] },
+          { name: 'b', parents: ['a'] }
+        ]
+      })
+
+      expect(result.success).toBe(false)
+      expect(result.error?.errors[0].message).toBe('Role inheritance cycle detected: a -> b -> a')
+    })
+  })
+})
\ No newline at end of file
@@ -0,0 +1,491 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { RBACService } from '@/services/rbac.service'
+import { permissionCache } from '@/services/permission-cache.service'
+import { tokenService } from '@/services/token.service'
+import { prisma } from '@/config/database'
+
+// Mock permission cache
+vi.mock('@/services/permission-cache.service', () => ({
+  permissionCache: {
+    get: vi.fn(),
+    set: vi.fn(),
+    invalidateUsers: vi.fn(),
+    invalidateRoleList: vi.fn()
+  }
+}))
+
+vi.mock('@/services/token.service', () => ({
+  tokenService: {
+    revokeAllUserTokens: vi.fn()
+  }
+}))
+
+const postsRead = { id: 'perm-1', name: 'Read Posts', resource: 'posts', action: 'read', description: null }
+const postsCreate = { id: 'perm-2', name: 'Create Posts', resource: 'posts', action: 'create', description: null }
+
+const userRoleRows = [
+  {
+    role: {
+      id: 'role-1',
+      name: 'user',
+      description: null,
+      permissions: [{ permission: postsRead }, { permission: postsCreate }]
+    }
+  },
+  {
+    role: {
+      id: 'role-2',
+      name: 'reader',
+      description: null,
+      permissions: [{ permission: postsRead }]
+    }
+  }
+]
+
+describe('RBACService', () => {
+  let rbacService: RBACService
+
+  beforeEach(() => {
+    rbacService = new RBACService()
+    vi.clearAllMocks()
+  })
+
+  describe('permission cache', () => {
+    it('should resolve from the database and populate the cache on a miss', async () => {
+      vi.mocked(permissionCache.get).mockResolvedValue(null)
+      vi.mocked(prisma.userRole.findMany).mockResolvedValue(userRoleRows as never)
+
+      const permissions = await rbacService.getUserPermissions('user-1')
+
+      expect(permissions).toEqual([postsRead, postsCreate])
+      expect(prisma.userRole.findMany).toHaveBeenCalledTimes(1)
+      expect(permissionCache.set).toHaveBeenCalledWith('user-1', expect.objectContaining({
+        permissions: [postsRead, postsCreate]
+      }), undefined)
+    })
+
+    it('should not query the database on a hit', async () => {
+      vi.mocked(permissionCache.get).mockResolvedValue({
+        roles: [{ id: 'role-1', name: 'user', description: null, permissions: [postsRead] }],
+        inheritedRoles: [],
+        permissions: [postsRead]
+      })
+
+      const result = await rbacService.checkUserPermission('user-1', { resource: 'posts', action: 'read' })
+      const roles = await rbacService.getUserRoles('user-1')
+
+      expect(result.hasPermission).toBe(true)
+      expect(roles[0].name).toBe('user')
+      expect(prisma.userRole.findMany).not.toHaveBeenCalled()
+    })
+
+    it('should invalidate the user when a role is assigned', async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({ id: 'user-1' } as never)
+      vi.mocked(prisma.role.findUnique).mockResolvedValue({ id: 'role-1' } as never)
+      vi.mocked(prisma.userRole.findUnique).mockResolvedValue(null)
+      vi.mocked(prisma.userRole.create).mockResolvedValue({ userId: 'user-1', roleId: 'role-1' } as never)
+
+      await rbacService.assignRoleToUser('user-1', { roleId: 'role-1' })
+
+      expect(permissionCache.invalidateUsers).toHaveBeenCalledWith(['user-1'])
+    })
+
+    it('should invalidate the user and their tokens when a role is unassigned', async () => {
+      vi.mocked(prisma.userRole.findUnique).mockResolvedValue({ userId: 'user-1', roleId: 'role-1' } as never)
+
+      await rbacService.unassignRoleFromUser('user-1', { roleId: 'role-1' })
+
+      expect(permissionCache.invalidateUsers).toHaveBeenCalledWith(['user-1'])
+      expect(tokenService.revokeAllUserTokens).toHaveBeenCalledWith('user-1')
+    })
+
+    it('should invalidate every holder when a role gains a permission', async () => {
+      vi.mocked(prisma.role.findUnique).mockResolvedValue({ id: 'role-1' } as never)
+      vi.mocked(prisma.permission.findUnique).mockResolvedValue(postsRead as never)
+      vi.mocked(prisma.rolePermission.findUnique).mockResolvedValue(null)
+      vi.mocked(prisma.userRole.findMany).mockResolvedValue([{ userId: 'user-1' }, { userId: 'user-2' }] as never)
+
+      await rbacService.assignPermissionToRole('role-1', { permissionId: 'perm-1' })
+
+      expect(permissionCache.invalidateUsers).toHaveBeenCalledWith(['user-1', 'user-2'])
+    })
+
+    it('should invalidate holders collected before a role is deleted', async () => {
+      vi.mocked(prisma.role.findUnique).mockResolvedValue({ id: 'role-1' } as never)
+      vi.mocked(prisma.userRole.findMany).mockResolvedValue([{ userId: 'user-1' }] as never)
+
+      await rbacService.deleteRole('role-1')
+
+      expect(permissionCache.invalidateUsers).toHaveBeenCalledWith(['user-1'])
+      expect(permissionCache.invalidateRoleList).toHaveBeenCalled()
+      expect(vi.mocked(prisma.userRole.findMany).mock.invocationCallOrder[0])
+        .toBeLessThan(vi.mocked(prisma.role.delete).mock.invocationCallOrder[0])
+    })
+  })
+
+  describe('audit log', () => {
+    it('should record role grants with the assignment details', async () => {
+      const expiresAt = new Date(Date.now() + 3_600_000)
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({ id: 'user-1' } as never)
+      vi.mocked(prisma.role.findUnique).mockResolvedValue({ id: 'role-1' } as never)
+      vi.mocked(prisma.userRole.findUnique).mockResolvedValue(null)
+
+      await rbacService.assignRoleToUser('user-1', { roleId: 'role-1', expiresAt })
+
+      expect(prisma.auditLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          action: 'rbac.user_role.assign',
+          targetType: 'user',
+          targetId: 'user-1',
+          changes: {
+            roleId: { before: null, after: 'role-1' },
+            expiresAt: { before: null, after: expiresAt.toISOString() }
+          }
+        })
+      })
+    })
+
+    it('should record the before and after state of a role update', async () => {
+      vi.mocked(prisma.role.findUnique).mockResolvedValue({ id: 'role-1', name: 'editor', description: null } as never)
+      vi.mocked(prisma.role.update).mockResolvedValue({ id: 'role-1', name: 'editor', description: 'Edits content' } as never)
+      vi.mocked(prisma.userRole.findMany).mockResolvedValue([])
+
+      await rbacService.updateRole('role-1', { description: 'Edits content' })
+
+      expect(prisma.auditLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          action: 'rbac.role.update',
+          changes: { description: { before: null, after: 'Edits content' } }
+        })
+      })
+    })
+  })
+
+  describe('time-bound role assignments', () => {
+    it('should only load assignments that have not expired', async () => {
+      vi.mocked(permissionCache.get).mockResolvedValue(null)
+      vi.mocked(prisma.userRole.findMany).mockResolvedValue([])
+
+      await rbacService.getUserPermissions('user-1')
+
+      expect(prisma.userRole.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: {
+          userId: 'user-1',
+          OR: [
+            { expiresAt: null },
+            { expiresAt: { gt: expect.any(Date) } }
+          ]
+        }
+      }))
+    })
+
+    it('should not cache access beyond the earliest expiry', async () => {
+      const expiresAt = new Date(Date.now() + 60_000)
+      vi.mocked(permissionCache.get).mockResolvedValue(null)
+      vi.mocked(prisma.userRole.findMany).mockResolvedValue([
+        { expiresAt, role: { id: 'role-1', name: 'oncall', description: null, permissions: [{ permission: postsRead }] } }
+      ] as never)
+
+      await rbacService.getUserPermissions('user-1')
+
+      expect(permissionCache.set).toHaveBeenCalledWith('user-1', expect.anything(), expiresAt)
+    })
+
+    it('should store the expiry when assigning a role', async () => {
+      const expiresAt = new Date(Date.now() + 3_600_000)
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({ id: 'user-1' } as never)
+      vi.mocked(prisma.role.findUnique).mockResolvedValue({ id: 'role-1' } as never)
+      vi.mocked(prisma.userRole.findUnique).mockResolvedValue(null)
+
+      await rbacService.assignRoleToUser('user-1', { roleId: 'role-1', expiresAt })
+
+      expect(prisma.userRole.create).toHaveBeenCalledWith(expect.objectContaining({
+        data: { userId: 'user-1', roleId: 'role-1', expiresAt }
+      }))
+    })
+
+    it('should re-grant a role whose previous assignment expired', async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({ id: 'user-1' } as never)
+      vi.mocked(prisma.role.findUnique).mockResolvedValue({ id: 'role-1' } as never)
+      vi.mocked(prisma.userRole.findUnique).mockResolvedValue({
+        id: 'assignment-1', userId: 'user-1', roleId: 'role-1', expiresAt: new Date(Date.now() - 1000)
+      } as never)
+
+      await rbacService.assignRoleToUser('user-1', { roleId: 'role-1' })
+
+      expect(prisma.userRole.update).toHaveBeenCalledWith(expect.objectContaining({
+        where: { id: 'assignment-1' },
+        data: { expiresAt: null }
+      }))
+    })
+
+    it('should purge expired assignments and invalidate their users', async () => {
+      const expiresAt = new Date(Date.now() - 1000)
+      vi.mocked(prisma.userRole.findMany)
+        .mockResolvedValueOnce([
+          { id: 'assignment-1', userId: 'user-1', expiresAt, role: { id: 'role-1', name: 'oncall' } }
+        ] as never)
+        .mockResolvedValueOnce([])
+
+      const purged = await rbacService.purgeExpiredRoleAssignments()
+
+      expect(purged).toEqual([{ userId: 'user-1', role: { id: 'role-1', name: 'oncall' }, expiresAt }])
+      expect(prisma.userRole.deleteMany).toHaveBeenCalledWith({
+        where: { id: { in: ['assignment-1'] }, expiresAt: { lte: expect.any(Date) } }
+      })
+      expect(permissionCache.invalidateUsers).toHaveBeenCalledWith(['user-1'])
+      expect(tokenService.revokeAllUserTokens).toHaveBeenCalledWith('user-1')
+    })
+
+    it('should keep assignments renewed while the purge ran', async () => {
+      const expiresAt = new Date(Date.now() - 1000)
+      vi.mocked(prisma.userRole.findMany)
+        .mockResolvedValueOnce([
+          { id: 'assignment-1', userId: 'user-1', expiresAt, role: { id: 'role-1', name: 'oncall' } },
+          { id: 'assignment-2', userId: 'user-2', expiresAt, role: { id: 'role-1', name: 'oncall' } }
+        ] as never)
+        // Renewed between the select and the delete, so the delete left it alone
+        .mockResolvedValueOnce([{ id: 'assignment-1' }] as never)
+
+      const purged = await rbacService.purgeExpiredRoleAssignments()
+
+      expect(purged).toEqual([{ userId: 'user-2', role: { id: 'role-1', name: 'oncall' }, expiresAt }])
+      expect(tokenService.revokeAllUserTokens).not.toHaveBeenCalledWith('user-1')
+      expect(prisma.auditLog.create).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('checkUserPermission', () => {
+    it('should grant through wildcard permissions and report the most specific match', async () => {
+      const allPosts = { id: 'perm-3', name: 'All Posts', resource: 'posts', action: '*', description: null }
+      const superuser = { id: 'perm-4', name: 'Superuser', resource: '*', action: '*', description: null }
+      vi.mocked(permissionCache.get).mockResolvedValue({
+        roles: [],
+        inheritedRoles: [],
+        permissions: [superuser, allPosts]
+      })
+
+      const result = await rbacService.checkUserPermission('user-1', { resource: 'posts', action: 'delete' })
+
+      expect(result.hasPermission).toBe(true)
+      expect(result.matchedPermission).toEqual(allPosts)
+    })
+
+    it('should deny when no pattern matches', async () => {
+      vi.mocked(permissionCache.get).mockResolvedValue({
+        roles: [],
+        inheritedRoles: [],
+        permissions: [{ id: 'perm-5', name: 'Read Anything', resource: '*', action: 'read', description: null }]
+      })
+
+      const result = await rbacService.checkUserPermission('user-1', { resource: 'posts', action: 'delete' })
+
+      expect(result).toEqual({ hasPermission: false, matchedPermission: null })
+    })
+  })
+
+  describe('conditional permissions', () => {
+    const updateDrafts = {
+      id: 'perm-6',
+      name: 'Update Unpublished Posts',
+      resource: 'posts',
+      action: 'update',
+      description: null,
+      condition: { attr: 'resource.published', op: 'eq' as const, value: false }
+    }
+
+    beforeEach(() => {
+      vi.mocked(permissionCache.get).mockResolvedValue({ roles: [], inheritedRoles: [], permissions: [updateDrafts] })
+    })
+
+    it('should grant when the condition holds for the resource', async () => {
+      const result = await rbacService.checkUserPermission('user-1', {
+        resource: 'posts',
+        action: 'update',
+        resourceAttributes: { published: false }
+      })
+
+      expect(result.hasPermission).toBe(true)
+      expect(result.matchedPermission).toEqual(updateDrafts)
+    })
+
+    it('should deny when the condition fails or there is no resource', async () => {
+      const published = await rbacService.checkUserPermission('user-1', {
+        resource: 'posts',
+        action: 'update',
+        resourceAttributes: { published: true }
+      })
+      const withoutResource = await rbacService.checkUserPermission('user-1', { resource: 'posts', action: 'update' })
+
+      expect(published.hasPermission).toBe(false)
+      expect(withoutResource.hasPermission).toBe(false)
+    })
+
+    it('should fall back to a less specific permission when a condition fails', async () => {
+      const allPosts = { id: 'perm-3', name: 'All Posts', resource: 'posts', action: '*', description: null }
+      vi.mocked(permissionCache.get).mockResolvedValue({ roles: [], inheritedRoles: [], permissions: [allPosts, updateDrafts] })
+
+      const result = await rbacService.checkUserPermission('user-1', {
+        resource: 'posts',
+        action: 'update',
+        resourceAttributes: { published: true }
+      })
+
+      expect(result.matchedPermission).toEqual(allPosts)
+    })
+
+    it('should explain a denial', async () => {
+      const result = await rbacService.checkUserPermission('user-1', {
+        resource: 'posts',
+        action: 'update',
+        resourceAttributes: { published: true },
+        explain: true
+      })
+
+      expect(result).toMatchObject({
+        hasPermission: false,
+        explanation: {
+          decision: 'deny',
+          reason: 'Every permission matching posts:update has a condition that was not met',
+          evaluated: [{
+            permission: { id: 'perm-6', name: 'Update Unpublished Posts' },
+            passed: false,
+            trace: { attr: 'resource.published', op: 'eq', expected: false, actual: true, passed: false }
+          }]
+        }
+      })
+    })
+
+    it('should explain an allow and a missing permission', async () => {
+      const allowed = await rbacService.checkUserPermission('user-1', {
+        resource: 'posts',
+        action: 'update',
+        resourceAttributes: { published: false },
+        explain: true
+      })
+      const missing = await rbacService.checkUserPermission('user-1', { resource: 'users', action: 'manage', explain: true })
+
+      expect(allowed).toMatchObject({
+        explanation: { decision: 'allow', reason: 'Granted by Update Unpublished Posts, whose condition was met' }
+      })
+      expect(missing).toMatchObject({
+        explanation: { decision: 'deny', reason: 'No permission matches users:manage', evaluated: [] }
+      })
+    })
+
+    it('should evaluate user attributes against the given subject', async () => {
+      const ownDrafts = {
+        ...updateDrafts,
+        condition: { attr: 'resource.authorId', op: 'eq' as const, value: { ref: 'user.id' } }
+      }
+      vi.mocked(permissionCache.get).mockResolvedValue({ roles: [], inheritedRoles: [], permissions: [ownDrafts] })
+
+      const result = await rbacService.checkUserPermission(
+        'user-1',
+        { resource: 'posts', action: 'update', resourceAttributes: { authorId: 'user-1' } },
+        { id: 'user-1', email: 'user@example.com' }
+      )
+
+      expect(result.hasPermission).toBe(true)
+    })
+
+    it('should allow the same resource and action with a different condition', async () => {
+      vi.mocked(prisma.permission.findMany).mockResolvedValue([
+        { id: 'perm-7', resource: 'posts', action: 'update', condition: null }
+      ] as never)
+      vi.mocked(prisma.permission.create).mockResolvedValue(updateDrafts as never)
+
+      await rbacService.createPermission({
+        name: 'Update Unpublished Posts',
+        resource: 'posts',
+        action: 'update',
+        condition: updateDrafts.condition
+      })
+
+      expect(prisma.permission.create).toHaveBeenCalled()
+      await expect(rbacService.createPermission({ name: 'Update Posts Again', resource: 'posts', action: 'update' }))
+        .rejects.toThrow('Permission with this resource, action and condition already exists')
+    })
+  })
+
+  describe('role inheritance', () => {
+    const links: Record<string, string[]> = {
+      admin: ['moderator'],
+      moderator: ['user'],
+      user: []
+    }
+
+    beforeEach(() => {
+      vi.mocked(prisma.roleInheritance.findMany).mockImplementation((async (args: { where: { roleId?: { in: string[] } } }) =>
+        (args.where.roleId?.in ?? []).flatMap(roleId => (links[roleId] ?? []).map(parentId => ({ parentId })))
+      ) as never)
+    })
+
+    it('should resolve permissions inherited from ancestor roles', async () => {
+      vi.mocked(permissionCache.get).mockResolvedValue(null)
+      vi.mocked(prisma.userRole.findMany).mockResolvedValue([
+        { role: { id: 'admin', name: 'admin', description: null, permissions: [] } }
+      ] as never)
+      vi.mocked(prisma.role.findMany).mockResolvedValue([
+        { id: 'moderator', name: 'moderator', description: null, permissions: [{ permission: postsCreate }] },
+        { id: 'user', name: 'user', description: null, permissions: [{ permission: postsRead }] }
+      ] as never)
+
+      const result = await rbacService.checkUserPermission('admin-user', { resource: 'posts', action: 'read' })
+
+      expect(result.hasPermission).toBe(true)
+      expect(prisma.role.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { id: { in: ['moderator', 'user'] } }
+      }))
+    })
+
+    it('should require MFA when a held or inherited role requires it', async () => {
+      vi.mocked(permissionCache.get).mockResolvedValue(null)
+      vi.mocked(prisma.userRole.findMany)
+        .mockResolvedValueOnce([
+          { role: { id: 'admin', name: 'admin', description: null, requireMfa: false, permissions: [] } }
+        ] as never)
+        .mockResolvedValueOnce([
+          { role: { id: 'user', name: 'user', description: null, requireMfa: false, permissions: [] } }
+        ] as never)
+      vi.mocked(prisma.role.findMany).mockImplementation((async (args: { where: { id: { in: string[] } } }) => [
+        { id: 'moderator', name: 'moderator', description: null, requireMfa: true, permissions: [] },
+        { id: 'user', name: 'user', description: null, requireMfa: false, permissions: [] }
+      ].filter(role => args.where.id.in.includes(role.id))) as never)
+
+      expect(await rbacService.requiresMfa('admin-user')).toBe(true)
+      expect(await rbacService.requiresMfa('plain-user')).toBe(false)
+    })
+
+    it('should terminate on cyclic inheritance data', async () => {
+      links.user = ['admin']
+      vi.mocked(permissionCache.get).mockResolvedValue(null)
+      vi.mocked(prisma.userRole.findMany).mockResolvedValue([
+        { role: { id: 'user', name: 'user', description: null, permissions: [] } }
+      ] as never)
+      vi.mocked(prisma.role.findMany).mockResolvedValue([])
+
+      const permissions = await rbacService.getUserPermissions('cyclic-user')
+
+      expect(permissions).toEqual([])
+      links.user = []
+    })
+
+    it('should reject a parent that would create a cycle', async () => {
+      vi.mocked(prisma.role.findUnique).mockResolvedValue({ id: 'user' } as never)
+      vi.mocked(prisma.role.findMany).mockResolvedValue([{ id: 'admin' }] as never)
+
+      await expect(rbacService.setRoleParents('user', { parentIds: ['admin'] }))
+        .rejects.toThrow('Role inheritance cycle detected')
+      expect(prisma.roleInheritance.createMany).not.toHaveBeenCalled()
+    })
+
+    it('should reject a role inheriting from itself', async () => {
+      vi.mocked(prisma.role.findUnique).mockResolvedValue({ id: 'user' } as never)
+      vi.mocked(prisma.role.findMany).mockResolvedValue([{ id: 'user' }] as never)
+
+      await expect(rbacService.setRoleParents('user', { parentIds: ['user'] }))
+        .rejects.toThrow('Role inheritance cycle detected')
+    })
+  })
+})
\ No newline at end of file
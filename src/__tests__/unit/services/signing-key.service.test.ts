@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import jwt from 'jsonwebtoken'
+import { SigningKeyService } from '@/services/signing-key.service'
+import { wellKnown } from '@/routes/well-known'
+import { prisma } from '@/config/database'
+
+type KeyRecord = {
+  id: string
+  algorithm: string
+  publicKey: string
+  privateKey: string
+  createdAt: Date
+  retiredAt: Date | null
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// In-memory signing_keys table
+let records: KeyRecord[] = []
+
+const isVerifiable = (record: KeyRecord) =>
+  !record.retiredAt || record.retiredAt.getTime() > Date.now() - 7 * DAY_MS
+
+describe('SigningKeyService', () => {
+  let signingKeyService: SigningKeyService
+
+  beforeEach(() => {
+    signingKeyService = new SigningKeyService()
+    records = []
+    vi.clearAllMocks()
+
+    vi.mocked(prisma.signingKey.findMany).mockImplementation((async () =>
+      records.filter(isVerifiable).sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())) as never)
+    vi.mocked(prisma.signingKey.create).mockImplementation((async (args: { data: Omit<KeyRecord, 'id' | 'createdAt' | 'retiredAt'> }) => {
+      const record = { ...args.data, id: `key-${records.length + 1}`, createdAt: new Date(Date.now() + records.length), retiredAt: null }
+      records.push(record)
+      return record
+    }) as never)
+    vi.mocked(prisma.signingKey.updateMany).mockImplementation((async (args: { where: { id: { not: string } } }) => {
+      const retired = records.filter(record => !record.retiredAt && record.id !== args.where.id.not)
+      retired.forEach(record => { record.retiredAt = new Date() })
+      return { count: retired.length }
+    }) as never)
+    vi.mocked(prisma.signingKey.deleteMany).mockImplementation((async () => {
+      const kept = records.filter(isVerifiable)
+      const count = records.length - kept.length
+      records = kept
+      return { count }
+    }) as never)
+  })
+
+  describe('getSigningKey', () => {
+    it('should create an RS256 key when none exists', async () => {
+      const key = await signingKeyService.getSigningKey()
+
+      expect(key).toMatchObject({ kid: 'key-1', algorithm: 'RS256', retiredAt: null })
+      expect(key.privateKey).toContain('PRIVATE KEY')
+      expect(await signingKeyService.getSigningKey()).toEqual(key)
+      expect(prisma.signingKey.create).toHaveBeenCalledTimes(1)
+    })
+
+    it('should create a single key for concurrent requests on a cold cache', async () => {
+      const keys = await Promise.all(Array.from({ length: 5 }, () => signingKeyService.getSigningKey()))
+
+      expect(new Set(keys.map(key => key.kid))).toEqual(new Set(['key-1']))
+      expect(prisma.signingKey.create).toHaveBeenCalledTimes(1)
+      expect(prisma.signingKey.findMany).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('getVerificationKey', () => {
+    it('should reload the keys for unknown kids at most once per cache window', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] })
+
+      try {
+        const { kid } = await signingKeyService.getSigningKey()
+        await signingKeyService.getVerificationKey(kid)
+        vi.mocked(prisma.signingKey.findMany).mockClear()
+
+        for (let i = 0; i < 10; i++) {
+          expect(await signingKeyService.getVerificationKey(`made-up-${i}`)).toBeNull()
+        }
+        expect(prisma.signingKey.findMany).toHaveBeenCalledTimes(1)
+
+        // A key another instance created is found once the window has passed
+        records.push({ ...records[0], id: 'from-another-instance', retiredAt: null })
+        vi.setSystemTime(Date.now() + 60 * 1000)
+
+        expect(await signingKeyService.getVerificationKey('from-another-instance')).not.toBeNull()
+      } finally {
+        vi.useRealTimers()
+      }
+    })
+  })
+
+  describe('rotate', () => {
+    it('should keep verifying tokens signed with the retired key', async () => {
+      const oldKey = await signingKeyService.getSigningKey()
+      const token = jwt.sign({ sub: 'user-1' }, oldKey.privateKey, { algorithm: oldKey.algorithm, keyid: oldKey.kid })
+
+      const newKey = await signingKeyService.rotate()
+
+      expect(newKey.kid).not.toBe(oldKey.kid)
+      expect((await signingKeyService.getSigningKey()).kid).toBe(newKey.kid)
+
+      const verificationKey = await signingKeyService.getVerificationKey(oldKey.kid)
+      expect(verificationKey?.retiredAt).toBeInstanceOf(Date)
+      expect(jwt.verify(token, verificationKey!.publicKey, { algorithms: [verificationKey!.algorithm] })).toMatchObject({ sub: 'user-1' })
+    })
+  })
+
+  describe('rotateIfDue', () => {
+    it('should leave a fresh key alone', async () => {
+      await signingKeyService.getSigningKey()
+
+      expect(await signingKeyService.rotateIfDue()).toEqual({ rotated: false, prunedCount: 0 })
+    })
+
+    it('should rotate an old key and prune keys past the verification window', async () => {
+      records.push(
+        { id: 'expired', algorithm: 'RS256', publicKey: '', privateKey: '', createdAt: new Date(Date.now() - 60 * DAY_MS), retiredAt: new Date(Date.now() - 30 * DAY_MS) },
+        { id: 'stale', algorithm: 'RS256', publicKey: '', privateKey: '', createdAt: new Date(Date.now() - 31 * DAY_MS), retiredAt: null }
+      )
+
+      expect(await signingKeyService.rotateIfDue()).toEqual({ rotated: true, prunedCount: 1 })
+      expect(records.map(record => record.id)).toEqual(['stale', 'key-3'])
+      expect(await signingKeyService.getVerificationKey('expired')).toBeNull()
+    })
+  })
+
+  describe('GET /.well-known/jwks.json', () => {
+    it('should publish the public half of every verifying key', async () => {
+      const { signingKeyService: sharedService } = await import('@/services/signing-key.service')
+      const oldKey = await sharedService.rotate()
+      const newKey = await sharedService.rotate()
+
+      const response = await wellKnown.request('/jwks.json')
+      const jwks = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(response.headers.get('Cache-Control')).toBe('public, max-age=300')
+      expect(jwks.keys.map((key: { kid: string }) => key.kid)).toEqual([newKey.kid, oldKey.kid])
+      expect(jwks.keys[0]).toMatchObject({ kty: 'RSA', alg: 'RS256', use: 'sig' })
+      expect(jwks.keys[0]).not.toHaveProperty('d')
+    })
+  })
+})
\ No newline at end of file
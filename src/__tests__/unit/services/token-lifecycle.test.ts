@@ -0,0 +1,437 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { createHash } from 'node:crypto'
+import jwt from 'jsonwebtoken'
+import { TokenService, type TokenPayload } from '@/services/token.service'
+import { auditService } from '@/services/audit.service'
+import { notificationService } from '@/services/notification.service'
+import { prisma } from '@/config/database'
+import { env } from '@/config/env'
+import { cleanupExpiredSessions } from '@/jobs/cleanup-sessions'
+import { createMemoryRedis } from '@tests/fixtures/redis'
+import { createMemorySessions } from '@tests/fixtures/sessions'
+import { testSigningKey } from '@tests/fixtures/signing-key'
+
+const memoryRedis = createMemoryRedis()
+const redis = memoryRedis.client
+const memorySessions = createMemorySessions()
+
+Object.assign(prisma.session, memorySessions.delegate)
+
+// Token version column of each user; users not listed are at version 0
+const tokenVersions = new Map<string, number>()
+
+const sha256 = (value: string) => createHash('sha256').update(value).digest('hex')
+const sessionIdOf = (token: string) => (jwt.decode(token) as TokenPayload).sessionId
+
+vi.mock('@/config/redis', () => ({
+  getRedis: () => redis,
+  closeRedisConnection: vi.fn()
+}))
+
+vi.mock('@/services/signing-key.service', () => ({
+  signingKeyService: {
+    getSigningKey: vi.fn(async () => testSigningKey),
+    getVerificationKey: vi.fn(async (kid: string) => kid === testSigningKey.kid ? testSigningKey : null)
+  }
+}))
+
+vi.mock('@/services/audit.service', () => ({
+  auditService: { record: vi.fn() }
+}))
+
+vi.mock('@/services/notification.service', () => ({
+  notificationService: { notifyUser: vi.fn() }
+}))
+
+describe('TokenService', () => {
+  let tokenService: TokenService
+
+  beforeEach(() => {
+    tokenService = new TokenService()
+    memoryRedis.reset()
+    memorySessions.reset()
+    tokenVersions.clear()
+    vi.clearAllMocks()
+
+    vi.mocked(prisma.user.findUnique).mockImplementation((async (args: { where: { id: string } }) =>
+      args.where.id === 'deleted-user' ? null : { tokenVersion: tokenVersions.get(args.where.id) ?? 0 }) as never)
+    vi.mocked(prisma.user.update).mockImplementation((async (args: { where: { id: string } }) => {
+      const tokenVersion = (tokenVersions.get(args.where.id) ?? 0) + 1
+      tokenVersions.set(args.where.id, tokenVersion)
+      return { tokenVersion }
+    }) as never)
+  })
+
+  describe('refresh token rotation', () => {
+    it('should issue a new refresh token and invalidate the previous one', async () => {
+      const { refreshToken } = await tokenService.generateTokenPair('user-1', 'user@example.com')
+
+      const rotated = await tokenService.refreshAccessToken(refreshToken)
+
+      expect(rotated).not.toBeNull()
+      expect(rotated!.refreshToken).not.toBe(refreshToken)
+      expect(rotated!.refreshTokenExpiresAt).toBeInstanceOf(Date)
+
+      const next = await tokenService.refreshAccessToken(rotated!.refreshToken)
+      expect(next).not.toBeNull()
+    })
+
+    it('should revoke the session and notify the user when a rotated token is reused', async () => {
+      const { refreshToken } = await tokenService.generateTokenPair('user-1', 'user@example.com')
+      const rotated = await tokenService.refreshAccessToken(refreshToken)
+
+      expect(await tokenService.refreshAccessToken(refreshToken)).toBeNull()
+
+      // The legitimate holder's tokens die with the session
+      expect(await tokenService.refreshAccessToken(rotated!.refreshToken)).toBeNull()
+      expect(await tokenService.verifyToken(rotated!.accessToken)).toBeNull()
+
+      expect(notificationService.notifyUser).toHaveBeenCalledWith('user-1', expect.objectContaining({
+        type: 'warning',
+        title: 'Suspicious sign-in activity'
+      }))
+      expect(auditService.record).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'auth.refresh_token.reuse',
+        targetType: 'session',
+        actorId: null
+      }))
+    })
+
+    it('should treat the second of two concurrent refreshes as reuse and leave no usable pair', async () => {
+      const { refreshToken } = await tokenService.generateTokenPair('user-1', 'user@example.com')
+
+      const results = await Promise.all([
+        tokenService.refreshAccessToken(refreshToken),
+        tokenService.refreshAccessToken(refreshToken)
+      ])
+
+      expect(results.filter(Boolean).length).toBeLessThanOrEqual(1)
+      expect(notificationService.notifyUser).toHaveBeenCalledTimes(1)
+      expect(memorySessions.rows.get(sessionIdOf(refreshToken))!.revokedAt).toBeInstanceOf(Date)
+      for (const pair of results.filter(Boolean)) {
+        expect(await tokenService.refreshAccessToken(pair!.refreshToken)).toBeNull()
+      }
+    })
+
+    it('should not treat a refresh for an already revoked session as reuse', async () => {
+      const { refreshToken } = await tokenService.generateTokenPair('user-1', 'user@example.com')
+      const { sessionId } = jwt.decode(refreshToken) as TokenPayload
+      await tokenService.revokeSession(sessionId)
+
+      expect(await tokenService.refreshAccessToken(refreshToken)).toBeNull()
+      expect(notificationService.notifyUser).not.toHaveBeenCalled()
+    })
+
+    it('should reject access tokens as refresh tokens', async () => {
+      const { accessToken } = await tokenService.generateTokenPair('user-1', 'user@example.com')
+
+      expect(await tokenService.refreshAccessToken(accessToken)).toBeNull()
+    })
+  })
+
+  describe('lifetimes and claims', () => {
+    it('should use the configured issuer, default audience and lifetimes', async () => {
+      const { accessToken, refreshToken, refreshTokenExpiresAt } = await tokenService.generateTokenPair('user-1', 'user@example.com')
+
+      const access = jwt.decode(accessToken) as TokenPayload
+      const refresh = jwt.decode(refreshToken) as TokenPayload
+
+      expect(access).toMatchObject({ iss: 'honojs-template', aud: 'honojs-template-client' })
+      expect(access.exp! - access.iat!).toBe(15 * 60)
+      expect(refresh.exp! - refresh.iat!).toBe(7 * 24 * 60 * 60)
+      expect(refresh).not.toHaveProperty('rememberMe')
+      expect(refreshTokenExpiresAt.getTime()).toBeGreaterThan(Date.now() + 6 * 24 * 60 * 60 * 1000)
+    })
+
+    it('should issue tokens for the requested client audience', async () => {
+      const { accessToken } = await tokenService.generateTokenPair('user-1', 'user@example.com', { audience: 'mobile-app' })
+
+      expect(jwt.decode(accessToken)).toMatchObject({ aud: 'mobile-app' })
+      expect(await tokenService.verifyToken(accessToken)).toMatchObject({ userId: 'user-1' })
+    })
+
+    it('should keep a long-lived "remember me" refresh token and audience across rotation', async () => {
+      const { refreshToken } = await tokenService.generateTokenPair('user-1', 'user@example.com', {
+        audience: 'mobile-app',
+        rememberMe: true
+      })
+
+      const rotated = await tokenService.refreshAccessToken(refreshToken)
+      const refresh = jwt.decode(rotated!.refreshToken) as TokenPayload
+
+      expect(refresh).toMatchObject({ aud: 'mobile-app', rememberMe: true })
+      expect(refresh.exp! - refresh.iat!).toBe(30 * 24 * 60 * 60)
+      expect(redis.setex).toHaveBeenCalledWith(expect.stringMatching(/^refresh:/), 30 * 24 * 60 * 60, sha256(rotated!.refreshToken))
+    })
+  })
+
+  describe('session index', () => {
+    it('should list a user\'s sessions without reading anyone else\'s', async () => {
+      const first = await tokenService.generateTokenPair('user-1', 'user@example.com')
+      const second = await tokenService.generateTokenPair('user-1', 'user@example.com')
+      await tokenService.generateTokenPair('user-2', 'other@example.com')
+
+      const sessions = await tokenService.getUserSessions('user-1')
+
+      expect(sessions.map(session => session.sessionId).sort()).toEqual(
+        [sessionIdOf(first.refreshToken), sessionIdOf(second.refreshToken)].sort()
+      )
+      expect(redis.mget).toHaveBeenCalledWith(...sessions.map(session => `token:${session.sessionId}`))
+      expect(redis.keys).not.toHaveBeenCalled()
+    })
+
+    it('should revoke only the user\'s sessions', async () => {
+      const own = await tokenService.generateTokenPair('user-1', 'user@example.com')
+      const other = await tokenService.generateTokenPair('user-2', 'other@example.com')
+
+      await tokenService.revokeAllUserTokens('user-1')
+
+      expect(await tokenService.getUserSessions('user-1')).toEqual([])
+      expect(await tokenService.refreshAccessToken(own.refreshToken)).toBeNull()
+      expect(await tokenService.getUserSessions('user-2')).toHaveLength(1)
+      expect(await tokenService.refreshAccessToken(other.refreshToken)).not.toBeNull()
+      expect(redis.keys).not.toHaveBeenCalled()
+    })
+
+    it('should remove a revoked session from the index', async () => {
+      const { refreshToken } = await tokenService.generateTokenPair('user-1', 'user@example.com')
+
+      await tokenService.revokeSession(sessionIdOf(refreshToken))
+
+      expect(await redis.zrange('user-sessions:user-1', 0, -1)).toEqual([])
+    })
+
+    it('should drop sessions from the index once their refresh token expires', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] })
+
+      try {
+        await tokenService.generateTokenPair('user-1', 'user@example.com')
+        await tokenService.generateTokenPair('user-1', 'user@example.com', { rememberMe: true })
+        vi.setSystemTime(Date.now() + 8 * 24 * 60 * 60 * 1000)
+
+        expect(await tokenService.cleanupExpiredTokens()).toEqual({ deletedCount: 1 })
+        expect(await tokenService.getUserSessions('user-1')).toHaveLength(1)
+        expect(redis.keys).not.toHaveBeenCalled()
+      } finally {
+        vi.useRealTimers()
+      }
+    })
+
+    it('should index sessions created before the index existed', async () => {
+      await redis.setex('token:legacy-session', 3600, JSON.stringify({
+        userId: 'user-1',
+        email: 'user@example.com',
+        createdAt: '2026-01-01T00:00:00.000Z',
+        lastUsedAt: '2026-01-01T00:00:00.000Z'
+      }))
+
+      expect(await tokenService.migrateSessionIndex()).toEqual({ indexedCount: 1 })
+      expect(await tokenService.getUserSessions('user-1')).toEqual([{
+        sessionId: 'legacy-session',
+        createdAt: '2026-01-01T00:00:00.000Z',
+        lastUsedAt: '2026-01-01T00:00:00.000Z',
+        deviceName: null,
+        userAgent: null,
+        browser: null,
+        os: null,
+        deviceType: 'unknown',
+        ip: null,
+        location: null,
+        isCurrent: false
+      }])
+
+      // Running it again changes nothing
+      expect(await tokenService.migrateSessionIndex()).toEqual({ indexedCount: 1 })
+      expect(await redis.zrange('user-sessions:user-1', 0, -1)).toEqual(['legacy-session'])
+    })
+  })
+
+  describe('database persistence', () => {
+    it('should record each session with a hash of its current refresh token', async () => {
+      const { refreshToken } = await tokenService.generateTokenPair('user-1', 'user@example.com', { deviceName: 'Laptop' })
+      const rotated = await tokenService.refreshAccessToken(refreshToken)
+
+      expect(memorySessions.rows.get(sessionIdOf(refreshToken))).toMatchObject({
+        userId: 'user-1',
+        audience: 'honojs-template-client',
+        deviceName: 'Laptop',
+        refreshTokenHash: sha256(rotated!.refreshToken),
+        expiresAt: rotated!.refreshTokenExpiresAt,
+        revokedAt: null
+      })
+      expect(await redis.get(`refresh:${sessionIdOf(refreshToken)}`)).toBe(sha256(rotated!.refreshToken))
+    })
+
+    it('should keep sessions working after Redis lost them', async () => {
+      const { accessToken, refreshToken } = await tokenService.generateTokenPair('user-1', 'user@example.com')
+      memoryRedis.reset()
+
+      expect(await tokenService.verifyToken(accessToken)).toMatchObject({ userId: 'user-1' })
+      expect(await tokenService.refreshAccessToken(refreshToken)).not.toBeNull()
+      expect(await tokenService.getUserSessions('user-1')).toHaveLength(1)
+    })
+
+    it('should record the last use in the database at most once a minute', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] })
+
+      try {
+        const { accessToken, refreshToken } = await tokenService.generateTokenPair('user-1', 'user@example.com')
+        const row = () => memorySessions.rows.get(sessionIdOf(refreshToken))!
+
+        vi.setSystemTime(Date.now() + 2 * 60 * 1000)
+        await tokenService.verifyToken(accessToken)
+        const usedAt = new Date()
+        expect(row().lastUsedAt).toEqual(usedAt)
+
+        vi.setSystemTime(Date.now() + 10 * 1000)
+        await tokenService.verifyToken(accessToken)
+        expect(row().lastUsedAt).toEqual(usedAt)
+
+        // Restored from the database with the time it was last used
+        memoryRedis.reset()
+        expect((await tokenService.getUserSessions('user-1'))[0].lastUsedAt).toBe(usedAt.toISOString())
+      } finally {
+        vi.useRealTimers()
+      }
+    })
+
+    it('should rebuild a user\'s session list from the database', async () => {
+      await tokenService.generateTokenPair('user-1', 'user@example.com', { deviceName: 'Laptop' })
+      await tokenService.generateTokenPair('user-1', 'user@example.com')
+      memoryRedis.reset()
+
+      const sessions = await tokenService.getUserSessions('user-1')
+
+      expect(sessions).toHaveLength(2)
+      expect(sessions).toContainEqual(expect.objectContaining({ deviceName: 'Laptop' }))
+      expect(await redis.zrange('user-sessions:user-1', 0, -1)).toHaveLength(2)
+    })
+
+    it('should keep revoked sessions as history and reject them once Redis forgot them', async () => {
+      const { accessToken, refreshToken } = await tokenService.generateTokenPair('user-1', 'user@example.com')
+      await tokenService.revokeSession(sessionIdOf(refreshToken))
+      memoryRedis.reset()
+
+      expect(memorySessions.rows.get(sessionIdOf(refreshToken))!.revokedAt).toBeInstanceOf(Date)
+      expect(await tokenService.verifyToken(accessToken)).toBeNull()
+      expect(await tokenService.refreshAccessToken(refreshToken)).toBeNull()
+      expect(await tokenService.getUserSessions('user-1')).toEqual([])
+    })
+
+    it('should not bring back a session revoked while it was restored from the database', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] })
+
+      try {
+        const { refreshToken } = await tokenService.generateTokenPair('user-1', 'user@example.com')
+        const sessionId = sessionIdOf(refreshToken)
+        memoryRedis.reset()
+
+        // The session is revoked after its row was read, before the row is cached again
+        const findUnique = vi.mocked(prisma.session.findUnique).getMockImplementation()!
+        vi.mocked(prisma.session.findUnique).mockImplementationOnce((async (args: { where: { id: string } }) => {
+          const row = await findUnique(args as never)
+          await tokenService.revokeSession(sessionId)
+          return row
+        }) as never)
+
+        expect(await tokenService.refreshAccessToken(refreshToken)).toBeNull()
+        expect(await redis.get(`token:${sessionId}`)).toBeNull()
+
+        // Still refused once the revoked-session marker has expired
+        vi.setSystemTime(Date.now() + (env.JWT_ACCESS_TOKEN_TTL_SECONDS + 1) * 1000)
+        expect(await tokenService.refreshAccessToken(refreshToken)).toBeNull()
+      } finally {
+        vi.useRealTimers()
+      }
+    })
+
+    it('should not issue tokens for a session revoked during the refresh', async () => {
+      const { refreshToken } = await tokenService.generateTokenPair('user-1', 'user@example.com')
+      const sessionId = sessionIdOf(refreshToken)
+
+      // The session is revoked just before the refresh records its new token
+      const updateMany = vi.mocked(prisma.session.updateMany).getMockImplementation()!
+      vi.mocked(prisma.session.updateMany).mockImplementationOnce((async (args: never) => {
+        await tokenService.revokeSession(sessionId)
+        return updateMany(args)
+      }) as never)
+
+      expect(await tokenService.refreshAccessToken(refreshToken)).toBeNull()
+      expect(memorySessions.rows.get(sessionId)!.refreshTokenHash).toBe(sha256(refreshToken))
+      expect(await redis.get(`refresh:${sessionId}`)).toBeNull()
+    })
+
+    it('should sign out every device of a user after Redis lost their sessions', async () => {
+      const { accessToken } = await tokenService.generateTokenPair('user-1', 'user@example.com')
+      await tokenService.generateTokenPair('user-1', 'user@example.com')
+      memoryRedis.reset()
+
+      await tokenService.revokeAllUserTokens('user-1')
+
+      expect([...memorySessions.rows.values()].every(session => session.revokedAt)).toBe(true)
+      expect(await tokenService.verifyToken(accessToken)).toBeNull()
+    })
+
+    it('should delete expired rows in the session cleanup job', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] })
+      vi.mocked(prisma.passwordResetToken.deleteMany).mockResolvedValue({ count: 0 })
+      vi.mocked(prisma.apiKey.deleteMany).mockResolvedValue({ count: 0 })
+
+      try {
+        await tokenService.generateTokenPair('user-1', 'user@example.com')
+        await tokenService.generateTokenPair('user-1', 'user@example.com', { rememberMe: true })
+        vi.setSystemTime(Date.now() + 8 * 24 * 60 * 60 * 1000)
+
+        await cleanupExpiredSessions()
+
+        expect([...memorySessions.rows.values()]).toEqual([expect.objectContaining({ rememberMe: true })])
+        expect(redis.keys).not.toHaveBeenCalledWith('session:*')
+      } finally {
+        vi.useRealTimers()
+      }
+    })
+  })
+
+  describe('token version', () => {
+    it('should reject every outstanding token once the user\'s token version was bumped', async () => {
+      const { accessToken, refreshToken } = await tokenService.generateTokenPair('user-1', 'user@example.com')
+
+      // Bumped by another instance: only the database knows
+      tokenVersions.set('user-1', 1)
+      await redis.del('token-version:user-1')
+
+      expect(await tokenService.verifyToken(accessToken)).toBeNull()
+      expect(await tokenService.refreshAccessToken(refreshToken)).toBeNull()
+    })
+
+    it('should bump the version when signing out everywhere and accept tokens issued afterwards', async () => {
+      const before = await tokenService.generateTokenPair('user-1', 'user@example.com')
+      const otherUser = await tokenService.generateTokenPair('user-2', 'other@example.com')
+
+      await tokenService.revokeAllUserTokens('user-1')
+      const after = await tokenService.generateTokenPair('user-1', 'user@example.com')
+
+      expect(prisma.user.update).toHaveBeenCalledWith(expect.objectContaining({
+        where: { id: 'user-1' },
+        data: { tokenVersion: { increment: 1 } }
+      }))
+      expect(await tokenService.verifyToken(before.accessToken)).toBeNull()
+      expect(await tokenService.verifyToken(after.accessToken)).toMatchObject({ ver: 1 })
+      expect(await tokenService.refreshAccessToken(after.refreshToken)).not.toBeNull()
+      expect(await tokenService.verifyToken(otherUser.accessToken)).toMatchObject({ ver: 0 })
+    })
+
+    it('should read the version from the database only once', async () => {
+      const { accessToken } = await tokenService.generateTokenPair('user-1', 'user@example.com')
+
+      await tokenService.verifyToken(accessToken)
+      await tokenService.verifyToken(accessToken)
+
+      expect(prisma.user.findUnique).toHaveBeenCalledTimes(1)
+    })
+
+    it('should not issue tokens for a user that does not exist', async () => {
+      await expect(tokenService.generateTokenPair('deleted-user', 'gone@example.com')).rejects.toThrow('User not found')
+    })
+  })
+})
\ No newline at end of file
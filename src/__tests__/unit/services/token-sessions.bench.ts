@@ -0,0 +1,60 @@
+import { bench, describe, vi } from 'vitest'
+import { TokenService } from '@/services/token.service'
+import { createMemoryRedis } from '@tests/fixtures/redis'
+
+const memoryRedis = createMemoryRedis()
+const redis = memoryRedis.client
+
+vi.mock('@/config/redis', () => ({
+  getRedis: () => redis,
+  closeRedisConnection: vi.fn()
+}))
+
+const USERS = 2_000
+const SESSIONS_PER_USER = 5
+const SESSION_TTL = 7 * 24 * 60 * 60
+
+// Seed Redis directly; signing 10k token pairs would dominate the setup
+for (let user = 0; user < USERS; user++) {
+  for (let session = 0; session < SESSIONS_PER_USER; session++) {
+    const sessionId = `session-${user}-${session}`
+    const now = new Date().toISOString()
+
+    await redis.setex(`token:${sessionId}`, SESSION_TTL, JSON.stringify({
+      userId: `user-${user}`,
+      email: `user-${user}@example.com`,
+      createdAt: now,
+      lastUsedAt: now
+    }))
+    await redis.zadd(`user-sessions:user-${user}`, Date.now() + SESSION_TTL * 1000, sessionId)
+  }
+}
+
+// What getUserSessions did before the per-user index: read and parse every session in Redis
+const getUserSessionsByKeysScan = async (userId: string) => {
+  const sessions = []
+
+  for (const key of await redis.keys('token:*')) {
+    const sessionData = await redis.get(key)
+    if (sessionData) {
+      const session = JSON.parse(sessionData)
+      if (session.userId === userId) {
+        sessions.push({ sessionId: key.replace('token:', ''), createdAt: session.createdAt, lastUsedAt: session.lastUsedAt })
+      }
+    }
+  }
+
+  return sessions
+}
+
+const tokenService = new TokenService()
+
+describe(`getUserSessions with ${USERS * SESSIONS_PER_USER} sessions in Redis`, () => {
+  bench('per-user session index', async () => {
+    await tokenService.getUserSessions('user-42')
+  })
+
+  bench('KEYS scan (previous implementation)', async () => {
+    await getUserSessionsByKeysScan('user-42')
+  })
+})
\ No newline at end of file
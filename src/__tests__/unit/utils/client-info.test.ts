@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest'
+import { parseUserAgent, locationFromHeaders } from '@/utils/client-info'
+
+describe('parseUserAgent', () => {
+  it.each([
+    [
+      'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Safari/537.36 Edg/126.0.0.0',
+      { browser: 'Edge 126', os: 'Windows 10', deviceType: 'desktop' }
+    ],
+    [
+      'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.4 Safari/605.1.15',
+      { browser: 'Safari 17', os: 'macOS 10', deviceType: 'desktop' }
+    ],
+    [
+      'Mozilla/5.0 (X11; Ubuntu; Linux x86_64; rv:127.0) Gecko/20100101 Firefox/127.0',
+      { browser: 'Firefox 127', os: 'Linux', deviceType: 'desktop' }
+    ],
+    [
+      'Mozilla/5.0 (Linux; Android 14; Pixel 8) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Mobile Safari/537.36',
+      { browser: 'Chrome 126', os: 'Android 14', deviceType: 'mobile' }
+    ],
+    [
+      'Mozilla/5.0 (iPad; CPU OS 17_5 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) CriOS/126.0 Mobile/15E148 Safari/604.1',
+      { browser: 'Chrome 126', os: 'iOS 17', deviceType: 'tablet' }
+    ],
+    [
+      'curl/8.7.1',
+      { browser: null, os: null, deviceType: 'bot' }
+    ]
+  ])('should parse %s', (userAgent, expected) => {
+    expect(parseUserAgent(userAgent)).toEqual(expected)
+  })
+
+  it('should handle a missing header', () => {
+    expect(parseUserAgent(undefined)).toEqual({ browser: null, os: null, deviceType: 'unknown' })
+  })
+})
+
+describe('locationFromHeaders', () => {
+  const headers = (values: Record<string, string>) => (name: string) => values[name]
+
+  it('should combine city and country', () => {
+    expect(locationFromHeaders(headers({ 'X-Vercel-IP-City': 'S%C3%A3o%20Paulo', 'X-Vercel-IP-Country': 'BR' }))).toBe('São Paulo, BR')
+  })
+
+  it('should ignore unknown countries', () => {
+    expect(locationFromHeaders(headers({ 'CF-IPCountry': 'XX' }))).toBeNull()
+  })
+
+  it('should return null without geo headers', () => {
+    expect(locationFromHeaders(headers({}))).toBeNull()
+  })
+})
\ No newline at end of file
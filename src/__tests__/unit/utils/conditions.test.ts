@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest'
+import { evaluateCondition, resolveAttribute, traceCondition } from '@/utils/conditions'
+import { policyConditionSchema } from '@/schemas/rbac'
+
+const context = {
+  user: { id: 'user-1', email: 'user@example.com' },
+  resource: { id: 'post-1', authorId: 'user-1', published: false, views: 42, author: { id: 'user-1' } }
+}
+
+describe('Policy conditions', () => {
+  describe('resolveAttribute', () => {
+    it('should resolve user and resource paths', () => {
+      expect(resolveAttribute('user.id', context)).toBe('user-1')
+      expect(resolveAttribute('resource.author.id', context)).toBe('user-1')
+    })
+
+    it('should return undefined for missing paths', () => {
+      expect(resolveAttribute('resource.missing.id', context)).toBeUndefined()
+      expect(resolveAttribute('resource.published', { user: {} })).toBeUndefined()
+    })
+  })
+
+  describe('evaluateCondition', () => {
+    it('should compare against literals', () => {
+      expect(evaluateCondition({ attr: 'resource.published', op: 'eq', value: false }, context)).toBe(true)
+      expect(evaluateCondition({ attr: 'resource.published', op: 'ne', value: false }, context)).toBe(false)
+      expect(evaluateCondition({ attr: 'resource.views', op: 'gte', value: 42 }, context)).toBe(true)
+      expect(evaluateCondition({ attr: 'resource.views', op: 'lt', value: '100' }, context)).toBe(false)
+    })
+
+    it('should compare against other attributes', () => {
+      expect(evaluateCondition({ attr: 'resource.authorId', op: 'eq', value: { ref: 'user.id' } }, context)).toBe(true)
+    })
+
+    it('should support in, nin and exists', () => {
+      expect(evaluateCondition({ attr: 'user.email', op: 'in', value: ['user@example.com'] }, context)).toBe(true)
+      expect(evaluateCondition({ attr: 'user.email', op: 'nin', value: ['user@example.com'] }, context)).toBe(false)
+      expect(evaluateCondition({ attr: 'resource.deletedAt', op: 'exists', value: false }, context)).toBe(true)
+    })
+
+    it('should combine conditions with all, any and not', () => {
+      const condition = {
+        all: [
+          { attr: 'resource.published', op: 'eq' as const, value: false },
+          { not: { attr: 'resource.authorId', op: 'eq' as const, value: 'someone-else' } },
+          { any: [{ attr: 'resource.views', op: 'gt' as const, value: 1000 }, { attr: 'user.id', op: 'exists' as const }] }
+        ]
+      }
+
+      expect(evaluateCondition(condition, context)).toBe(true)
+    })
+
+    it('should fail when the resource is not available', () => {
+      expect(evaluateCondition({ attr: 'resource.published', op: 'eq', value: false }, { user: { id: 'user-1' } })).toBe(false)
+    })
+
+    describe('without a resource', () => {
+      const noResource = { user: { id: 'user-1' }, resource: null }
+
+      it('should fail ne on resource attributes', () => {
+        expect(evaluateCondition({ attr: 'resource.published', op: 'ne', value: true }, noResource)).toBe(false)
+        expect(evaluateCondition({ attr: 'user.id', op: 'ne', value: { ref: 'resource.authorId' } }, noResource)).toBe(false)
+      })
+
+      it('should fail nin on resource attributes', () => {
+        expect(evaluateCondition({ attr: 'resource.status', op: 'nin', value: ['archived'] }, { user: { id: 'user-1' } })).toBe(false)
+      })
+
+      it('should fail exists: false on resource attributes', () => {
+        expect(evaluateCondition({ attr: 'resource.deletedAt', op: 'exists', value: false }, noResource)).toBe(false)
+      })
+
+      it('should fail not over resource conditions, however deeply nested', () => {
+        expect(evaluateCondition({ not: { attr: 'resource.published', op: 'eq', value: true } }, noResource)).toBe(false)
+        expect(evaluateCondition({ not: { not: { attr: 'resource.published', op: 'ne', value: true } } }, noResource)).toBe(false)
+        expect(evaluateCondition({ not: { all: [{ attr: 'resource.authorId', op: 'eq', value: 'someone-else' }] } }, noResource)).toBe(false)
+      })
+
+      it('should still decide conditions on the user alone', () => {
+        expect(evaluateCondition({ attr: 'user.id', op: 'ne', value: 'someone-else' }, noResource)).toBe(true)
+        expect(evaluateCondition({ not: { attr: 'user.id', op: 'eq', value: 'someone-else' } }, noResource)).toBe(true)
+        expect(evaluateCondition({
+          any: [{ attr: 'user.id', op: 'eq', value: 'user-1' }, { not: { attr: 'resource.published', op: 'eq', value: true } }]
+        }, noResource)).toBe(true)
+      })
+    })
+  })
+
+  describe('traceCondition', () => {
+    it('should record the actual and expected value of every comparison', () => {
+      const trace = traceCondition({
+        any: [
+          { attr: 'resource.published', op: 'eq', value: true },
+          { attr: 'resource.authorId', op: 'eq', value: { ref: 'user.id' } }
+        ]
+      }, context)
+
+      expect(trace).toEqual({
+        op: 'any',
+        passed: true,
+        children: [
+          { attr: 'resource.published', op: 'eq', expected: true, actual: false, passed: false },
+          { attr: 'resource.authorId', op: 'eq', expected: 'user-1', actual: 'user-1', passed: true }
+        ]
+      })
+    })
+  })
+
+  describe('policyConditionSchema', () => {
+    it('should accept nested conditions', () => {
+      const result = policyConditionSchema.safeParse({
+        all: [{ attr: 'resource.published', op: 'eq', value: false }, { not: { attr: 'user.id', op: 'in', value: ['a'] } }]
+      })
+
+      expect(result.success).toBe(true)
+    })
+
+    it('should reject unknown roots, operators and malformed values', () => {
+      expect(policyConditionSchema.safeParse({ attr: 'process.env', op: 'eq', value: 1 }).success).toBe(false)
+      expect(policyConditionSchema.safeParse({ attr: 'user.id', op: 'matches', value: 'x' }).success).toBe(false)
+      expect(policyConditionSchema.safeParse({ attr: 'user.id', op: 'in', value: 'x' }).success).toBe(false)
+      expect(policyConditionSchema.safeParse({ all: [] }).success).toBe(false)
+    })
+  })
+})
\ No newline at end of file
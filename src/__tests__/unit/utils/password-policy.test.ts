@@ -0,0 +1,89 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import { env } from '@/config/env'
+import {
+  getPasswordPolicyViolations,
+  passwordContainsOwner,
+  assertPasswordPolicy,
+  isPasswordPolicyViolation
+} from '@/utils/password-policy'
+
+describe('Password policy', () => {
+  afterEach(() => {
+    env.PASSWORD_MIN_LENGTH = 8
+    env.PASSWORD_MIN_CHARACTER_CLASSES = 3
+  })
+
+  describe('getPasswordPolicyViolations', () => {
+    it('should accept a long password mixing character classes', () => {
+      expect(getPasswordPolicyViolations('Tr0ub4dor&3')).toEqual([])
+    })
+
+    it('should enforce the configured minimum length', () => {
+      expect(getPasswordPolicyViolations('Ab1!xyz')).toContain('Password must be at least 8 characters')
+
+      env.PASSWORD_MIN_LENGTH = 12
+      expect(getPasswordPolicyViolations('Tr0ub4dor&3')).toContain('Password must be at least 12 characters')
+    })
+
+    it('should count bytes rather than characters against the bcrypt limit', () => {
+      expect(getPasswordPolicyViolations(`Aa1!${'é'.repeat(35)}`)).toContain('Password must be at most 72 bytes')
+      expect(getPasswordPolicyViolations(`Aa1!${'x'.repeat(68)}`)).toEqual([])
+    })
+
+    it('should enforce the configured number of character classes', () => {
+      const message = 'Password must contain at least 3 of lowercase letters, uppercase letters, digits and symbols'
+      expect(getPasswordPolicyViolations('correcthorsebattery')).toContain(message)
+      expect(getPasswordPolicyViolations('correct-horse-battery')).toContain(message)
+      expect(getPasswordPolicyViolations('Correct-horse-battery')).toEqual([])
+
+      env.PASSWORD_MIN_CHARACTER_CLASSES = 0
+      expect(getPasswordPolicyViolations('correcthorsebattery')).toEqual([])
+    })
+
+    it('should reject common passwords, also with digits and symbols around them', () => {
+      const message = 'Password must not be a commonly used password'
+      expect(getPasswordPolicyViolations('Password123!')).toContain(message)
+      expect(getPasswordPolicyViolations('!!Sunshine2024')).toContain(message)
+      expect(getPasswordPolicyViolations('Qwerty123')).toContain(message)
+      expect(getPasswordPolicyViolations('Pass-word-123')).not.toContain(message)
+    })
+
+    it('should reject passwords containing the owner\'s name or email address', () => {
+      const owner = { email: 'jane.doe@example.com', name: 'Jane Doe' }
+
+      expect(getPasswordPolicyViolations('Jane.Doe-2024', owner))
+        .toContain('Password must not contain your name or email address')
+      expect(getPasswordPolicyViolations('Tr0ub4dor&3', owner)).toEqual([])
+    })
+  })
+
+  describe('passwordContainsOwner', () => {
+    it('should match name parts and the email local part case-insensitively', () => {
+      const owner = { email: 'jdoe@example.com', name: 'Jane Doe' }
+
+      expect(passwordContainsOwner('xxJANExx', owner)).toBe(true)
+      expect(passwordContainsOwner('my-jdoe-pw', owner)).toBe(true)
+      expect(passwordContainsOwner('Tr0ub4dor&3', owner)).toBe(false)
+    })
+
+    it('should ignore parts too short to be telling', () => {
+      expect(passwordContainsOwner('Example-Al-2024', { email: 'al@example.com', name: 'Al' })).toBe(false)
+    })
+  })
+
+  describe('assertPasswordPolicy', () => {
+    it('should throw the first violation as a recognisable error', () => {
+      let thrown: unknown
+      try {
+        assertPasswordPolicy('short')
+      } catch (error) {
+        thrown = error
+      }
+
+      expect(thrown).toEqual(new Error('Password must be at least 8 characters'))
+      expect(isPasswordPolicyViolation(thrown)).toBe(true)
+      expect(isPasswordPolicyViolation(new Error('User not found'))).toBe(false)
+      expect(() => assertPasswordPolicy('Tr0ub4dor&3')).not.toThrow()
+    })
+  })
+})
\ No newline at end of file
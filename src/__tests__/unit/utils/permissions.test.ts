@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest'
+import {
+  matchesSegment,
+  matchesPermission,
+  findMatchingPermission,
+  isValidPermissionPattern
+} from '@/utils/permissions'
+
+const permission = (resource: string, action: string) => ({ resource, action })
+
+describe('Permission matching', () => {
+  describe('matchesSegment', () => {
+    it('should match exact values only', () => {
+      expect(matchesSegment('posts', 'posts')).toBe(true)
+      expect(matchesSegment('posts', 'post')).toBe(false)
+    })
+
+    it('should match anything with *', () => {
+      expect(matchesSegment('*', 'posts')).toBe(true)
+      expect(matchesSegment('*', 'channel:news')).toBe(true)
+    })
+
+    it('should match trailing * by prefix', () => {
+      expect(matchesSegment('channel:*', 'channel:news')).toBe(true)
+      expect(matchesSegment('channel:*', 'channel:')).toBe(true)
+      expect(matchesSegment('channel:*', 'chat:news')).toBe(false)
+    })
+  })
+
+  describe('matchesPermission', () => {
+    it('should understand posts:*', () => {
+      expect(matchesPermission(permission('posts', '*'), 'posts', 'delete')).toBe(true)
+      expect(matchesPermission(permission('posts', '*'), 'posts', 'update_own')).toBe(true)
+      expect(matchesPermission(permission('posts', '*'), 'users', 'delete')).toBe(false)
+    })
+
+    it('should understand *:read', () => {
+      expect(matchesPermission(permission('*', 'read'), 'users', 'read')).toBe(true)
+      expect(matchesPermission(permission('*', 'read'), 'users', 'read_own')).toBe(false)
+      expect(matchesPermission(permission('*', 'read'), 'users', 'manage')).toBe(false)
+    })
+
+    it('should understand sse:channel:*', () => {
+      expect(matchesPermission(permission('sse', 'channel:*'), 'sse', 'channel:news')).toBe(true)
+      expect(matchesPermission(permission('sse', 'channel:*'), 'sse', 'send')).toBe(false)
+      expect(matchesPermission(permission('sse:channel:*', '*'), 'sse:channel:news', 'send')).toBe(true)
+    })
+
+    it('should treat *:* as a superuser grant', () => {
+      expect(matchesPermission(permission('*', '*'), 'scheduler', 'manage')).toBe(true)
+    })
+  })
+
+  describe('findMatchingPermission precedence', () => {
+    const superuser = permission('*', '*')
+    const anyRead = permission('*', 'read')
+    const allPosts = permission('posts', '*')
+    const postsPrefix = permission('po*', 'read')
+    const exact = permission('posts', 'read')
+
+    it('should prefer an exact permission over every pattern', () => {
+      const match = findMatchingPermission([superuser, anyRead, allPosts, exact], 'posts', 'read')
+
+      expect(match).toBe(exact)
+    })
+
+    it('should prefer an exact resource over a resource pattern', () => {
+      const match = findMatchingPermission([superuser, anyRead, postsPrefix, allPosts], 'posts', 'read')
+
+      expect(match).toBe(allPosts)
+    })
+
+    it('should prefer longer prefixes over shorter ones', () => {
+      const channel = permission('sse', 'channel:*')
+      const channelNews = permission('sse', 'channel:news:*')
+
+      const match = findMatchingPermission([channel, channelNews], 'sse', 'channel:news:eu')
+
+      expect(match).toBe(channelNews)
+    })
+
+    it('should prefer a prefix over a bare wildcard', () => {
+      const match = findMatchingPermission([superuser, postsPrefix], 'posts', 'read')
+
+      expect(match).toBe(postsPrefix)
+    })
+
+    it('should fall back to *:* when nothing else matches', () => {
+      const match = findMatchingPermission([anyRead, allPosts, superuser], 'users', 'manage')
+
+      expect(match).toBe(superuser)
+    })
+
+    it('should return undefined when nothing matches', () => {
+      expect(findMatchingPermission([anyRead, allPosts], 'users', 'manage')).toBeUndefined()
+    })
+  })
+
+  describe('isValidPermissionPattern', () => {
+    it('should only allow * as the last character', () => {
+      expect(isValidPermissionPattern('posts')).toBe(true)
+      expect(isValidPermissionPattern('*')).toBe(true)
+      expect(isValidPermissionPattern('channel:*')).toBe(true)
+      expect(isValidPermissionPattern('*:read')).toBe(false)
+      expect(isValidPermissionPattern('po*sts')).toBe(false)
+    })
+  })
+})
\ No newline at end of file
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest'
+import {
+  base32Encode,
+  base32Decode,
+  generateTotpSecret,
+  generateTotpCode,
+  verifyTotpCode,
+  totpStep,
+  buildOtpauthUri
+} from '@/utils/totp'
+
+// The SHA-1 secret of the RFC 6238 test vectors, "12345678901234567890"
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ'
+
+describe('TOTP', () => {
+  describe('base32', () => {
+    it('should round-trip arbitrary bytes', () => {
+      const bytes = Buffer.from([0, 1, 2, 250, 251, 252, 253, 254, 255])
+
+      expect(base32Decode(base32Encode(bytes))).toEqual(bytes)
+      expect(base32Encode(Buffer.from('12345678901234567890'))).toBe(RFC_SECRET)
+    })
+
+    it('should accept lowercase, spaces and padding', () => {
+      expect(base32Decode('gezd gnbv gy3t qojq====').toString()).toBe('1234567890')
+      expect(() => base32Decode('not base32!')).toThrow('Invalid base32 string')
+    })
+
+    it('should generate 160-bit secrets', () => {
+      expect(base32Decode(generateTotpSecret())).toHaveLength(20)
+    })
+  })
+
+  describe('generateTotpCode', () => {
+    it('should match the RFC 6238 test vectors', () => {
+      expect(generateTotpCode(RFC_SECRET, totpStep(59 * 1000))).toBe('287082')
+      expect(generateTotpCode(RFC_SECRET, totpStep(1111111109 * 1000))).toBe('081804')
+      expect(generateTotpCode(RFC_SECRET, totpStep(1234567890 * 1000))).toBe('005924')
+      expect(generateTotpCode(RFC_SECRET, totpStep(2000000000 * 1000))).toBe('279037')
+    })
+  })
+
+  describe('verifyTotpCode', () => {
+    const now = 1234567890 * 1000
+
+    it('should return the step of a current code', () => {
+      expect(verifyTotpCode(RFC_SECRET, '005924', now)).toBe(totpStep(now))
+    })
+
+    it('should allow one step of clock drift either way', () => {
+      const step = totpStep(now)
+
+      expect(verifyTotpCode(RFC_SECRET, generateTotpCode(RFC_SECRET, step - 1), now)).toBe(step - 1)
+      expect(verifyTotpCode(RFC_SECRET, generateTotpCode(RFC_SECRET, step + 1), now)).toBe(step + 1)
+      expect(verifyTotpCode(RFC_SECRET, generateTotpCode(RFC_SECRET, step - 2), now)).toBeNull()
+    })
+
+    it('should reject malformed codes', () => {
+      expect(verifyTotpCode(RFC_SECRET, '5924', now)).toBeNull()
+      expect(verifyTotpCode(RFC_SECRET, '00592a', now)).toBeNull()
+    })
+  })
+
+  describe('buildOtpauthUri', () => {
+    it('should label the account with the issuer', () => {
+      const uri = new URL(buildOtpauthUri(RFC_SECRET, 'jane@example.com', 'Acme'))
+
+      expect(uri.protocol).toBe('otpauth:')
+      expect(uri.host).toBe('totp')
+      expect(decodeURIComponent(uri.pathname)).toBe('/Acme:jane@example.com')
+      expect(Object.fromEntries(uri.searchParams)).toEqual({
+        secret: RFC_SECRET,
+        issuer: 'Acme',
+        algorithm: 'SHA1',
+        digits: '6',
+        period: '30'
+      })
+    })
+  })
+})
\ No newline at end of file
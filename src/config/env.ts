@@ -12,11 +12,75 @@ const envSchema = z.object({
   LOG_LEVEL: z.enum(['fatal', 'error', 'warn', 'info', 'debug', 'trace']).default('info'),
   LOG_TO_FILE: z.coerce.boolean().default(false),
   JWT_SECRET: z.string().min(1),
+  JWT_ALGORITHM: z.enum(['RS256', 'ES256']).default('RS256'),
+  JWT_KEY_ROTATION_DAYS: z.coerce.number().int().positive().default(30),
+  JWT_ISSUER: z.string().min(1).default('honojs-template'),
+  // Comma-separated client audiences; the first is used when a client does not ask for one
+  JWT_AUDIENCES: z.string().default('honojs-template-client')
+    .transform(value => value.split(',').map(audience => audience.trim()).filter(Boolean))
+    .pipe(z.tuple([z.string()]).rest(z.string())),
+  JWT_ACCESS_TOKEN_TTL_SECONDS: z.coerce.number().int().positive().default(15 * 60),
+  JWT_REFRESH_TOKEN_TTL_SECONDS: z.coerce.number().int().positive().default(7 * 24 * 60 * 60),
+  JWT_REMEMBER_ME_TTL_SECONDS: z.coerce.number().int().positive().default(30 * 24 * 60 * 60),
   CORS_ORIGIN: z.string().default('*'),
   RATE_LIMIT_WINDOW_MS: z.coerce.number().default(900000),
   RATE_LIMIT_MAX_REQUESTS: z.coerce.number().default(100),
   HEALTH_CHECK_ENABLED: z.coerce.boolean().default(true),
   
+  // Email configuration
+  MAIL_TRANSPORT: z.enum(['console', 'file']).default('console'),
+  MAIL_FILE_DIR: z.string().default('tmp/mail'),
+  MAIL_FROM: z.string().default('no-reply@localhost'),
+  // Frontend page that reads the token from the query string and posts it to /auth/verify-email
+  EMAIL_VERIFICATION_URL: z.string().url().default('http://localhost:3000/verify-email'),
+  EMAIL_VERIFICATION_TTL_SECONDS: z.coerce.number().int().positive().default(24 * 60 * 60),
+  // Reject logins until the address is verified; "true" or "false"
+  EMAIL_VERIFICATION_REQUIRED: z.enum(['true', 'false']).default('false').transform(value => value === 'true'),
+  // Frontend page that reads the token from the query string and posts it with the new password to /auth/password/reset
+  PASSWORD_RESET_URL: z.string().url().default('http://localhost:3000/reset-password'),
+  PASSWORD_RESET_TTL_SECONDS: z.coerce.number().int().positive().default(30 * 60),
+
+  // Password policy
+  PASSWORD_MIN_LENGTH: z.coerce.number().int().positive().default(8),
+  // How many of lowercase letters, uppercase letters, digits and symbols a password needs
+  PASSWORD_MIN_CHARACTER_CLASSES: z.coerce.number().int().min(0).max(4).default(3),
+
+  // Two-factor authentication
+  // Shown next to the account in authenticator apps
+  TOTP_ISSUER: z.string().min(1).default('honojs-template'),
+  // How long the second login step may take after the password was accepted
+  MFA_TOKEN_TTL_SECONDS: z.coerce.number().int().positive().default(5 * 60),
+
+  // Login brute-force protection
+  // Failed logins for one email address before signing in with it is locked
+  LOGIN_MAX_FAILED_ATTEMPTS: z.coerce.number().int().positive().default(10),
+  LOGIN_LOCKOUT_SECONDS: z.coerce.number().int().positive().default(15 * 60),
+  // Failed logins from one client IP, across all addresses, before it is refused
+  LOGIN_IP_MAX_FAILED_ATTEMPTS: z.coerce.number().int().positive().default(100),
+  // How long a failed login counts towards these limits
+  LOGIN_FAILURE_WINDOW_SECONDS: z.coerce.number().int().positive().default(15 * 60),
+
+  // Social login through an OpenID Connect provider, enabled by setting OIDC_ISSUER
+  // Name of the provider in /auth/oauth/:provider URLs
+  OIDC_PROVIDER_NAME: z.string().regex(/^[a-z0-9-]+$/).default('oidc'),
+  OIDC_ISSUER: z.string().url().optional(),
+  OIDC_CLIENT_ID: z.string().default(''),
+  OIDC_CLIENT_SECRET: z.string().default(''),
+  OIDC_SCOPES: z.string().default('openid email profile'),
+  // Frontend page the provider sends the browser back to; it posts the code and state to /auth/oauth/:provider/callback
+  OIDC_REDIRECT_URI: z.string().url().default('http://localhost:3000/oauth/callback'),
+  // How long a user may take at the provider before the login has to start over
+  OAUTH_STATE_TTL_SECONDS: z.coerce.number().int().positive().default(10 * 60),
+
+  // Passwordless login
+  // Frontend page that reads the token from the query string and posts it to /auth/magic-link/verify
+  MAGIC_LINK_URL: z.string().url().default('http://localhost:3000/magic-link'),
+  MAGIC_LINK_TTL_SECONDS: z.coerce.number().int().positive().default(15 * 60),
+
+  // API keys
+  // Longest lifetime a new API key may be given
+  API_KEY_MAX_LIFETIME_DAYS: z.coerce.number().int().positive().default(365),
+  
   // Monitoring configuration
   ENABLE_MONITORING: z.coerce.boolean().default(false),
   METRICS_PORT: z.coerce.number().default(9090),
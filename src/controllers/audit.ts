@@ -0,0 +1,23 @@
+import type { Context } from 'hono'
+import { HTTPException } from 'hono/http-exception'
+import { logger } from '../config/logger.js'
+import { auditService } from '../services/audit.service.js'
+import { AuditLogsQuery } from '../schemas/audit.js'
+
+export const auditController = {
+  async getAuditLogs(c: Context) {
+    try {
+      const query = AuditLogsQuery.parse(c.req.query())
+
+      const result = await auditService.getAuditLogs(query)
+
+      return c.json({
+        success: true,
+        data: result
+      })
+    } catch (error) {
+      logger.error({ error }, 'Failed to get audit logs')
+      throw new HTTPException(500, { message: 'Failed to fetch audit logs' })
+    }
+  }
+}
\ No newline at end of file
@@ -1,11 +1,66 @@
 import type { Context } from 'hono'
 import { HTTPException } from 'hono/http-exception'
+import type { ContentfulStatusCode } from 'hono/utils/http-status'
 import { logger } from '../config/logger.js'
 import { AuthService } from '../services/auth.service.js'
-import type { LoginUser, RegisterUser } from '../schemas/auth.js'
+import { emailVerificationService } from '../services/email-verification.service.js'
+import { passwordResetService } from '../services/password-reset.service.js'
+import { mfaService } from '../services/mfa.service.js'
+import { loginThrottleService } from '../services/login-throttle.service.js'
+import { oauthService } from '../services/oauth.service.js'
+import { apiKeyService } from '../services/api-key.service.js'
+import { magicLinkService } from '../services/magic-link.service.js'
+import { isPasswordPolicyViolation } from '../utils/password-policy.js'
+import type {
+  LoginUser,
+  RegisterUser,
+  UpdateSession,
+  VerifyEmail,
+  ResendVerification,
+  ForgotPassword,
+  ResetPassword,
+  ChangePassword,
+  MfaCode,
+  MfaToken,
+  VerifyMfaLogin,
+  OAuthAuthorize,
+  OAuthCallback,
+  MagicLink,
+  VerifyMagicLink
+} from '../schemas/auth.js'
+import { createApiKeySchema } from '../schemas/auth.js'
 
 const authService = new AuthService()
 
+// Two-factor authentication errors the client can act on
+const mfaErrorStatuses: Record<string, ContentfulStatusCode> = {
+  'Invalid or expired MFA token': 401,
+  'Invalid two-factor code': 400,
+  'Two-factor authentication setup not started': 400,
+  'Two-factor authentication is not enabled': 400,
+  'Two-factor authentication is required for your role': 403,
+  'Two-factor authentication is already enabled': 409,
+  'Too many two-factor attempts': 429
+}
+
+const mfaErrorStatus = (error: unknown): ContentfulStatusCode | undefined => {
+  return error instanceof Error ? mfaErrorStatuses[error.message] : undefined
+}
+
+// External identity provider errors the client can act on
+const oauthErrorStatuses: Record<string, ContentfulStatusCode> = {
+  'Unknown identity provider': 404,
+  'Invalid or expired OAuth state': 400,
+  'Identity provider rejected the authorization code': 401,
+  'Invalid ID token': 401,
+  'Identity provider did not return a verified email address': 403,
+  'Verify the email address of your account before signing in with an identity provider': 409
+}
+
+const oauthErrorStatus = (error: unknown): ContentfulStatusCode | undefined => {
+  return error instanceof Error ? oauthErrorStatuses[error.message] : undefined
+}
+
 export const authController = {
   async register(c: Context) {
     try {
@@ -27,9 +82,9 @@ export const authController = {
   },
 
   async login(c: Context) {
+    const credentials = await c.req.json() as LoginUser
+
     try {
-      const credentials = await c.req.json() as LoginUser
-      
       const result = await authService.login(credentials)
 
       return c.json({
@@ -40,11 +95,233 @@ export const authController = {
       if (error instanceof Error && error.message === 'Invalid email or password') {
         throw new HTTPException(401, { message: error.message })
       }
+      if (error instanceof Error && error.message === 'Email address not verified') {
+        throw new HTTPException(403, { message: error.message })
+      }
+      if (error instanceof Error && error.message === 'Too many failed login attempts') {
+        c.header('Retry-After', String(await loginThrottleService.getRetryAfter(credentials.email)))
+        throw new HTTPException(429, { message: error.message })
+      }
       logger.error({ error }, 'Failed to login user')
       throw new HTTPException(500, { message: 'Failed to login user' })
     }
   },
 
+  async verifyMfaLogin(c: Context) {
+    try {
+      const body = await c.req.json() as VerifyMfaLogin
+
+      const result = await authService.verifyMfaLogin(body)
+
+      return c.json({
+        success: true,
+        data: result
+      })
+    } catch (error) {
+      const status = mfaErrorStatus(error)
+      if (status) {
+        throw new HTTPException(status, { message: (error as Error).message })
+      }
+      logger.error({ error }, 'Failed to verify two-factor login')
+      throw new HTTPException(500, { message: 'Failed to verify two-factor login' })
+    }
+  },
+
+  async setupMfaLogin(c: Context) {
+    try {
+      const { mfaToken } = await c.req.json() as MfaToken
+
+      const result = await authService.setupMfaLogin(mfaToken)
+
+      return c.json({
+        success: true,
+        data: result
+      })
+    } catch (error) {
+      const status = mfaErrorStatus(error)
+      if (status) {
+        throw new HTTPException(status, { message: (error as Error).message })
+      }
+      logger.error({ error }, 'Failed to set up two-factor authentication')
+      throw new HTTPException(500, { message: 'Failed to set up two-factor authentication' })
+    }
+  },
+
+  async getOAuthProviders(c: Context) {
+    return c.json({
+      success: true,
+      data: { providers: oauthService.getProviderNames() }
+    })
+  },
+
+  async startOAuthLogin(c: Context) {
+    try {
+      const options = await c.req.json() as OAuthAuthorize
+
+      const { authorizationUrl, stateVerifier } = await oauthService.startAuthorization(c.req.param('provider')!, options)
+
+      return c.json({
+        success: true,
+        data: { authorizationUrl, stateVerifier }
+      })
+    } catch (error) {
+      const status = oauthErrorStatus(error)
+      if (status) {
+        throw new HTTPException(status, { message: (error as Error).message })
+      }
+      logger.error({ error }, 'Failed to start login at identity provider')
+      throw new HTTPException(500, { message: 'Failed to start login at identity provider' })
+    }
+  },
+
+  async finishOAuthLogin(c: Context) {
+    try {
+      const body = await c.req.json() as OAuthCallback
+
+      const result = await authService.loginWithProvider(c.req.param('provider')!, body)
+
+      return c.json({
+        success: true,
+        data: result
+      })
+    } catch (error) {
+      const status = oauthErrorStatus(error)
+      if (status) {
+        throw new HTTPException(status, { message: (error as Error).message })
+      }
+      logger.error({ error }, 'Failed to finish login at identity provider')
+      throw new HTTPException(500, { message: 'Failed to finish login at identity provider' })
+    }
+  },
+
+  async requestMagicLink(c: Context) {
+    const body = await c.req.json() as MagicLink
+
+    try {
+      const result = await magicLinkService.sendLink(body)
+
+      return c.json({
+        success: true,
+        data: result
+      })
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Too many failed login attempts') {
+        c.header('Retry-After', String(await loginThrottleService.getRetryAfter(body.email)))
+        throw new HTTPException(429, { message: error.message })
+      }
+      if (error instanceof Error && error.message === 'Too many magic link requests') {
+        throw new HTTPException(429, { message: error.message })
+      }
+      logger.error({ error }, 'Failed to send magic link')
+      throw new HTTPException(500, { message: 'Failed to send magic link' })
+    }
+  },
+
+  async verifyMagicLink(c: Context) {
+    try {
+      const body = await c.req.json() as VerifyMagicLink
+
+      const result = await authService.loginWithMagicLink(body)
+
+      return c.json({
+        success: true,
+        data: result
+      })
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Invalid or expired magic link') {
+        throw new HTTPException(401, { message: error.message })
+      }
+      if (error instanceof Error && error.message === 'Too many failed login attempts') {
+        throw new HTTPException(429, { message: error.message })
+      }
+      logger.error({ error }, 'Failed to sign in with magic link')
+      throw new HTTPException(500, { message: 'Failed to sign in with magic link' })
+    }
+  },
+
+  async setupTotp(c: Context) {
+    try {
+      const user = c.get('user')
+
+      const result = await mfaService.setupTotp(user.id)
+
+      return c.json({
+        success: true,
+        data: result
+      })
+    } catch (error) {
+      const status = mfaErrorStatus(error)
+      if (status) {
+        throw new HTTPException(status, { message: (error as Error).message })
+      }
+      logger.error({ error }, 'Failed to set up two-factor authentication')
+      throw new HTTPException(500, { message: 'Failed to set up two-factor authentication' })
+    }
+  },
+
+  async confirmTotp(c: Context) {
+    try {
+      const user = c.get('user')
+      const { code } = await c.req.json() as MfaCode
+
+      const result = await mfaService.confirmTotp(user.id, code)
+
+      return c.json({
+        success: true,
+        data: result
+      })
+    } catch (error) {
+      const status = mfaErrorStatus(error)
+      if (status) {
+        throw new HTTPException(status, { message: (error as Error).message })
+      }
+      logger.error({ error }, 'Failed to enable two-factor authentication')
+      throw new HTTPException(500, { message: 'Failed to enable two-factor authentication' })
+    }
+  },
+
+  async disableTotp(c: Context) {
+    try {
+      const user = c.get('user')
+      const { code } = await c.req.json() as MfaCode
+
+      const result = await mfaService.disableTotp(user.id, code)
+
+      return c.json({
+        success: true,
+        data: result
+      })
+    } catch (error) {
+      const status = mfaErrorStatus(error)
+      if (status) {
+        throw new HTTPException(status, { message: (error as Error).message })
+      }
+      logger.error({ error }, 'Failed to disable two-factor authentication')
+      throw new HTTPException(500, { message: 'Failed to disable two-factor authentication' })
+    }
+  },
+
+  async regenerateRecoveryCodes(c: Context) {
+    try {
+      const user = c.get('user')
+      const { code } = await c.req.json() as MfaCode
+
+      const result = await mfaService.regenerateRecoveryCodes(user.id, code)
+
+      return c.json({
+        success: true,
+        data: result
+      })
+    } catch (error) {
+      const status = mfaErrorStatus(error)
+      if (status) {
+        throw new HTTPException(status, { message: (error as Error).message })
+      }
+      logger.error({ error }, 'Failed to regenerate recovery codes')
+      throw new HTTPException(500, { message: 'Failed to regenerate recovery codes' })
+    }
+  },
+
   async me(c: Context) {
     try {
       const user = c.get('user')
@@ -97,6 +374,105 @@ export const authController = {
     }
   },
 
+  async verifyEmail(c: Context) {
+    try {
+      const { token } = await c.req.json() as VerifyEmail
+
+      const result = await emailVerificationService.verifyEmail(token)
+
+      return c.json({
+        success: true,
+        data: result
+      })
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Invalid or expired verification token') {
+        throw new HTTPException(400, { message: error.message })
+      }
+      logger.error({ error }, 'Failed to verify email')
+      throw new HTTPException(500, { message: 'Failed to verify email' })
+    }
+  },
+
+  async resendVerificationEmail(c: Context) {
+    try {
+      const { email } = await c.req.json() as ResendVerification
+
+      const result = await emailVerificationService.resendVerificationEmail(email)
+
+      return c.json({
+        success: true,
+        data: result
+      })
+    } catch (error) {
+      logger.error({ error }, 'Failed to resend verification email')
+      throw new HTTPException(500, { message: 'Failed to resend verification email' })
+    }
+  },
+
+  async forgotPassword(c: Context) {
+    try {
+      const { email } = await c.req.json() as ForgotPassword
+
+      const result = await passwordResetService.requestReset(email)
+
+      return c.json({
+        success: true,
+        data: result
+      })
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Too many password reset requests') {
+        throw new HTTPException(429, { message: error.message })
+      }
+      logger.error({ error }, 'Failed to request password reset')
+      throw new HTTPException(500, { message: 'Failed to request password reset' })
+    }
+  },
+
+  async resetPassword(c: Context) {
+    try {
+      const { token, password } = await c.req.json() as ResetPassword
+
+      const result = await passwordResetService.resetPassword(token, password)
+
+      return c.json({
+        success: true,
+        data: result
+      })
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Invalid or expired reset token') {
+        throw new HTTPException(400, { message: error.message })
+      }
+      if (isPasswordPolicyViolation(error)) {
+        throw new HTTPException(400, { message: error.message })
+      }
+      logger.error({ error }, 'Failed to reset password')
+      throw new HTTPException(500, { message: 'Failed to reset password' })
+    }
+  },
+
+  async changePassword(c: Context) {
+    try {
+      const user = c.get('user')
+      const passwords = await c.req.json() as ChangePassword
+
+      const result = await authService.changePassword(user.id, c.get('sessionId'), passwords)
+
+      return c.json({
+        success: true,
+        data: result
+      })
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Current password is incorrect') {
+        throw new HTTPException(400, { message: error.message })
+      }
+      if (isPasswordPolicyViolation(error)) {
+        throw new HTTPException(400, { message: error.message })
+      }
+      logger.error({ error }, 'Failed to change password')
+      throw new HTTPException(500, { message: 'Failed to change password' })
+    }
+  },
+
   async logout(c: Context) {
     try {
       const sessionId = c.get('sessionId')
@@ -130,10 +506,25 @@ export const authController = {
     }
   },
 
+  async logoutOthers(c: Context) {
+    try {
+      const user = c.get('user')
+      const result = await authService.logoutOthers(user.id, c.get('sessionId'))
+
+      return c.json({
+        success: true,
+        data: result
+      })
+    } catch (error) {
+      logger.error({ error }, 'Failed to logout from other devices')
+      throw new HTTPException(500, { message: 'Failed to logout from other devices' })
+    }
+  },
+
   async getSessions(c: Context) {
     try {
       const user = c.get('user')
-      const sessions = await authService.getUserSessions(user.id)
+      const sessions = await authService.getUserSessions(user.id, c.get('sessionId'))
       
       return c.json({
         success: true,
@@ -145,23 +536,95 @@ export const authController = {
     }
   },
 
-  async revokeSession(c: Context) {
+  async renameSession(c: Context) {
     try {
-      const { sessionId } = c.req.param()
-      
-      if (!sessionId) {
-        throw new HTTPException(400, { message: 'Session ID is required' })
+      const user = c.get('user')
+      const { deviceName } = await c.req.json() as UpdateSession
+
+      const result = await authService.renameSession(user.id, c.req.param('sessionId')!, deviceName)
+
+      return c.json({
+        success: true,
+        data: result
+      })
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Session not found') {
+        throw new HTTPException(404, { message: error.message })
       }
+      logger.error({ error }, 'Failed to rename session')
+      throw new HTTPException(500, { message: 'Failed to rename session' })
+    }
+  },
 
-      const result = await authService.revokeSession(sessionId)
+  async revokeSession(c: Context) {
+    try {
+      const user = c.get('user')
+      const result = await authService.revokeSession(user.id, c.req.param('sessionId')!)
       
       return c.json({
         success: true,
         data: result
       })
     } catch (error) {
+      if (error instanceof Error && error.message === 'Session not found') {
+        throw new HTTPException(404, { message: error.message })
+      }
       logger.error({ error }, 'Failed to revoke session')
       throw new HTTPException(500, { message: 'Failed to revoke session' })
     }
+  },
+
+  async getApiKeys(c: Context) {
+    try {
+      const user = c.get('user')
+      const apiKeys = await apiKeyService.listApiKeys(user.id)
+
+      return c.json({
+        success: true,
+        data: apiKeys
+      })
+    } catch (error) {
+      logger.error({ error }, 'Failed to get API keys')
+      throw new HTTPException(500, { message: 'Failed to get API keys' })
+    }
+  },
+
+  async createApiKey(c: Context) {
+    try {
+      const user = c.get('user')
+      // Parsed again for the defaults, which the validator does not apply to the body
+      const body = createApiKeySchema.parse(await c.req.json())
+
+      const result = await apiKeyService.createApiKey(user.id, body)
+
+      return c.json({
+        success: true,
+        data: result
+      }, 201)
+    } catch (error) {
+      if (error instanceof Error && error.message.startsWith('Scope not granted')) {
+        throw new HTTPException(403, { message: error.message })
+      }
+      logger.error({ error }, 'Failed to create API key')
+      throw new HTTPException(500, { message: 'Failed to create API key' })
+    }
+  },
+
+  async revokeApiKey(c: Context) {
+    try {
+      const user = c.get('user')
+      const result = await apiKeyService.revokeApiKey(user.id, c.req.param('id')!)
+
+      return c.json({
+        success: true,
+        data: result
+      })
+    } catch (error) {
+      if (error instanceof Error && error.message === 'API key not found') {
+        throw new HTTPException(404, { message: error.message })
+      }
+      logger.error({ error }, 'Failed to revoke API key')
+      throw new HTTPException(500, { message: 'Failed to revoke API key' })
+    }
   }
 }
\ No newline at end of file
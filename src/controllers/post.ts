@@ -0,0 +1,159 @@
+import type { Context } from 'hono'
+import { logger } from '../config/logger.js'
+import { HTTPException } from 'hono/http-exception'
+import { PostService } from '../services/post.service.js'
+import { checkPermission } from '../middleware/rbac.js'
+import { PostsQuery, type CreatePost, type UpdatePost } from '../schemas/post.js'
+
+const postService = new PostService()
+
+/**
+ * Resource loader for `loadResourceAttributes` on `/posts/:id` routes. Posts the caller may not
+ * read load as missing, so whether a request fails with 403 or 404 does not reveal them.
+ */
+export const loadPostAttributes = async (c: Context) => {
+  if (!(await checkPermission(c, 'posts', 'read'))) {
+    return null
+  }
+
+  return postService.getPostPolicyAttributes(c.req.param('id')!, await getViewer(c))
+}
+
+/**
+ * Owner resolver for `requireOwnershipOrPermission` on `/posts/:id` routes,
+ * reusing the attributes loaded by `loadPostAttributes` when present
+ */
+export const resolvePostAuthorId = async (c: Context) => {
+  const attributes = c.get('resourceAttributes')
+  return attributes ? attributes.authorId as string : postService.getPostAuthorId(c.req.param('id')!)
+}
+
+const getViewer = async (c: Context) => {
+  // Anyone allowed to update unpublished posts may also see them
+  return {
+    userId: c.get('user').id,
+    canViewDrafts: await checkPermission(c, 'posts', 'update', { published: false })
+  }
+}
+
+const handlePostError = (error: unknown, logMessage: string, fallbackMessage: string): never => {
+  if (error instanceof HTTPException) {
+    throw error
+  }
+  if (error instanceof Error && error.message === 'Post not found') {
+    throw new HTTPException(404, { message: error.message })
+  }
+  logger.error({ error }, logMessage)
+  throw new HTTPException(500, { message: fallbackMessage })
+}
+
+export const postController = {
+  async getPosts(c: Context) {
+    try {
+      const query = PostsQuery.parse(c.req.query())
+      const viewer = await getViewer(c)
+
+      const result = await postService.getPosts(query, viewer)
+
+      return c.json({
+        success: true,
+        data: result
+      })
+    } catch (error) {
+      return handlePostError(error, 'Failed to get posts', 'Failed to fetch posts')
+    }
+  },
+
+  async getPostById(c: Context) {
+    try {
+      const id = c.req.param('id')!
+      const viewer = await getViewer(c)
+
+      const post = await postService.getPostById(id, viewer)
+
+      return c.json({
+        success: true,
+        data: post
+      })
+    } catch (error) {
+      return handlePostError(error, 'Failed to get post by ID', 'Failed to fetch post')
+    }
+  },
+
+  async createPost(c: Context) {
+    try {
+      const user = c.get('user')
+      const postData = await c.req.json() as CreatePost
+
+      const post = await postService.createPost(user.id, postData)
+
+      return c.json({
+        success: true,
+        data: post
+      }, 201)
+    } catch (error) {
+      return handlePostError(error, 'Failed to create post', 'Failed to create post')
+    }
+  },
+
+  async updatePost(c: Context) {
+    try {
+      const id = c.req.param('id')!
+      const updates = await c.req.json() as UpdatePost
+
+      const post = await postService.updatePost(id, updates)
+
+      return c.json({
+        success: true,
+        data: post
+      })
+    } catch (error) {
+      return handlePostError(error, 'Failed to update post', 'Failed to update post')
+    }
+  },
+
+  async publishPost(c: Context) {
+    try {
+      const id = c.req.param('id')!
+
+      const post = await postService.setPublished(id, true)
+
+      return c.json({
+        success: true,
+        data: post
+      })
+    } catch (error) {
+      return handlePostError(error, 'Failed to publish post', 'Failed to publish post')
+    }
+  },
+
+  async unpublishPost(c: Context) {
+    try {
+      const id = c.req.param('id')!
+
+      const post = await postService.setPublished(id, false)
+
+      return c.json({
+        success: true,
+        data: post
+      })
+    } catch (error) {
+      return handlePostError(error, 'Failed to unpublish post', 'Failed to unpublish post')
+    }
+  },
+
+  async deletePost(c: Context) {
+    try {
+      const id = c.req.param('id')!
+
+      const result = await postService.deletePost(id)
+
+      return c.json({
+        success: true,
+        data: result
+      })
+    } catch (error) {
+      return handlePostError(error, 'Failed to delete post', 'Failed to delete post')
+    }
+  }
+}
\ No newline at end of file
@@ -1,6 +1,8 @@
 import type { Context } from 'hono'
 import { HTTPException } from 'hono/http-exception'
+import { ZodError } from 'zod'
 import { RBACService } from '../services/rbac.service.js'
+import { rbacPolicyService } from '../services/rbac-policy.service.js'
 import {
   createRoleSchema,
   updateRoleSchema,
@@ -10,9 +12,13 @@ import {
   unassignRoleSchema,
   assignPermissionToRoleSchema,
   unassignPermissionFromRoleSchema,
+  setRoleParentsSchema,
   checkPermissionSchema,
+  rbacPolicySchema,
   rolesQuerySchema,
-  permissionsQuerySchema
+  permissionsQuerySchema,
+  exportPolicyQuerySchema,
+  applyPolicyQuerySchema
 } from '../schemas/rbac.js'
 
 const rbacService = new RBACService()
@@ -313,6 +319,117 @@ export const unassignPermissionFromRole = async (c: Context) => {
   }
 }
 
+// Role Inheritance Controllers
+export const setRoleParents = async (c: Context) => {
+  try {
+    const roleId = c.req.param('roleId')!
+    const body = await c.req.json()
+    const validatedData = setRoleParentsSchema.parse(body)
+    
+    const result = await rbacService.setRoleParents(roleId, validatedData)
+    
+    return c.json({
+      success: true,
+      data: result
+    })
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes('not found')) {
+        throw new HTTPException(404, { message: error.message })
+      }
+      throw new HTTPException(400, { message: error.message })
+    }
+    throw new HTTPException(500, { message: 'Failed to set role parents' })
+  }
+}
+
+// Policy Controllers
+export const exportPolicy = async (c: Context) => {
+  try {
+    const { format } = exportPolicyQuerySchema.parse({
+      format: c.req.query('format') || 'json'
+    })
+
+    const policy = await rbacPolicyService.exportPolicy()
+
+    if (format === 'yaml') {
+      return c.body(rbacPolicyService.serialize(policy, 'yaml'), 200, {
+        'Content-Type': 'application/yaml; charset=utf-8'
+      })
+    }
+
+    return c.json({
+      success: true,
+      data: policy
+    })
+  } catch {
+    throw new HTTPException(500, { message: 'Failed to export RBAC policy' })
+  }
+}
+
+export const applyPolicy = async (c: Context) => {
+  try {
+    const { dryRun, prune } = applyPolicyQuerySchema.parse({
+      dryRun: c.req.query('dryRun') || 'false',
+      prune: c.req.query('prune') || 'false'
+    })
+
+    // JSON bodies are validated directly, anything else is parsed as YAML
+    const policy = c.req.header('Content-Type')?.includes('json')
+      ? rbacPolicySchema.parse(await c.req.json())
+      : rbacPolicyService.parse(await c.req.text())
+
+    const result = await rbacPolicyService.applyPolicy(policy, { dryRun, prune })
+
+    return c.json({
+      success: true,
+      data: result
+    })
+  } catch (error) {
+    if (error instanceof ZodError) {
+      throw error
+    }
+    if (error instanceof Error) {
+      throw new HTTPException(400, { message: error.message })
+    }
+    throw new HTTPException(500, { message: 'Failed to apply RBAC policy' })
+  }
+}
+
+export const getRoleParents = async (c: Context) => {
+  try {
+    const roleId = c.req.param('roleId')!
+    const result = await rbacService.getRoleParents(roleId)
+    
+    return c.json({
+      success: true,
+      data: result
+    })
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Role not found') {
+      throw new HTTPException(404, { message: error.message })
+    }
+    throw new HTTPException(500, { message: 'Failed to fetch role parents' })
+  }
+}
+
+export const getRoleEffectivePermissions = async (c: Context) => {
+  try {
+    const roleId = c.req.param('roleId')!
+    const result = await rbacService.getRoleEffectivePermissions(roleId)
+    
+    return c.json({
+      success: true,
+      data: result
+    })
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Role not found') {
+      throw new HTTPException(404, { message: error.message })
+    }
+    throw new HTTPException(500, { message: 'Failed to fetch role effective permissions' })
+  }
+}
+
 // Permission Check Controllers
 export const checkUserPermission = async (c: Context) => {
   try {
@@ -2,6 +2,7 @@ import type { Context } from 'hono'
 import { logger } from '../config/logger.js'
 import { HTTPException } from 'hono/http-exception'
 import { UserService } from '../services/user.service.js'
+import { isPasswordPolicyViolation } from '../utils/password-policy.js'
 import type { CreateUser, UpdateUser } from '../schemas/user.js'
 
 const userService = new UserService()
@@ -81,6 +82,9 @@ export const userController = {
         if (error.message === 'Email already in use') {
           throw new HTTPException(409, { message: error.message })
         }
+        if (error.message === 'Current password is incorrect' || isPasswordPolicyViolation(error)) {
+          throw new HTTPException(400, { message: error.message })
+        }
       }
       logger.error({ error }, 'Failed to update user')
       throw new HTTPException(500, { message: 'Failed to update user' })
@@ -104,5 +108,24 @@ export const userController = {
       logger.error({ error }, 'Failed to delete user')
       throw new HTTPException(500, { message: 'Failed to delete user' })
     }
+  },
+
+  async unlockUser(c: Context) {
+    try {
+      const id = c.req.param('id')!
+
+      const result = await userService.unlockUser(id)
+
+      return c.json({
+        success: true,
+        data: result
+      })
+    } catch (error) {
+      if (error instanceof Error && error.message === 'User not found') {
+        throw new HTTPException(404, { message: error.message })
+      }
+      logger.error({ error }, 'Failed to unlock user')
+      throw new HTTPException(500, { message: 'Failed to unlock user' })
+    }
   }
 }
\ No newline at end of file
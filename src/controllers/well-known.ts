@@ -0,0 +1,19 @@
+import type { Context } from 'hono'
+import { HTTPException } from 'hono/http-exception'
+import { logger } from '../config/logger.js'
+import { signingKeyService } from '../services/signing-key.service.js'
+
+export const wellKnownController = {
+  // Served as a bare JWK Set (RFC 7517) so standard JWT libraries can consume it
+  async getJwks(c: Context) {
+    try {
+      const jwks = await signingKeyService.getJwks()
+
+      c.header('Cache-Control', 'public, max-age=300')
+      return c.json(jwks)
+    } catch (error) {
+      logger.error({ error }, 'Failed to get JWKS')
+      throw new HTTPException(500, { message: 'Failed to fetch signing keys' })
+    }
+  }
+}
\ No newline at end of file
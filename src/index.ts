@@ -1,5 +1,6 @@
 import { serve } from '@hono/node-server'
 import { Hono } from 'hono'
+import { contextStorage } from 'hono/context-storage'
 import { env } from './config/env.js'
 import { logger } from './config/logger.js'
 import { createRedisConnection } from './config/redis.js'
@@ -10,11 +11,15 @@ import { rateLimitMiddleware } from './middleware/rate-limit.js'
 import { metricsMiddleware, createMetricsEndpoint } from './middleware/metrics.js'
 import { applySecurity } from './middleware/security.js'
 import { api } from './routes/index.js'
+import { wellKnown } from './routes/well-known.js'
 
 const app = new Hono()
 
 app.onError(errorHandler)
 
+// Lets services read the current request context (actor, client IP, request id)
+app.use('*', contextStorage())
+
 // Apply security middleware first
 const securityEnv = env.NODE_ENV === 'production' ? 'production' : 'development'
 applySecurity(securityEnv).forEach(middleware => {
@@ -33,6 +38,9 @@ if (env.ENABLE_MONITORING) {
 
 app.route(env.API_PREFIX, api)
 
+// Public signing keys live at the conventional root path, outside the API prefix
+app.route('/.well-known', wellKnown)
+
 app.get('/', (c) => {
   return c.json({
     success: true,
@@ -63,6 +71,10 @@ const gracefulShutdown = async () => {
     const { shutdownJobs } = await import('./jobs/index.js')
     await shutdownJobs()
     
+    // Let mail and other work started by requests finish
+    const { settleBackgroundTasks } = await import('./utils/background.js')
+    await settleBackgroundTasks()
+
     // Shutdown SSE service
     const { sseService } = await import('./services/sse.service.js')
     await sseService.shutdown()
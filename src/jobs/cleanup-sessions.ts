@@ -1,8 +1,9 @@
 import { getRedis } from '../config/redis.js'
+import { prisma } from '../config/database.js'
 import { logger } from '../config/logger.js'
 
 /**
- * Clean up expired sessions and blacklisted tokens
+ * Clean up expired sessions, password reset tokens, API keys and blacklisted tokens
  */
 export async function cleanupExpiredSessions(): Promise<void> {
   const redis = getRedis()
@@ -11,22 +12,23 @@ export async function cleanupExpiredSessions(): Promise<void> {
   try {
     logger.info('🧹 Starting session cleanup...')
     
-    // Get all session keys
-    const sessionKeys = await redis.keys('session:*')
+    // Session rows outlive their Redis cache entries, delete them once their refresh token expired
+    const { count: expiredSessions } = await prisma.session.deleteMany({
+      where: { expiresAt: { lt: new Date() } }
+    })
+
+    // Used reset tokens are kept until they would have expired anyway
+    const { count: expiredResetTokens } = await prisma.passwordResetToken.deleteMany({
+      where: { expiresAt: { lt: new Date() } }
+    })
+
+    const { count: expiredApiKeys } = await prisma.apiKey.deleteMany({
+      where: { expiresAt: { lt: new Date() } }
+    })
+
     const blacklistKeys = await redis.keys('blacklist:*')
-    
-    let expiredSessions = 0
     let expiredTokens = 0
     
-    // Check session keys for expiration
-    for (const key of sessionKeys) {
-      const ttl = await redis.ttl(key)
-      if (ttl <= 0) {
-        await redis.del(key)
-        expiredSessions++
-      }
-    }
-    
     // Check blacklisted tokens for expiration
     for (const key of blacklistKeys) {
       const ttl = await redis.ttl(key)
@@ -40,8 +42,9 @@ export async function cleanupExpiredSessions(): Promise<void> {
     
     logger.info({
       expiredSessions,
+      expiredResetTokens,
+      expiredApiKeys,
       expiredTokens,
-      totalSessions: sessionKeys.length,
       totalBlacklisted: blacklistKeys.length,
       duration
     }, '✅ Session cleanup completed')
@@ -0,0 +1,71 @@
+import { logger } from '../config/logger.js'
+import { RBACService } from '../services/rbac.service.js'
+import { notificationService } from '../services/notification.service.js'
+import type { CronJobConfig, CronJobContext, CronJobStatus } from '../services/scheduler.service.js'
+
+const rbacService = new RBACService()
+
+export const expiredRolesCleanupJob: CronJobConfig = {
+  name: 'expired-roles-cleanup',
+  description: 'Purge expired time-bound role assignments and notify affected users',
+  schedule: '*/10 * * * *', // Every 10 minutes
+  timezone: 'UTC',
+  enabled: true,
+
+  async execute(_context: CronJobContext): Promise<CronJobStatus> {
+    const startTime = Date.now()
+    logger.info('Starting expired roles cleanup job')
+
+    try {
+      const purged = await rbacService.purgeExpiredRoleAssignments()
+
+      for (const assignment of purged) {
+        await notificationService.notifyUser(assignment.userId, {
+          type: 'warning',
+          title: 'Role expired',
+          message: `Your temporary '${assignment.role.name}' role has expired`,
+          data: {
+            roleId: assignment.role.id,
+            roleName: assignment.role.name,
+            expiresAt: assignment.expiresAt.toISOString()
+          },
+          priority: 'normal'
+        })
+      }
+
+      const duration = Date.now() - startTime
+
+      logger.info({
+        purgedCount: purged.length,
+        duration
+      }, 'Expired roles cleanup completed successfully')
+
+      return {
+        success: true,
+        message: `Purged ${purged.length} expired role assignments`,
+        duration,
+        metadata: {
+          purgedCount: purged.length,
+          executedAt: new Date().toISOString()
+        }
+      }
+    } catch (error) {
+      const duration = Date.now() - startTime
+
+      logger.error({
+        error,
+        duration
+      }, 'Expired roles cleanup job failed')
+
+      return {
+        success: false,
+        message: `Expired roles cleanup failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        duration,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        metadata: {
+          executedAt: new Date().toISOString()
+        }
+      }
+    }
+  }
+}
\ No newline at end of file
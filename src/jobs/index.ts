@@ -7,6 +7,8 @@ import { generateDailyReport } from './daily-report.js'
 import { healthCheck } from './health-check.js'
 import { cacheWarmup } from './cache-warmup.js'
 import { tokenCleanupJob } from './token-cleanup.js'
+import { expiredRolesCleanupJob } from './expired-roles-cleanup.js'
+import { signingKeyRotationJob } from './signing-key-rotation.js'
 
 /**
  * Initialize and register all cron jobs
@@ -20,7 +22,7 @@ export async function initializeJobs(): Promise<void> {
       name: 'cleanup-expired-sessions',
       schedule: '0 * * * *', // Every hour
       task: cleanupExpiredSessions,
-      description: 'Clean up expired user sessions and blacklisted tokens',
+      description: 'Clean up expired user sessions, password reset tokens, API keys and blacklisted tokens',
       enabled: true
     })
 
@@ -54,6 +56,12 @@ export async function initializeJobs(): Promise<void> {
     // Register token cleanup job - runs every 2 hours
     scheduler.registerJob(tokenCleanupJob)
 
+    // Register expired role assignment cleanup - runs every 10 minutes
+    scheduler.registerJob(expiredRolesCleanupJob)
+
+    // Register JWT signing key rotation - runs daily at 3 AM
+    scheduler.registerJob(signingKeyRotationJob)
+
     // Start all jobs
     scheduler.startJob()
     
@@ -0,0 +1,56 @@
+import { logger } from '../config/logger.js'
+import { signingKeyService } from '../services/signing-key.service.js'
+import type { CronJobConfig, CronJobContext, CronJobStatus } from '../services/scheduler.service.js'
+
+export const signingKeyRotationJob: CronJobConfig = {
+  name: 'signing-key-rotation',
+  description: 'Rotate the JWT signing key when it is due and delete keys that no longer verify any token',
+  schedule: '0 3 * * *', // Daily at 3 AM
+  timezone: 'UTC',
+  enabled: true,
+
+  async execute(_context: CronJobContext): Promise<CronJobStatus> {
+    const startTime = Date.now()
+    logger.info('Starting signing key rotation job')
+
+    try {
+      const result = await signingKeyService.rotateIfDue()
+
+      const duration = Date.now() - startTime
+
+      logger.info({
+        ...result,
+        duration
+      }, 'Signing key rotation completed successfully')
+
+      return {
+        success: true,
+        message: result.rotated
+          ? `Rotated signing key and pruned ${result.prunedCount} expired keys`
+          : `Signing key is current, pruned ${result.prunedCount} expired keys`,
+        duration,
+        metadata: {
+          ...result,
+          executedAt: new Date().toISOString()
+        }
+      }
+    } catch (error) {
+      const duration = Date.now() - startTime
+
+      logger.error({
+        error,
+        duration
+      }, 'Signing key rotation job failed')
+
+      return {
+        success: false,
+        message: `Signing key rotation failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        duration,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        metadata: {
+          executedAt: new Date().toISOString()
+        }
+      }
+    }
+  }
+}
\ No newline at end of file
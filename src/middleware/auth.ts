@@ -2,9 +2,15 @@ import { createMiddleware } from 'hono/factory'
 import { HTTPException } from 'hono/http-exception'
 import { extractTokenFromHeader } from '../utils/auth.js'
 import { tokenService } from '../services/token.service.js'
+import { apiKeyService, API_KEY_PREFIX } from '../services/api-key.service.js'
 import { prisma } from '../config/database.js'
 
-export const authMiddleware = createMiddleware(async (c, next) => {
+interface AuthOptions {
+  // Whether API keys are accepted besides access tokens
+  allowApiKeys: boolean
+}
+
+const createAuthMiddleware = ({ allowApiKeys }: AuthOptions) => createMiddleware(async (c, next) => {
   const authHeader = c.req.header('Authorization')
   const token = extractTokenFromHeader(authHeader)
 
@@ -13,6 +19,25 @@ export const authMiddleware = createMiddleware(async (c, next) => {
   }
 
   try {
+    if (token.startsWith(API_KEY_PREFIX)) {
+      if (!allowApiKeys) {
+        throw new HTTPException(403, { message: 'API keys cannot be used for this endpoint' })
+      }
+
+      const apiKey = await apiKeyService.authenticate(token)
+
+      if (!apiKey) {
+        throw new HTTPException(401, { message: 'Invalid or expired API key' })
+      }
+
+      // Permission checks further down the chain are limited to the key's scopes
+      c.set('user', apiKey.user)
+      c.set('apiKey', { id: apiKey.id, scopes: apiKey.scopes })
+
+      await next()
+      return
+    }
+
     // Use new token service for verification
     const payload = await tokenService.verifyToken(token)
     
@@ -26,6 +51,8 @@ export const authMiddleware = createMiddleware(async (c, next) => {
         id: true,
         email: true,
         name: true,
+        emailVerifiedAt: true,
+        totpEnabledAt: true,
         createdAt: true,
         updatedAt: true
       }
@@ -47,4 +74,10 @@ export const authMiddleware = createMiddleware(async (c, next) => {
     }
     throw new HTTPException(401, { message: 'Invalid or expired token' })
   }
-})
\ No newline at end of file
+})
+
+// Accepts access tokens and API keys
+export const authMiddleware = createAuthMiddleware({ allowApiKeys: true })
+
+// Accepts access tokens only, for managing the account itself: its sessions, password, two-factor authentication and API keys
+export const sessionAuthMiddleware = createAuthMiddleware({ allowApiKeys: false })
\ No newline at end of file
@@ -6,12 +6,16 @@ export const loggerMiddleware = createMiddleware(async (c, next) => {
   const method = c.req.method
   const path = c.req.path
   const userAgent = c.req.header('user-agent') || ''
+  const requestId = crypto.randomUUID()
+
+  // Exposed to handlers and services, e.g. for audit entries
+  c.set('requestId', requestId)
 
   logger.info({
     method,
     path,
     userAgent,
-    requestId: crypto.randomUUID()
+    requestId
   }, 'Incoming request')
 
   await next()
@@ -1,9 +1,60 @@
+import type { Context } from 'hono'
 import { createMiddleware } from 'hono/factory'
 import { HTTPException } from 'hono/http-exception'
 import { RBACService } from '../services/rbac.service.js'
+import { matchesPermission, WILDCARD } from '../utils/permissions.js'
+import { scopesAllow } from '../services/api-key.service.js'
 
 const rbacService = new RBACService()
 
+// Requests made with an API key only get permissions its scopes cover
+const scopeAllows = (c: Context, resource: string, action: string): boolean => {
+  const apiKey = c.get('apiKey')
+  return !apiKey || scopesAllow(apiKey.scopes, resource, action)
+}
+
+// Roles grant more than scopes can describe, so only API keys scoped to everything pass role checks
+const assertRoleChecksAllowed = (c: Context) => {
+  if (!scopeAllows(c, WILDCARD, WILDCARD)) {
+    throw new HTTPException(403, { message: 'API key scopes do not cover role-restricted endpoints' })
+  }
+}
+
+/**
+ * Whether the signed-in caller may perform `action` on `resource`: their roles must grant it
+ * and, for requests made with an API key, its scopes must cover it. For checks made inside
+ * handlers, such as what a listing may include.
+ */
+export const checkPermission = async (
+  c: Context,
+  resource: string,
+  action: string,
+  resourceAttributes?: Record<string, unknown>
+): Promise<boolean> => {
+  const user = c.get('user')
+  const result = await rbacService.checkUserPermission(user.id, { resource, action, resourceAttributes }, user)
+  return result.hasPermission && scopeAllows(c, resource, action)
+}
+
+export type ResourceLoader = (c: Context) => Promise<Record<string, unknown> | null>
+
+/**
+ * Load the targeted resource so conditional permissions checked further down the chain
+ * can evaluate `resource.*` attributes. A loader returning `null` means the resource does not exist.
+ */
+export const loadResourceAttributes = (loadResource: ResourceLoader) => {
+  return createMiddleware(async (c, next) => {
+    const attributes = await loadResource(c)
+
+    if (attributes === null) {
+      throw new HTTPException(404, { message: 'Resource not found' })
+    }
+
+    c.set('resourceAttributes', attributes)
+    await next()
+  })
+}
+
 export const requirePermission = (resource: string, action: string) => {
   return createMiddleware(async (c, next) => {
     const user = c.get('user')
@@ -13,14 +64,70 @@ export const requirePermission = (resource: string, action: string) => {
     }
 
     try {
-      const result = await rbacService.checkUserPermission(user.id, { resource, action })
+      if (!(await checkPermission(c, resource, action, c.get('resourceAttributes')))) {
+        throw new HTTPException(403, { 
+          message: `Permission denied: ${action} on ${resource}` 
+        })
+      }
+
+      await next()
+    } catch (error) {
+      if (error instanceof HTTPException) {
+        throw error
+      }
+      throw new HTTPException(500, { message: 'Failed to check permissions' })
+    }
+  })
+}
+
+export type OwnerResolver = (c: Context) => Promise<string | null>
+
+/**
+ * Grant access when the caller holds `resource:action`, or holds `resource:ownAction`
+ * (defaults to `action_own`) and `resolveOwnerId` reports them as the owner of the
+ * targeted resource. A resolver returning `null` means the resource does not exist.
+ */
+export const requireOwnershipOrPermission = (
+  resource: string,
+  action: string,
+  resolveOwnerId: OwnerResolver,
+  ownAction: string = `${action}_own`
+) => {
+  return createMiddleware(async (c, next) => {
+    const user = c.get('user')
+    
+    if (!user) {
+      throw new HTTPException(401, { message: 'Authentication required' })
+    }
+
+    try {
+      const resourceAttributes = c.get('resourceAttributes')
       
-      if (!result.hasPermission) {
+      if (await checkPermission(c, resource, action, resourceAttributes)) {
+        c.set('permissionScope', 'any')
+        await next()
+        return
+      }
+
+      if (!(await checkPermission(c, resource, ownAction, resourceAttributes))) {
         throw new HTTPException(403, { 
           message: `Permission denied: ${action} on ${resource}` 
         })
       }
 
+      const ownerId = await resolveOwnerId(c)
+      
+      if (ownerId === null) {
+        throw new HTTPException(404, { message: 'Resource not found' })
+      }
+
+      if (ownerId !== user.id) {
+        throw new HTTPException(403, { 
+          message: `Permission denied: ${action} on ${resource}` 
+        })
+      }
+
+      c.set('permissionScope', 'own')
       await next()
     } catch (error) {
       if (error instanceof HTTPException) {
@@ -39,6 +146,8 @@ export const requireRole = (roleName: string) => {
       throw new HTTPException(401, { message: 'Authentication required' })
     }
 
+    assertRoleChecksAllowed(c)
+
     try {
       const roles = await rbacService.getUserRoles(user.id)
       const hasRole = roles.some(role => role.name === roleName)
@@ -67,6 +176,8 @@ export const requireAnyRole = (...roleNames: string[]) => {
       throw new HTTPException(401, { message: 'Authentication required' })
     }
 
+    assertRoleChecksAllowed(c)
+
     try {
       const roles = await rbacService.getUserRoles(user.id)
       const hasAnyRole = roles.some(role => roleNames.includes(role.name))
@@ -95,6 +206,8 @@ export const requireAllRoles = (...roleNames: string[]) => {
       throw new HTTPException(401, { message: 'Authentication required' })
     }
 
+    assertRoleChecksAllowed(c)
+
     try {
       const roles = await rbacService.getUserRoles(user.id)
       const userRoleNames = roles.map(role => role.name)
@@ -152,10 +265,11 @@ export const requirePermissions = createMiddleware(async (c, next) => {
   }
 })
 
-// Helper function to check if user has permission
+// Helper function to check if user has permission (understands `*` and prefix patterns).
+// Conditional permissions are skipped since there is no resource to evaluate them against.
 export const hasPermission = (permissions: unknown[], resource: string, action: string): boolean => {
   return permissions.some((permission: any) => 
-    permission.resource === resource && permission.action === action
+    !permission.condition && matchesPermission(permission, resource, action)
   )
 }
 
@@ -0,0 +1,15 @@
+import { Hono } from 'hono'
+import { zValidator } from '@hono/zod-validator'
+import { auditController } from '../controllers/audit.js'
+import { AuditLogsQuery } from '../schemas/audit.js'
+import { authMiddleware } from '../middleware/auth.js'
+import { requirePermission } from '../middleware/rbac.js'
+
+const audit = new Hono()
+
+// Audit entries are only visible to callers holding audit:read
+audit.use('*', authMiddleware)
+
+audit.get('/', requirePermission('audit', 'read'), zValidator('query', AuditLogsQuery), auditController.getAuditLogs)
+
+export { audit }
\ No newline at end of file
@@ -1,24 +1,69 @@
 import { Hono } from 'hono'
 import { zValidator } from '@hono/zod-validator'
 import { authController } from '../controllers/auth.js'
-import { registerSchema, loginSchema, refreshTokenSchema } from '../schemas/auth.js'
-import { authMiddleware } from '../middleware/auth.js'
+import {
+  registerSchema,
+  loginSchema,
+  refreshTokenSchema,
+  updateSessionSchema,
+  verifyEmailSchema,
+  resendVerificationSchema,
+  forgotPasswordSchema,
+  resetPasswordSchema,
+  changePasswordSchema,
+  mfaCodeSchema,
+  mfaTokenSchema,
+  verifyMfaLoginSchema,
+  oauthAuthorizeSchema,
+  oauthCallbackSchema,
+  magicLinkSchema,
+  verifyMagicLinkSchema,
+  createApiKeySchema
+} from '../schemas/auth.js'
+import { authMiddleware, sessionAuthMiddleware } from '../middleware/auth.js'
 
 const auth = new Hono()
 
 // Public endpoints
 auth.post('/register', zValidator('json', registerSchema), authController.register)
 auth.post('/login', zValidator('json', loginSchema), authController.login)
+auth.post('/login/mfa', zValidator('json', verifyMfaLoginSchema), authController.verifyMfaLogin)
+auth.post('/login/mfa/setup', zValidator('json', mfaTokenSchema), authController.setupMfaLogin)
 auth.post('/refresh', zValidator('json', refreshTokenSchema), authController.refreshToken)
+auth.post('/verify-email', zValidator('json', verifyEmailSchema), authController.verifyEmail)
+auth.post('/verify-email/resend', zValidator('json', resendVerificationSchema), authController.resendVerificationEmail)
+auth.post('/password/forgot', zValidator('json', forgotPasswordSchema), authController.forgotPassword)
+auth.post('/password/reset', zValidator('json', resetPasswordSchema), authController.resetPassword)
+auth.post('/magic-link', zValidator('json', magicLinkSchema), authController.requestMagicLink)
+auth.post('/magic-link/verify', zValidator('json', verifyMagicLinkSchema), authController.verifyMagicLink)
 
-// Protected endpoints
+// Login at an external identity provider
+auth.get('/oauth/providers', authController.getOAuthProviders)
+auth.post('/oauth/:provider/authorize', zValidator('json', oauthAuthorizeSchema), authController.startOAuthLogin)
+auth.post('/oauth/:provider/callback', zValidator('json', oauthCallbackSchema), authController.finishOAuthLogin)
+
+// Protected endpoints; the current user's own details are open to API keys, managing the account is not
 auth.get('/me', authMiddleware, authController.me)
 auth.get('/me/with-roles', authMiddleware, authController.meWithRoles)
-auth.post('/logout', authMiddleware, authController.logout)
-auth.post('/logout-all', authMiddleware, authController.logoutAll)
+auth.post('/logout', sessionAuthMiddleware, authController.logout)
+auth.post('/logout-all', sessionAuthMiddleware, authController.logoutAll)
+auth.post('/logout-others', sessionAuthMiddleware, authController.logoutOthers)
+auth.post('/password/change', sessionAuthMiddleware, zValidator('json', changePasswordSchema), authController.changePassword)
 
 // Session management
-auth.get('/sessions', authMiddleware, authController.getSessions)
-auth.delete('/sessions/:sessionId', authMiddleware, authController.revokeSession)
+auth.get('/sessions', sessionAuthMiddleware, authController.getSessions)
+auth.patch('/sessions/:sessionId', sessionAuthMiddleware, zValidator('json', updateSessionSchema), authController.renameSession)
+auth.delete('/sessions/:sessionId', sessionAuthMiddleware, authController.revokeSession)
+
+// Two-factor authentication
+auth.post('/mfa/totp/setup', sessionAuthMiddleware, authController.setupTotp)
+auth.post('/mfa/totp/confirm', sessionAuthMiddleware, zValidator('json', mfaCodeSchema), authController.confirmTotp)
+auth.post('/mfa/totp/disable', sessionAuthMiddleware, zValidator('json', mfaCodeSchema), authController.disableTotp)
+auth.post('/mfa/recovery-codes', sessionAuthMiddleware, zValidator('json', mfaCodeSchema), authController.regenerateRecoveryCodes)
+
+// API keys
+auth.get('/api-keys', sessionAuthMiddleware, authController.getApiKeys)
+auth.post('/api-keys', sessionAuthMiddleware, zValidator('json', createApiKeySchema), authController.createApiKey)
+auth.delete('/api-keys/:id', sessionAuthMiddleware, authController.revokeApiKey)
 
 export { auth }
\ No newline at end of file
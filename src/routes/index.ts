@@ -1,10 +1,12 @@
 import { Hono } from 'hono'
 import { health } from './health.js'
 import { users } from './users.js'
+import { posts } from './posts.js'
 import { auth } from './auth.js'
 import rbac from './rbac.js'
 import scheduler from './scheduler.js'
 import sse from './sse.js'
+import { audit } from './audit.js'
 import { env } from '../config/env.js'
 
 const api = new Hono()
@@ -12,9 +14,11 @@ const api = new Hono()
 api.route('/', health)
 api.route('/auth', auth)
 api.route('/users', users)
+api.route('/posts', posts)
 api.route('/rbac', rbac)
 api.route('/scheduler', scheduler)
 api.route('/sse', sse)
+api.route('/audit', audit)
 
 api.get('/', (c) => {
   return c.json({
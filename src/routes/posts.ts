@@ -0,0 +1,30 @@
+import { Hono } from 'hono'
+import { zValidator } from '@hono/zod-validator'
+import { postController, loadPostAttributes, resolvePostAuthorId } from '../controllers/post.js'
+import { CreatePostSchema, UpdatePostSchema, PostsQuery } from '../schemas/post.js'
+import { IdParam } from '../schemas/common.js'
+import { authMiddleware } from '../middleware/auth.js'
+import { requirePermission, requireOwnershipOrPermission, loadResourceAttributes } from '../middleware/rbac.js'
+
+const posts = new Hono()
+
+// Authentication required for all post endpoints
+posts.use('*', authMiddleware)
+
+posts.get('/', requirePermission('posts', 'read'), zValidator('query', PostsQuery), postController.getPosts)
+posts.get('/:id', requirePermission('posts', 'read'), zValidator('param', IdParam), postController.getPostById)
+posts.post('/', requirePermission('posts', 'create'), zValidator('json', CreatePostSchema), postController.createPost)
+
+// Mutations accept either the unrestricted action or its `_own` variant on the caller's posts.
+// The post is loaded first so conditional permissions can inspect it; posts the caller may not
+// read are reported missing, so a 403 never confirms that someone else's draft exists.
+const loadPost = loadResourceAttributes(loadPostAttributes)
+const canUpdatePost = requireOwnershipOrPermission('posts', 'update', resolvePostAuthorId)
+const canDeletePost = requireOwnershipOrPermission('posts', 'delete', resolvePostAuthorId)
+
+posts.put('/:id', zValidator('param', IdParam), loadPost, canUpdatePost, zValidator('json', UpdatePostSchema), postController.updatePost)
+posts.post('/:id/publish', zValidator('param', IdParam), loadPost, canUpdatePost, postController.publishPost)
+posts.post('/:id/unpublish', zValidator('param', IdParam), loadPost, canUpdatePost, postController.unpublishPost)
+posts.delete('/:id', zValidator('param', IdParam), loadPost, canDeletePost, postController.deletePost)
+
+export { posts }
\ No newline at end of file
@@ -17,6 +17,11 @@ import {
   getUserRoles,
   assignPermissionToRole,
   unassignPermissionFromRole,
+  setRoleParents,
+  getRoleParents,
+  getRoleEffectivePermissions,
+  exportPolicy,
+  applyPolicy,
   checkUserPermission,
   getUserPermissions,
   getCurrentUserRoles,
@@ -51,6 +56,15 @@ rbac.get('/users/:userId/roles', requirePermission('users', 'read'), getUserRole
 rbac.post('/roles/:roleId/permissions', requireRole('admin'), assignPermissionToRole)
 rbac.delete('/roles/:roleId/permissions', requireRole('admin'), unassignPermissionFromRole)
 
+// Role inheritance routes
+rbac.get('/roles/:roleId/parents', requirePermission('rbac', 'read'), getRoleParents)
+rbac.put('/roles/:roleId/parents', requireRole('admin'), setRoleParents)
+rbac.get('/roles/:roleId/effective-permissions', requirePermission('rbac', 'read'), getRoleEffectivePermissions)
+
+// Policy file routes (Admin only)
+rbac.get('/policy', requireRole('admin'), exportPolicy)
+rbac.post('/policy/apply', requireRole('admin'), applyPolicy)
+
 // Permission checking routes
 rbac.post('/users/:userId/check-permission', requirePermission('users', 'read'), checkUserPermission)
 rbac.get('/users/:userId/permissions', requirePermission('users', 'read'), getUserPermissions)
@@ -1,15 +1,25 @@
 import { Hono } from 'hono'
+import type { Context } from 'hono'
 import { zValidator } from '@hono/zod-validator'
 import { userController } from '../controllers/user.js'
 import { CreateUserSchema, UpdateUserSchema } from '../schemas/user.js'
 import { IdParam, PaginationQuery } from '../schemas/common.js'
+import { authMiddleware } from '../middleware/auth.js'
+import { requirePermission, requireOwnershipOrPermission } from '../middleware/rbac.js'
 
 const users = new Hono()
 
-users.get('/', zValidator('query', PaginationQuery), userController.getUsers)
-users.get('/:id', zValidator('param', IdParam), userController.getUserById)
-users.post('/', zValidator('json', CreateUserSchema), userController.createUser)
-users.put('/:id', zValidator('param', IdParam), zValidator('json', UpdateUserSchema), userController.updateUser)
-users.delete('/:id', zValidator('param', IdParam), userController.deleteUser)
+// Authentication required for all user endpoints
+users.use('*', authMiddleware)
 
-export { users }
\ No newline at end of file
+// A user profile is owned by the user it describes
+const resolveProfileOwner = async (c: Context) => c.req.param('id') ?? null
+
+users.get('/', requirePermission('users', 'read'), zValidator('query', PaginationQuery), userController.getUsers)
+users.get('/:id', zValidator('param', IdParam), requireOwnershipOrPermission('users', 'read', resolveProfileOwner), userController.getUserById)
+users.post('/', requirePermission('users', 'manage'), zValidator('json', CreateUserSchema), userController.createUser)
+users.put('/:id', zValidator('param', IdParam), requireOwnershipOrPermission('users', 'manage', resolveProfileOwner, 'update_own'), zValidator('json', UpdateUserSchema), userController.updateUser)
+users.delete('/:id', zValidator('param', IdParam), requirePermission('users', 'manage'), userController.deleteUser)
+users.post('/:id/unlock', zValidator('param', IdParam), requirePermission('users', 'manage'), userController.unlockUser)
+
+export { users }
@@ -0,0 +1,8 @@
+import { Hono } from 'hono'
+import { wellKnownController } from '../controllers/well-known.js'
+
+const wellKnown = new Hono()
+
+wellKnown.get('/jwks.json', wellKnownController.getJwks)
+
+export { wellKnown }
\ No newline at end of file
@@ -0,0 +1,28 @@
+import { z } from 'zod'
+import { PaginationQuery } from './common.js'
+
+export const AuditLogsQuery = PaginationQuery.extend({
+  order: z.enum(['asc', 'desc']).default('desc'),
+  actorId: z.string().uuid().optional(),
+  action: z.string().min(1).optional(),
+  targetType: z.string().min(1).optional(),
+  targetId: z.string().min(1).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional()
+})
+
+export const AuditLogSchema = z.object({
+  id: z.string().uuid(),
+  actorId: z.string().nullable(),
+  action: z.string(),
+  targetType: z.string(),
+  targetId: z.string().nullable(),
+  changes: z.record(z.object({ before: z.unknown(), after: z.unknown() })).nullable(),
+  metadata: z.record(z.unknown()).nullable(),
+  ip: z.string().nullable(),
+  requestId: z.string().nullable(),
+  createdAt: z.date()
+})
+
+export type AuditLogsQueryParams = z.infer<typeof AuditLogsQuery>
+export type AuditLog = z.infer<typeof AuditLogSchema>
\ No newline at end of file
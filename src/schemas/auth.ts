@@ -1,20 +1,119 @@
 import { z } from 'zod'
+import { env } from '../config/env.js'
+import { PasswordField, refinePasswordOwner } from './common.js'
 
 export const registerSchema = z.object({
   name: z.string().min(1, 'Name is required').max(255),
   email: z.string().email('Invalid email format'),
-  password: z.string().min(6, 'Password must be at least 6 characters')
-})
+  password: PasswordField
+}).superRefine(refinePasswordOwner)
 
 export const loginSchema = z.object({
   email: z.string().email('Invalid email format'),
-  password: z.string().min(1, 'Password is required')
+  password: z.string().min(1, 'Password is required'),
+  // Client the tokens are issued to; must be one of JWT_AUDIENCES
+  audience: z.string()
+    .refine(audience => env.JWT_AUDIENCES.includes(audience), 'Unknown audience')
+    .optional(),
+  rememberMe: z.boolean().optional(),
+  deviceName: z.string().trim().min(1).max(100).optional()
 })
 
 export const refreshTokenSchema = z.object({
   refreshToken: z.string().min(1, 'Refresh token is required')
 })
 
+export const updateSessionSchema = z.object({
+  deviceName: z.string().trim().min(1, 'Device name is required').max(100)
+})
+
+export const verifyEmailSchema = z.object({
+  token: z.string().min(1, 'Verification token is required')
+})
+
+export const resendVerificationSchema = z.object({
+  email: z.string().email('Invalid email format')
+})
+
+export const forgotPasswordSchema = z.object({
+  email: z.string().email('Invalid email format')
+})
+
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1, 'Reset token is required'),
+  password: PasswordField
+})
+
+export const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, 'Current password is required'),
+  newPassword: PasswordField
+}).refine(data => data.newPassword !== data.currentPassword, {
+  message: 'New password must differ from the current password',
+  path: ['newPassword']
+})
+
+// A code from the authenticator app or a recovery code
+const mfaCode = z.string().trim().min(1, 'Code is required').max(20)
+
+export const mfaCodeSchema = z.object({
+  code: mfaCode
+})
+
+export const mfaTokenSchema = z.object({
+  mfaToken: z.string().min(1, 'MFA token is required')
+})
+
+export const verifyMfaLoginSchema = mfaTokenSchema.extend({
+  code: mfaCode
+})
+
+// Login options for a login at an external identity provider, which are applied once the user returns
+export const oauthAuthorizeSchema = loginSchema.pick({
+  audience: true,
+  rememberMe: true,
+  deviceName: true
+})
+
+export const oauthCallbackSchema = z.object({
+  code: z.string().min(1, 'Authorization code is required'),
+  state: z.string().min(1, 'State is required'),
+  stateVerifier: z.string().min(1, 'State verifier is required')
+})
+
+// Login options for a magic link login, which are applied once the link is opened
+export const magicLinkSchema = loginSchema.pick({
+  email: true,
+  audience: true,
+  rememberMe: true,
+  deviceName: true
+})
+
+export const verifyMagicLinkSchema = z.object({
+  token: z.string().min(1, 'Magic link token is required')
+})
+
+export const createApiKeySchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  // Permissions the key is limited to, such as "posts:read" or "sse:channel:news:send"; each must be one the user holds.
+  // Resources may contain colons themselves, so the action is what follows the last one.
+  scopes: z.array(z.string().regex(/^[\w*:-]+:[\w*-]+$/, 'Scopes look like resource:action')).min(1).max(50),
+  expiresInDays: z.number().int().min(1).max(env.API_KEY_MAX_LIFETIME_DAYS).default(90)
+})
+
 export type RegisterUser = z.infer<typeof registerSchema>
 export type LoginUser = z.infer<typeof loginSchema>
-export type RefreshToken = z.infer<typeof refreshTokenSchema>
\ No newline at end of file
+export type RefreshToken = z.infer<typeof refreshTokenSchema>
+export type UpdateSession = z.infer<typeof updateSessionSchema>
+export type VerifyEmail = z.infer<typeof verifyEmailSchema>
+export type ResendVerification = z.infer<typeof resendVerificationSchema>
+export type ForgotPassword = z.infer<typeof forgotPasswordSchema>
+export type ResetPassword = z.infer<typeof resetPasswordSchema>
+export type ChangePassword = z.infer<typeof changePasswordSchema>
+export type MfaCode = z.infer<typeof mfaCodeSchema>
+export type MfaToken = z.infer<typeof mfaTokenSchema>
+export type VerifyMfaLogin = z.infer<typeof verifyMfaLoginSchema>
+export type OAuthAuthorize = z.infer<typeof oauthAuthorizeSchema>
+export type OAuthCallback = z.infer<typeof oauthCallbackSchema>
+export type MagicLink = z.infer<typeof magicLinkSchema>
+export type VerifyMagicLink = z.infer<typeof verifyMagicLinkSchema>
+export type CreateApiKey = z.infer<typeof createApiKeySchema>
\ No newline at end of file
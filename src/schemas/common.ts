@@ -1,4 +1,10 @@
 import { z } from 'zod'
+import {
+  getPasswordPolicyViolations,
+  passwordContainsOwner,
+  PASSWORD_CONTAINS_OWNER_MESSAGE,
+  type PasswordOwner
+} from '../utils/password-policy.js'
 
 export const ApiResponse = <T extends z.ZodType>(dataSchema: T) =>
   z.object({
@@ -37,4 +43,22 @@ export const PaginatedResponse = <T extends z.ZodType>(itemSchema: T) =>
 
 export const IdParam = z.object({
   id: z.string().uuid()
-})
\ No newline at end of file
+})
+
+/**
+ * A new password, checked against the password policy
+ */
+export const PasswordField = z.string().superRefine((password, ctx) => {
+  for (const message of getPasswordPolicyViolations(password)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message })
+  }
+})
+
+/**
+ * Reject a new password that contains the name or email address sent along with it
+ */
+export const refinePasswordOwner = (data: PasswordOwner & { password?: string }, ctx: z.RefinementCtx) => {
+  if (data.password && passwordContainsOwner(data.password, data)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: PASSWORD_CONTAINS_OWNER_MESSAGE, path: ['password'] })
+  }
+}
\ No newline at end of file
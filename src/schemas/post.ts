@@ -0,0 +1,34 @@
+import { z } from 'zod'
+import { PaginationQuery } from './common.js'
+
+export const CreatePostSchema = z.object({
+  title: z.string().min(1, 'Title is required').max(255),
+  content: z.string().max(50000).optional(),
+  published: z.boolean().default(false)
+})
+
+export const UpdatePostSchema = z.object({
+  title: z.string().min(1, 'Title is required').max(255).optional(),
+  content: z.string().max(50000).nullable().optional()
+})
+
+export const PostsQuery = PaginationQuery.extend({
+  order: z.enum(['asc', 'desc']).default('desc'),
+  authorId: z.string().uuid().optional(),
+  published: z.enum(['true', 'false']).transform(val => val === 'true').optional()
+})
+
+export const PostSchema = z.object({
+  id: z.string().uuid(),
+  title: z.string(),
+  content: z.string().nullable(),
+  published: z.boolean(),
+  authorId: z.string().uuid(),
+  createdAt: z.date(),
+  updatedAt: z.date()
+})
+
+export type CreatePost = z.infer<typeof CreatePostSchema>
+export type UpdatePost = z.infer<typeof UpdatePostSchema>
+export type PostsQueryParams = z.infer<typeof PostsQuery>
+export type Post = z.infer<typeof PostSchema>
\ No newline at end of file
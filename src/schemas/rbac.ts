@@ -1,20 +1,57 @@
+import { isDeepStrictEqual } from 'node:util'
 import { z } from 'zod'
+import { isValidPermissionPattern } from '../utils/permissions.js'
+import { CONDITION_OPERATORS, type PolicyCondition } from '../utils/conditions.js'
+
+const wildcardMessage = "'*' is only allowed as the last character"
+
+// Policy condition schemas
+const attributePath = z.string().regex(
+  /^(user|resource)(\.[A-Za-z_][A-Za-z0-9_]*)+$/,
+  "Attributes must start with 'user.' or 'resource.'"
+)
+
+const literalValue = z.union([z.string(), z.number(), z.boolean(), z.null()])
+
+const attributeConditionSchema = z.object({
+  attr: attributePath,
+  op: z.enum(CONDITION_OPERATORS),
+  value: z.union([z.object({ ref: attributePath }).strict(), literalValue, z.array(literalValue)]).optional()
+}).strict()
+  .refine(
+    condition => !['in', 'nin'].includes(condition.op) || Array.isArray(condition.value),
+    "'in' and 'nin' expect an array value"
+  )
+  .refine(
+    condition => condition.op !== 'exists' || condition.value === undefined || typeof condition.value === 'boolean',
+    "'exists' expects a boolean value"
+  )
+
+export const policyConditionSchema: z.ZodType<PolicyCondition> = z.lazy(() => z.union([
+  z.object({ all: z.array(policyConditionSchema).min(1) }).strict(),
+  z.object({ any: z.array(policyConditionSchema).min(1) }).strict(),
+  z.object({ not: policyConditionSchema }).strict(),
+  attributeConditionSchema
+]))
 
 // Role schemas
 export const createRoleSchema = z.object({
   name: z.string().min(1, 'Role name is required').max(50, 'Role name too long'),
-  description: z.string().optional()
+  description: z.string().optional(),
+  requireMfa: z.boolean().optional()
 })
 
 export const updateRoleSchema = z.object({
   name: z.string().min(1, 'Role name is required').max(50, 'Role name too long').optional(),
-  description: z.string().optional()
+  description: z.string().optional(),
+  requireMfa: z.boolean().optional()
 })
 
 export const roleResponseSchema = z.object({
   id: z.string().uuid(),
   name: z.string(),
   description: z.string().nullable(),
+  requireMfa: z.boolean(),
   createdAt: z.date(),
   updatedAt: z.date(),
   permissions: z.array(z.object({
@@ -29,16 +66,18 @@ export const roleResponseSchema = z.object({
 // Permission schemas
 export const createPermissionSchema = z.object({
   name: z.string().min(1, 'Permission name is required').max(100, 'Permission name too long'),
-  resource: z.string().min(1, 'Resource is required').max(50, 'Resource name too long'),
-  action: z.string().min(1, 'Action is required').max(50, 'Action name too long'),
-  description: z.string().optional()
+  resource: z.string().min(1, 'Resource is required').max(50, 'Resource name too long').refine(isValidPermissionPattern, wildcardMessage),
+  action: z.string().min(1, 'Action is required').max(50, 'Action name too long').refine(isValidPermissionPattern, wildcardMessage),
+  description: z.string().optional(),
+  condition: policyConditionSchema.optional()
 })
 
 export const updatePermissionSchema = z.object({
   name: z.string().min(1, 'Permission name is required').max(100, 'Permission name too long').optional(),
-  resource: z.string().min(1, 'Resource is required').max(50, 'Resource name too long').optional(),
-  action: z.string().min(1, 'Action is required').max(50, 'Action name too long').optional(),
-  description: z.string().optional()
+  resource: z.string().min(1, 'Resource is required').max(50, 'Resource name too long').refine(isValidPermissionPattern, wildcardMessage).optional(),
+  action: z.string().min(1, 'Action is required').max(50, 'Action name too long').refine(isValidPermissionPattern, wildcardMessage).optional(),
+  description: z.string().optional(),
+  condition: policyConditionSchema.nullable().optional()
 })
 
 export const permissionResponseSchema = z.object({
@@ -47,13 +86,17 @@ export const permissionResponseSchema = z.object({
   resource: z.string(),
   action: z.string(),
   description: z.string().nullable(),
+  condition: policyConditionSchema.nullable(),
   createdAt: z.date(),
   updatedAt: z.date()
 })
 
 // User role assignment schemas
 export const assignRoleSchema = z.object({
-  roleId: z.string().uuid('Invalid role ID')
+  roleId: z.string().uuid('Invalid role ID'),
+  expiresAt: z.coerce.date()
+    .refine(date => date.getTime() > Date.now(), 'Expiry must be in the future')
+    .optional()
 })
 
 export const unassignRoleSchema = z.object({
@@ -69,10 +112,85 @@ export const unassignPermissionFromRoleSchema = z.object({
   permissionId: z.string().uuid('Invalid permission ID')
 })
 
+// Role inheritance schemas
+export const setRoleParentsSchema = z.object({
+  parentIds: z.array(z.string().uuid('Invalid role ID')).max(20, 'Too many parent roles')
+})
+
 // Permission check schema
 export const checkPermissionSchema = z.object({
   resource: z.string().min(1, 'Resource is required'),
-  action: z.string().min(1, 'Action is required')
+  action: z.string().min(1, 'Action is required'),
+  resourceAttributes: z.record(z.unknown()).optional(),
+  explain: z.boolean().optional()
+})
+
+// Policy file schemas
+export const policyRoleSchema = z.object({
+  name: z.string().min(1, 'Role name is required').max(50, 'Role name too long'),
+  description: z.string().optional(),
+  requireMfa: z.boolean().optional(),
+  parents: z.array(z.string()).default([]),
+  permissions: z.array(z.string()).default([])
+})
+
+export const rbacPolicySchema = z.object({
+  version: z.literal(1),
+  permissions: z.array(createPermissionSchema).default([]),
+  roles: z.array(policyRoleSchema).default([])
+}).superRefine((policy, ctx) => {
+  const issue = (message: string) => ctx.addIssue({ code: z.ZodIssueCode.custom, message })
+  const permissionNames = new Set<string>()
+  const roleNames = new Set<string>()
+
+  policy.permissions.forEach((permission, index) => {
+    if (permissionNames.has(permission.name)) {
+      issue(`Duplicate permission: ${permission.name}`)
+    }
+    permissionNames.add(permission.name)
+
+    const duplicate = policy.permissions.slice(0, index).find(other =>
+      other.resource === permission.resource &&
+      other.action === permission.action &&
+      isDeepStrictEqual(other.condition ?? null, permission.condition ?? null)
+    )
+    if (duplicate) {
+      issue(`Permissions ${duplicate.name} and ${permission.name} have the same resource, action and condition`)
+    }
+  })
+
+  for (const role of policy.roles) {
+    if (roleNames.has(role.name)) {
+      issue(`Duplicate role: ${role.name}`)
+    }
+    roleNames.add(role.name)
+  }
+
+  for (const role of policy.roles) {
+    role.permissions.filter(name => !permissionNames.has(name)).forEach(name => {
+      issue(`Role ${role.name} references unknown permission: ${name}`)
+    })
+    role.parents.filter(name => !roleNames.has(name)).forEach(name => {
+      issue(`Role ${role.name} references unknown parent role: ${name}`)
+    })
+  }
+
+  // Depth-first walk over parent links; revisiting a role on the current path is a cycle
+  const parentsByRole = new Map(policy.roles.map(role => [role.name, role.parents]))
+  const done = new Set<string>()
+  const visit = (name: string, path: string[]): boolean => {
+    if (path.includes(name)) {
+      issue(`Role inheritance cycle detected: ${[...path, name].join(' -> ')}`)
+      return false
+    }
+    if (done.has(name)) {
+      return true
+    }
+    const acyclic = (parentsByRole.get(name) ?? []).every(parent => visit(parent, [...path, name]))
+    done.add(name)
+    return acyclic
+  }
+  policy.roles.every(role => visit(role.name, []))
 })
 
 // Query schemas
@@ -88,6 +206,15 @@ export const permissionsQuerySchema = z.object({
   resource: z.string().optional()
 })
 
+export const exportPolicyQuerySchema = z.object({
+  format: z.enum(['json', 'yaml']).optional().default('json')
+})
+
+export const applyPolicyQuerySchema = z.object({
+  dryRun: z.string().transform(val => val === 'true').pipe(z.boolean()).optional().default('false'),
+  prune: z.string().transform(val => val === 'true').pipe(z.boolean()).optional().default('false')
+})
+
 // Type exports
 export type CreateRoleRequest = z.infer<typeof createRoleSchema>
 export type UpdateRoleRequest = z.infer<typeof updateRoleSchema>
@@ -99,6 +226,11 @@ export type AssignRoleRequest = z.infer<typeof assignRoleSchema>
 export type UnassignRoleRequest = z.infer<typeof unassignRoleSchema>
 export type AssignPermissionToRoleRequest = z.infer<typeof assignPermissionToRoleSchema>
 export type UnassignPermissionFromRoleRequest = z.infer<typeof unassignPermissionFromRoleSchema>
+export type SetRoleParentsRequest = z.infer<typeof setRoleParentsSchema>
 export type CheckPermissionRequest = z.infer<typeof checkPermissionSchema>
+export type PolicyRole = z.infer<typeof policyRoleSchema>
+export type RBACPolicy = z.infer<typeof rbacPolicySchema>
 export type RolesQuery = z.infer<typeof rolesQuerySchema>
-export type PermissionsQuery = z.infer<typeof permissionsQuerySchema>
\ No newline at end of file
+export type PermissionsQuery = z.infer<typeof permissionsQuerySchema>
+export type ExportPolicyQuery = z.infer<typeof exportPolicyQuerySchema>
+export type ApplyPolicyQuery = z.infer<typeof applyPolicyQuerySchema>
\ No newline at end of file
@@ -1,15 +1,21 @@
 import { z } from 'zod'
+import { PasswordField, refinePasswordOwner } from './common.js'
 
 export const CreateUserSchema = z.object({
   email: z.string().email(),
   name: z.string().min(1).max(100),
-  password: z.string().min(8).max(100)
-})
+  password: PasswordField
+}).superRefine(refinePasswordOwner)
 
 export const UpdateUserSchema = z.object({
   email: z.string().email().optional(),
   name: z.string().min(1).max(100).optional(),
-  password: z.string().min(8).max(100).optional()
+  password: PasswordField.optional(),
+  // Required with a new password, so a stolen session or an admin cannot take over the account
+  currentPassword: z.string().min(1).optional()
+}).superRefine(refinePasswordOwner).refine(data => !data.password || data.currentPassword, {
+  message: 'Current password is required to change the password',
+  path: ['currentPassword']
 })
 
 export const UserSchema = z.object({
@@ -0,0 +1,151 @@
+import type { ApiKey } from '@prisma/client'
+import { tryGetContext } from 'hono/context-storage'
+import { prisma } from '../config/database.js'
+import { logger } from '../config/logger.js'
+import { generateSecureToken, hashToken } from '../utils/auth.js'
+import { matchesPermission, type PermissionLike } from '../utils/permissions.js'
+import type { CreateApiKey } from '../schemas/auth.js'
+import { auditService } from './audit.service.js'
+import { RBACService } from './rbac.service.js'
+
+// Sets API keys apart from JWTs in the Authorization header, and makes leaked keys easy to scan for
+export const API_KEY_PREFIX = 'pat_'
+
+/**
+ * `resource:action` scope as a permission to match against
+ */
+export const parseScope = (scope: string): PermissionLike => {
+  const separator = scope.lastIndexOf(':')
+  return { resource: scope.slice(0, separator), action: scope.slice(separator + 1) }
+}
+
+/**
+ * Whether scopes cover `resource:action`
+ */
+export const scopesAllow = (scopes: string[], resource: string, action: string): boolean => {
+  return scopes.some(scope => matchesPermission(parseScope(scope), resource, action))
+}
+
+const toView = (apiKey: ApiKey) => ({
+  id: apiKey.id,
+  name: apiKey.name,
+  prefix: apiKey.prefix,
+  scopes: apiKey.scopes,
+  expiresAt: apiKey.expiresAt,
+  lastUsedAt: apiKey.lastUsedAt,
+  lastUsedIp: apiKey.lastUsedIp,
+  createdAt: apiKey.createdAt
+})
+
+export class ApiKeyService {
+  private rbacService = new RBACService()
+  // Last use is recorded at most this often per key, rather than with a write on every request
+  private readonly LAST_USED_PRECISION_MS = 60 * 1000
+
+  /**
+   * Create a key limited to scopes the user holds now. The key itself is returned this once;
+   * only its hash is stored.
+   */
+  async createApiKey(userId: string, { name, scopes, expiresInDays }: CreateApiKey) {
+    const permissions = await this.rbacService.getUserPermissions(userId)
+
+    // A scope must be covered by one of the user's permissions, so keys never widen access
+    const ungranted = scopes.filter(scope => {
+      const { resource, action } = parseScope(scope)
+      return !permissions.some(permission => matchesPermission(permission, resource, action))
+    })
+    if (ungranted.length > 0) {
+      throw new Error(`Scope not granted: ${ungranted.join(', ')}`)
+    }
+
+    const key = `${API_KEY_PREFIX}${generateSecureToken()}`
+
+    const apiKey = await prisma.apiKey.create({
+      data: {
+        userId,
+        name,
+        prefix: key.slice(0, API_KEY_PREFIX.length + 6),
+        keyHash: hashToken(key),
+        scopes,
+        expiresAt: new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000)
+      }
+    })
+
+    await auditService.record({
+      action: 'auth.api_key.create',
+      targetType: 'api_key',
+      targetId: apiKey.id,
+      after: { name, scopes, expiresAt: apiKey.expiresAt.toISOString() },
+      actorId: userId
+    })
+
+    return { apiKey: toView(apiKey), key }
+  }
+
+  async listApiKeys(userId: string) {
+    const apiKeys = await prisma.apiKey.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' }
+    })
+
+    return apiKeys.map(toView)
+  }
+
+  async revokeApiKey(userId: string, id: string) {
+    const { count } = await prisma.apiKey.deleteMany({ where: { id, userId } })
+
+    if (count === 0) {
+      throw new Error('API key not found')
+    }
+
+    await auditService.record({
+      action: 'auth.api_key.revoke',
+      targetType: 'api_key',
+      targetId: id,
+      actorId: userId
+    })
+
+    return { message: 'API key revoked' }
+  }
+
+  /**
+   * The key and its user, or null when the key is unknown or expired
+   */
+  async authenticate(key: string) {
+    const apiKey = await prisma.apiKey.findUnique({
+      where: { keyHash: hashToken(key) },
+      include: {
+        user: {
+          select: {
+            id: true,
+            email: true,
+            name: true,
+            emailVerifiedAt: true,
+            totpEnabledAt: true,
+            createdAt: true,
+            updatedAt: true
+          }
+        }
+      }
+    })
+
+    if (!apiKey || apiKey.expiresAt <= new Date()) {
+      return null
+    }
+
+    if (!apiKey.lastUsedAt || Date.now() - apiKey.lastUsedAt.getTime() > this.LAST_USED_PRECISION_MS) {
+      // Tracking is best effort; a failed write must not fail the request
+      await prisma.apiKey.update({
+        where: { id: apiKey.id },
+        data: { lastUsedAt: new Date(), lastUsedIp: tryGetContext()?.get('clientIP') ?? null }
+      }).catch(error => {
+        logger.error({ error, apiKeyId: apiKey.id }, 'Failed to record API key use')
+      })
+    }
+
+    return apiKey
+  }
+}
+
+// Singleton instance
+export const apiKeyService = new ApiKeyService()
\ No newline at end of file
@@ -0,0 +1,122 @@
+import { isDeepStrictEqual } from 'node:util'
+import { tryGetContext } from 'hono/context-storage'
+import type { Prisma } from '@prisma/client'
+import { prisma } from '../config/database.js'
+import { logger } from '../config/logger.js'
+import type { AuditLogsQueryParams } from '../schemas/audit.js'
+
+export type AuditSnapshot = Record<string, unknown> | null
+
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>
+
+export interface AuditEntry {
+  action: string
+  targetType: string
+  targetId?: string | null
+  before?: AuditSnapshot
+  after?: AuditSnapshot
+  metadata?: Record<string, unknown>
+  // Defaults to the authenticated user of the current request; null records a system action
+  actorId?: string | null
+}
+
+const REDACTED_FIELDS = new Set(['password'])
+const REDACTED = '[REDACTED]'
+
+/**
+ * Field-level diff between two snapshots. Creations have no `before`, deletions no `after`.
+ * Secrets are reported as changed without their values.
+ */
+export const diffSnapshots = (before: AuditSnapshot, after: AuditSnapshot): AuditChanges | null => {
+  const changes: AuditChanges = {}
+  const keys = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})])
+
+  for (const key of keys) {
+    const from = before?.[key] ?? null
+    const to = after?.[key] ?? null
+
+    if (!isDeepStrictEqual(from, to)) {
+      changes[key] = REDACTED_FIELDS.has(key)
+        ? { before: before ? REDACTED : null, after: after ? REDACTED : null }
+        : { before: from, after: to }
+    }
+  }
+
+  return Object.keys(changes).length > 0 ? changes : null
+}
+
+// Dates and other non-JSON values are stored in their JSON form
+const toJson = (value: object): Prisma.InputJsonValue => JSON.parse(JSON.stringify(value))
+
+export class AuditService {
+  /**
+   * Write an audit entry. Actor, client IP and request id are taken from the current request
+   * when there is one. Failures are logged and never break the audited operation.
+   */
+  async record(entry: AuditEntry): Promise<void> {
+    try {
+      const c = tryGetContext()
+      const changes = diffSnapshots(entry.before ?? null, entry.after ?? null)
+
+      await prisma.auditLog.create({
+        data: {
+          actorId: entry.actorId !== undefined ? entry.actorId : c?.get('user')?.id ?? null,
+          action: entry.action,
+          targetType: entry.targetType,
+          targetId: entry.targetId ?? null,
+          changes: changes ? toJson(changes) : undefined,
+          metadata: entry.metadata ? toJson(entry.metadata) : undefined,
+          ip: c?.get('clientIP') ?? null,
+          requestId: c?.get('requestId') ?? null
+        }
+      })
+    } catch (error) {
+      logger.error({ error, action: entry.action, targetId: entry.targetId }, 'Failed to write audit log')
+    }
+  }
+
+  async getAuditLogs(query: AuditLogsQueryParams) {
+    const { page, limit, order, actorId, action, targetType, targetId, from, to } = query
+    const skip = (page - 1) * limit
+
+    const where = {
+      ...(actorId ? { actorId } : {}),
+      ...(action ? { action } : {}),
+      ...(targetType ? { targetType } : {}),
+      ...(targetId ? { targetId } : {}),
+      ...(from || to ? {
+        createdAt: {
+          ...(from ? { gte: from } : {}),
+          ...(to ? { lte: to } : {})
+        }
+      } : {})
+    }
+
+    const [logs, total] = await Promise.all([
+      prisma.auditLog.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: { createdAt: order }
+      }),
+      prisma.auditLog.count({ where })
+    ])
+
+    const pages = Math.ceil(total / limit)
+
+    return {
+      items: logs,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages,
+        hasNext: page < pages,
+        hasPrev: page > 1
+      }
+    }
+  }
+}
+
+// Singleton instance
+export const auditService = new AuditService()
\ No newline at end of file
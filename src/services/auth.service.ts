@@ -1,14 +1,53 @@
 import { prisma } from '../config/database.js'
-import { hashPassword, comparePassword } from '../utils/auth.js'
-import type { RegisterUser, LoginUser } from '../schemas/auth.js'
+import { hashPassword, comparePassword, generateSecureToken } from '../utils/auth.js'
+import { assertPasswordPolicy } from '../utils/password-policy.js'
+import type {
+  RegisterUser,
+  LoginUser,
+  ChangePassword,
+  VerifyMfaLogin,
+  OAuthAuthorize,
+  OAuthCallback,
+  VerifyMagicLink
+} from '../schemas/auth.js'
+import type { User } from '@prisma/client'
 import { tokenService, type TokenPair } from './token.service.js'
 import { RBACService } from './rbac.service.js'
 import { metricsService } from './metrics.service.js'
+import { auditService } from './audit.service.js'
+import { emailVerificationService } from './email-verification.service.js'
+import { mfaService } from './mfa.service.js'
+import { oneTimeTokenService } from './one-time-token.service.js'
+import { loginThrottleService } from './login-throttle.service.js'
+import { oauthService, type ExternalProfile } from './oauth.service.js'
+import { magicLinkService } from './magic-link.service.js'
 import { env } from '../config/env.js'
+import { logger } from '../config/logger.js'
+
+// bcrypt hash of a random password nobody knows, at the cost hashPassword uses
+const UNKNOWN_USER_PASSWORD_HASH = '$2b$12$0mDe8tg42y3kc2gyQpHn4u4FxeeYgUkKwVziPiakFlEBnQNMoW7SK'
+
+// What the client asked for at the first login step, carried in the MFA token to the second
+type LoginOptions = {
+  audience: string
+  rememberMe: boolean
+  deviceName?: string
+  // Identity provider the user signed in at, if not with their password
+  provider?: string
+  // Signed in with a link from their mailbox rather than their password
+  magicLink?: boolean
+}
+
+export interface PendingMfaLogin {
+  mfaRequired: true
+  // The user has no authenticator app set up yet but one of their roles requires it
+  mfaEnrollmentRequired: boolean
+  mfaToken: string
+}
 
 export class AuthService {
   private rbacService = new RBACService()
-  async register(userData: RegisterUser): Promise<{ user: any; tokens: TokenPair }> {
+  async register(userData: RegisterUser): Promise<{ user: any; tokens?: TokenPair }> {
     const existingUser = await prisma.user.findUnique({
       where: { email: userData.email }
     })
@@ -29,31 +68,64 @@ export class AuthService {
         id: true,
         email: true,
         name: true,
+        emailVerifiedAt: true,
         createdAt: true,
         updatedAt: true
       }
     })
 
-    // Generate token pair using new token service
-    const tokens = await tokenService.generateTokenPair(user.id, user.email)
-
     // Assign default user role to new users
     await this.assignDefaultRole(user.id)
 
+    // The account exists either way; the user can ask for another email if this one fails
+    await emailVerificationService.sendVerificationEmail(user).catch(error => {
+      logger.error({ error, userId: user.id }, 'Failed to send verification email')
+    })
+
+    await auditService.record({
+      action: 'auth.register',
+      targetType: 'user',
+      targetId: user.id,
+      after: { email: user.email, name: user.name },
+      actorId: user.id
+    })
+
     // Record metrics
     if (env.ENABLE_MONITORING) {
       metricsService.recordUserRegistration()
     }
 
+    // Users who may not log in before verifying their address get no tokens either
+    if (env.EMAIL_VERIFICATION_REQUIRED) {
+      return { user }
+    }
+
+    // Generate token pair using new token service
+    const tokens = await tokenService.generateTokenPair(user.id, user.email)
+
     return { user, tokens }
   }
 
-  async login(credentials: LoginUser): Promise<{ user: any; tokens: TokenPair }> {
+  async login(credentials: LoginUser): Promise<{ user: any; tokens: TokenPair } | PendingMfaLogin> {
+    if (await loginThrottleService.getRetryAfter(credentials.email) > 0) {
+      // Hash anyway, so a refused attempt takes as long as a checked one
+      await comparePassword(credentials.password, UNKNOWN_USER_PASSWORD_HASH)
+      if (env.ENABLE_MONITORING) {
+        metricsService.recordUserLogin(false)
+        metricsService.recordAuthFailure('login_throttled')
+      }
+      throw new Error('Too many failed login attempts')
+    }
+
     const user = await prisma.user.findUnique({
       where: { email: credentials.email }
     })
 
-    if (!user || !(await comparePassword(credentials.password, user.password))) {
+    // Unknown addresses are checked against a stand-in hash, so they take as long as wrong passwords
+    const passwordMatches = await comparePassword(credentials.password, user?.password ?? UNKNOWN_USER_PASSWORD_HASH)
+
+    if (!user || !passwordMatches) {
+      await loginThrottleService.recordFailure(credentials.email, user)
       // Record failed login
       if (env.ENABLE_MONITORING) {
         metricsService.recordUserLogin(false)
@@ -62,19 +134,211 @@ export class AuthService {
       throw new Error('Invalid email or password')
     }
 
+    await loginThrottleService.recordSuccess(credentials.email)
+
+    if (env.EMAIL_VERIFICATION_REQUIRED && !user.emailVerifiedAt) {
+      if (env.ENABLE_MONITORING) {
+        metricsService.recordUserLogin(false)
+        metricsService.recordAuthFailure('email_not_verified')
+      }
+      throw new Error('Email address not verified')
+    }
+
+    return this.beginLogin(user, {
+      audience: credentials.audience ?? env.JWT_AUDIENCES[0],
+      rememberMe: credentials.rememberMe ?? false,
+      deviceName: credentials.deviceName
+    })
+  }
+
+  /**
+   * Finish a login at an external identity provider. The identity signs in as the user it is
+   * linked to. A new identity is linked to the user with its verified email address, who is
+   * created if there is none.
+   */
+  async loginWithProvider(provider: string, { code, state, stateVerifier }: OAuthCallback) {
+    const { profile, options } = await oauthService.completeAuthorization<OAuthAuthorize>(provider, code, state, stateVerifier)
+
+    const identity = await prisma.externalIdentity.findUnique({
+      where: { provider_subject: { provider, subject: profile.subject } },
+      include: { user: true }
+    })
+
+    const user = identity?.user ?? await this.linkExternalIdentity(provider, profile)
+
+    return this.beginLogin(user, {
+      audience: options.audience ?? env.JWT_AUDIENCES[0],
+      rememberMe: options.rememberMe ?? false,
+      deviceName: options.deviceName,
+      provider
+    })
+  }
+
+  /**
+   * Sign in with a link from `POST /auth/magic-link`. Users with two-factor authentication
+   * still have to come back with a code.
+   */
+  async loginWithMagicLink({ token }: VerifyMagicLink) {
+    const { user, options } = await magicLinkService.consumeLink(token)
+
+    return this.beginLogin(user, {
+      audience: options.audience ?? env.JWT_AUDIENCES[0],
+      rememberMe: options.rememberMe ?? false,
+      deviceName: options.deviceName,
+      magicLink: true
+    })
+  }
+
+  /**
+   * Second login step: check the code for the MFA token from the first step and issue
+   * tokens. Users enrolling because their role requires it get their recovery codes too.
+   */
+  async verifyMfaLogin({ mfaToken, code }: VerifyMfaLogin) {
+    const pending = await oneTimeTokenService.verify<LoginOptions>('mfa-login', mfaToken)
+    const user = pending ? await prisma.user.findUnique({ where: { id: pending.userId } }) : null
+
+    if (!pending || !user) {
+      throw new Error('Invalid or expired MFA token')
+    }
+
+    let recoveryCodes: string[] | undefined
+    if (user.totpEnabledAt) {
+      if (!(await mfaService.verifyCode(user.id, code))) {
+        if (env.ENABLE_MONITORING) {
+          metricsService.recordUserLogin(false)
+          metricsService.recordAuthFailure('invalid_mfa_code')
+        }
+        throw new Error('Invalid two-factor code')
+      }
+    } else {
+      ({ recoveryCodes } = await mfaService.confirmTotp(user.id, code))
+    }
+
+    // Spent only now, so that a mistyped code can be retried with the same token
+    if (!(await oneTimeTokenService.consume('mfa-login', mfaToken))) {
+      throw new Error('Invalid or expired MFA token')
+    }
+
+    const result = await this.completeLogin(user, pending, true)
+    return recoveryCodes ? { ...result, recoveryCodes } : result
+  }
+
+  /**
+   * Start enrolling a user whose role requires two-factor authentication, with the MFA token
+   * from the first login step
+   */
+  async setupMfaLogin(mfaToken: string) {
+    const pending = await oneTimeTokenService.verify('mfa-login', mfaToken)
+    if (!pending) {
+      throw new Error('Invalid or expired MFA token')
+    }
+
+    return await mfaService.setupTotp(pending.userId)
+  }
+
+  /**
+   * Sign in a user whose identity was proven, unless they still owe a two-factor code
+   */
+  private async beginLogin(user: User, options: LoginOptions) {
+    // The first factor alone is not enough; the client has to come back with a code
+    const mfaEnabled = Boolean(user.totpEnabledAt)
+    if (mfaEnabled || await this.rbacService.requiresMfa(user.id)) {
+      const mfaToken = await oneTimeTokenService.issue('mfa-login', user.id, env.MFA_TOKEN_TTL_SECONDS, options)
+      const pending: PendingMfaLogin = { mfaRequired: true, mfaEnrollmentRequired: !mfaEnabled, mfaToken }
+      return pending
+    }
+
+    return this.completeLogin(user, options, false)
+  }
+
+  private async linkExternalIdentity(provider: string, profile: ExternalProfile): Promise<User> {
+    if (!profile.email || !profile.emailVerified) {
+      throw new Error('Identity provider did not return a verified email address')
+    }
+
+    let user = await prisma.user.findUnique({ where: { email: profile.email } })
+
+    // Otherwise whoever registered the address without owning it would share the account with its owner
+    if (user && !user.emailVerifiedAt) {
+      throw new Error('Verify the email address of your account before signing in with an identity provider')
+    }
+
+    if (!user) {
+      user = await prisma.user.create({
+        data: {
+          name: profile.name ?? profile.email.split('@')[0],
+          email: profile.email,
+          // Nobody knows it; the user can set a password through a password reset
+          password: await hashPassword(generateSecureToken()),
+          emailVerifiedAt: new Date()
+        }
+      })
+
+      await this.assignDefaultRole(user.id)
+
+      await auditService.record({
+        action: 'auth.register',
+        targetType: 'user',
+        targetId: user.id,
+        after: { email: user.email, name: user.name },
+        metadata: { provider },
+        actorId: user.id
+      })
+
+      if (env.ENABLE_MONITORING) {
+        metricsService.recordUserRegistration()
+      }
+    }
+
+    await prisma.externalIdentity.create({
+      data: { userId: user.id, provider, subject: profile.subject, email: profile.email }
+    })
+
+    await auditService.record({
+      action: 'auth.identity.link',
+      targetType: 'user',
+      targetId: user.id,
+      metadata: { provider, subject: profile.subject },
+      actorId: user.id
+    })
+
+    return user
+  }
+
+  private async completeLogin(user: User, options: LoginOptions, mfa: boolean) {
     // Generate token pair using new token service
-    const tokens = await tokenService.generateTokenPair(user.id, user.email)
+    const tokens = await tokenService.generateTokenPair(user.id, user.email, {
+      audience: options.audience,
+      rememberMe: options.rememberMe,
+      deviceName: options.deviceName
+    })
 
     // Record successful login
     if (env.ENABLE_MONITORING) {
       metricsService.recordUserLogin(true)
     }
 
+    await auditService.record({
+      action: 'auth.login',
+      targetType: 'user',
+      targetId: user.id,
+      metadata: {
+        audience: options.audience,
+        rememberMe: options.rememberMe,
+        mfa,
+        provider: options.provider,
+        magicLink: options.magicLink
+      },
+      actorId: user.id
+    })
+
     return {
       user: {
         id: user.id,
         email: user.email,
         name: user.name,
+        emailVerifiedAt: user.emailVerifiedAt,
+        totpEnabledAt: user.totpEnabledAt,
         createdAt: user.createdAt,
         updatedAt: user.updatedAt
       },
@@ -89,6 +353,8 @@ export class AuthService {
         id: true,
         email: true,
         name: true,
+        emailVerifiedAt: true,
+        totpEnabledAt: true,
         createdAt: true,
         updatedAt: true
       }
@@ -114,7 +380,41 @@ export class AuthService {
   }
 
   /**
-   * Refresh access token using refresh token
+   * Change the signed-in user's password and sign out their other sessions
+   */
+  async changePassword(userId: string, currentSessionId: string, { currentPassword, newPassword }: ChangePassword) {
+    const user = await prisma.user.findUnique({ where: { id: userId } })
+
+    if (!user) {
+      throw new Error('User not found')
+    }
+
+    if (!(await comparePassword(currentPassword, user.password))) {
+      throw new Error('Current password is incorrect')
+    }
+
+    assertPasswordPolicy(newPassword, user)
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: { password: await hashPassword(newPassword) }
+    })
+
+    const revokedCount = await tokenService.revokeOtherSessions(userId, currentSessionId)
+
+    await auditService.record({
+      action: 'auth.password.change',
+      targetType: 'user',
+      targetId: userId,
+      metadata: { keptSessionId: currentSessionId, revokedCount },
+      actorId: userId
+    })
+
+    return { message: 'Password changed successfully', revokedCount }
+  }
+
+  /**
+   * Rotate a refresh token into a new token pair
    */
   async refreshToken(refreshToken: string) {
     const result = await tokenService.refreshAccessToken(refreshToken)
@@ -133,6 +433,12 @@ export class AuthService {
     } else if (token) {
       await tokenService.revokeToken(token)
     }
+
+    await auditService.record({
+      action: 'auth.logout',
+      targetType: 'session',
+      targetId: sessionId ?? null
+    })
     
     return { message: 'Logged out successfully' }
   }
@@ -142,21 +448,67 @@ export class AuthService {
    */
   async logoutAll(userId: string) {
     await tokenService.revokeAllUserTokens(userId)
+
+    await auditService.record({
+      action: 'auth.logout_all',
+      targetType: 'user',
+      targetId: userId
+    })
+
     return { message: 'Logged out from all devices successfully' }
   }
 
   /**
-   * Get user's active sessions
+   * Logout from all devices except the current one
+   */
+  async logoutOthers(userId: string, currentSessionId: string) {
+    const revokedCount = await tokenService.revokeOtherSessions(userId, currentSessionId)
+
+    await auditService.record({
+      action: 'auth.logout_others',
+      targetType: 'user',
+      targetId: userId,
+      metadata: { keptSessionId: currentSessionId, revokedCount }
+    })
+
+    return { message: 'Logged out from all other devices successfully', revokedCount }
+  }
+
+  /**
+   * Get user's active sessions, flagging the one the request was made with
    */
-  async getUserSessions(userId: string) {
-    return await tokenService.getUserSessions(userId)
+  async getUserSessions(userId: string, currentSessionId?: string) {
+    return await tokenService.getUserSessions(userId, currentSessionId)
   }
 
   /**
-   * Revoke specific session
+   * Name one of the user's sessions
    */
-  async revokeSession(sessionId: string) {
+  async renameSession(userId: string, sessionId: string, deviceName: string) {
+    const renamed = await tokenService.renameSession(userId, sessionId, deviceName)
+    if (!renamed) {
+      throw new Error('Session not found')
+    }
+
+    return { message: 'Session renamed successfully' }
+  }
+
+  /**
+   * Revoke one of the user's sessions
+   */
+  async revokeSession(userId: string, sessionId: string) {
+    if (!(await tokenService.isUserSession(userId, sessionId))) {
+      throw new Error('Session not found')
+    }
+
     await tokenService.revokeSession(sessionId)
+
+    await auditService.record({
+      action: 'auth.session.revoke',
+      targetType: 'session',
+      targetId: sessionId
+    })
+
     return { message: 'Session revoked successfully' }
   }
 
@@ -0,0 +1,109 @@
+import { prisma } from '../config/database.js'
+import { env } from '../config/env.js'
+import { getRedis } from '../config/redis.js'
+import { logger } from '../config/logger.js'
+import { runInBackground } from '../utils/background.js'
+import { auditService } from './audit.service.js'
+import { mailService } from './mail.service.js'
+import { oneTimeTokenService } from './one-time-token.service.js'
+
+export class EmailVerificationService {
+  private readonly REDIS_RESEND_PREFIX = 'email-verification-sent:'
+  // Minimum time between two verification emails requested for the same user
+  private readonly RESEND_COOLDOWN_SECONDS = 60
+
+  /**
+   * Email the user a link to verify their address. The token is bound to the address,
+   * so it stops working when the address changes.
+   */
+  async sendVerificationEmail(user: { id: string; email: string; name: string }): Promise<void> {
+    const token = await oneTimeTokenService.issue('email-verification', user.id, env.EMAIL_VERIFICATION_TTL_SECONDS, {
+      email: user.email
+    })
+
+    const url = new URL(env.EMAIL_VERIFICATION_URL)
+    url.searchParams.set('token', token)
+
+    await mailService.send({
+      to: user.email,
+      subject: 'Verify your email address',
+      text: [
+        `Hi ${user.name},`,
+        '',
+        'Please confirm your email address by opening this link:',
+        url.toString(),
+        '',
+        `The link expires in ${Math.round(env.EMAIL_VERIFICATION_TTL_SECONDS / 3600)} hours and can only be used once.`,
+        'If you did not create an account, you can ignore this email.'
+      ].join('\n')
+    })
+
+    await getRedis().setex(`${this.REDIS_RESEND_PREFIX}${user.id}`, this.RESEND_COOLDOWN_SECONDS, '1')
+  }
+
+  /**
+   * Mark the address a verification token was issued for as verified
+   */
+  async verifyEmail(token: string) {
+    const claims = await oneTimeTokenService.consume<{ email: string }>('email-verification', token)
+    if (!claims) {
+      throw new Error('Invalid or expired verification token')
+    }
+
+    const user = await prisma.user.findUnique({ where: { id: claims.userId } })
+
+    // The address may have changed since the link was sent
+    if (!user || user.email !== claims.email) {
+      throw new Error('Invalid or expired verification token')
+    }
+
+    if (!user.emailVerifiedAt) {
+      await prisma.user.update({
+        where: { id: user.id },
+        data: { emailVerifiedAt: new Date() }
+      })
+
+      await auditService.record({
+        action: 'auth.email.verify',
+        targetType: 'user',
+        targetId: user.id,
+        metadata: { email: user.email },
+        actorId: user.id
+      })
+    }
+
+    return { message: 'Email verified successfully' }
+  }
+
+  /**
+   * Send another verification email. The response is the same whether or not the address
+   * belongs to an unverified account, so it cannot be used to probe for accounts.
+   */
+  async resendVerificationEmail(email: string) {
+    // Sent after the response, so how long it takes does not tell whether the address has an unverified account
+    runInBackground('verification email', () => this.resendTo(email))
+
+    return { message: 'If the address belongs to an unverified account, a verification email has been sent' }
+  }
+
+  /**
+   * Email the unverified account with this address a new link, unless one was sent recently
+   */
+  private async resendTo(email: string) {
+    const user = await prisma.user.findUnique({ where: { email } })
+
+    if (user && !user.emailVerifiedAt) {
+      const cooldownKey = `${this.REDIS_RESEND_PREFIX}${user.id}`
+      const claimed = await getRedis().set(cooldownKey, '1', 'EX', this.RESEND_COOLDOWN_SECONDS, 'NX') === 'OK'
+
+      if (claimed) {
+        await this.sendVerificationEmail(user)
+      } else {
+        logger.info(`Verification email for user ${user.id} not resent, one was sent recently`)
+      }
+    }
+  }
+}
+
+// Singleton instance
+export const emailVerificationService = new EmailVerificationService()
\ No newline at end of file
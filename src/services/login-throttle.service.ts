@@ -0,0 +1,163 @@
+import type { User } from '@prisma/client'
+import { tryGetContext } from 'hono/context-storage'
+import { env } from '../config/env.js'
+import { getRedis } from '../config/redis.js'
+import { logger } from '../config/logger.js'
+import { runInBackground } from '../utils/background.js'
+import { auditService } from './audit.service.js'
+import { mailService } from './mail.service.js'
+import { notificationService } from './notification.service.js'
+
+/**
+ * Failed login counters per account and per client IP. Accounts are tracked by the email
+ * address tried, whether or not it has an account, so locking reveals nothing about which exist.
+ */
+export class LoginThrottleService {
+  private readonly REDIS_ACCOUNT_FAILURES_PREFIX = 'login-failures:account:'
+  private readonly REDIS_IP_FAILURES_PREFIX = 'login-failures:ip:'
+  private readonly REDIS_DELAY_PREFIX = 'login-delay:'
+  private readonly REDIS_LOCK_PREFIX = 'login-lock:'
+  // Failures allowed before each further attempt has to wait, doubling from one second
+  private readonly FREE_ATTEMPTS = 3
+  private readonly MAX_DELAY_SECONDS = 60
+
+  /**
+   * Seconds until this address may be tried again from the current client, or 0 if it may be now
+   */
+  async getRetryAfter(email: string): Promise<number> {
+    const redis = getRedis()
+    const account = this.normalize(email)
+    const ip = this.getClientIP()
+
+    const waits = await Promise.all([
+      redis.ttl(`${this.REDIS_LOCK_PREFIX}${account}`),
+      redis.ttl(`${this.REDIS_DELAY_PREFIX}${account}`)
+    ])
+
+    if (ip) {
+      const ipFailuresKey = `${this.REDIS_IP_FAILURES_PREFIX}${ip}`
+      if (Number(await redis.get(ipFailuresKey)) >= env.LOGIN_IP_MAX_FAILED_ATTEMPTS) {
+        waits.push(await redis.ttl(ipFailuresKey))
+      }
+    }
+
+    return Math.max(0, ...waits)
+  }
+
+  /**
+   * Count a failed login. Each failure past the free attempts delays the next one longer, and
+   * reaching the limit locks the address and tells the owner, if there is one.
+   */
+  async recordFailure(email: string, user: User | null): Promise<void> {
+    const redis = getRedis()
+    const account = this.normalize(email)
+    const ip = this.getClientIP()
+
+    if (ip) {
+      await this.increment(`${this.REDIS_IP_FAILURES_PREFIX}${ip}`)
+    }
+
+    const failuresKey = `${this.REDIS_ACCOUNT_FAILURES_PREFIX}${account}`
+    const failures = await this.increment(failuresKey)
+
+    if (failures >= env.LOGIN_MAX_FAILED_ATTEMPTS) {
+      await redis.setex(`${this.REDIS_LOCK_PREFIX}${account}`, env.LOGIN_LOCKOUT_SECONDS, '1')
+      await redis.del(failuresKey, `${this.REDIS_DELAY_PREFIX}${account}`)
+      // Sent after the response, so how long it takes does not tell whether the address has an account.
+      // The lock holds whether or not the owner could be told.
+      runInBackground('lockout notification', () => this.notifyLocked(user, failures))
+      return
+    }
+
+    if (failures >= this.FREE_ATTEMPTS) {
+      const delay = Math.min(2 ** (failures - this.FREE_ATTEMPTS), this.MAX_DELAY_SECONDS)
+      await redis.setex(`${this.REDIS_DELAY_PREFIX}${account}`, delay, '1')
+    }
+  }
+
+  /**
+   * Forget the failures of an address once its password was given correctly
+   */
+  async recordSuccess(email: string): Promise<void> {
+    const account = this.normalize(email)
+    await getRedis().del(`${this.REDIS_ACCOUNT_FAILURES_PREFIX}${account}`, `${this.REDIS_DELAY_PREFIX}${account}`)
+  }
+
+  /**
+   * Lift a lockout and forget the failures of an address. Returns whether it was locked.
+   */
+  async unlock(email: string): Promise<boolean> {
+    const account = this.normalize(email)
+    const redis = getRedis()
+
+    const locked = await redis.exists(`${this.REDIS_LOCK_PREFIX}${account}`) > 0
+    await redis.del(
+      `${this.REDIS_LOCK_PREFIX}${account}`,
+      `${this.REDIS_ACCOUNT_FAILURES_PREFIX}${account}`,
+      `${this.REDIS_DELAY_PREFIX}${account}`
+    )
+
+    return locked
+  }
+
+  private async notifyLocked(user: User | null, failures: number): Promise<void> {
+    if (!user) {
+      logger.warn('Login locked for an unknown address after repeated failures')
+      return
+    }
+
+    logger.warn({ userId: user.id, failures }, 'Login locked after repeated failures')
+
+    await auditService.record({
+      action: 'auth.lockout',
+      targetType: 'user',
+      targetId: user.id,
+      metadata: { failedAttempts: failures, lockedForSeconds: env.LOGIN_LOCKOUT_SECONDS },
+      actorId: null
+    })
+
+    const minutes = Math.round(env.LOGIN_LOCKOUT_SECONDS / 60)
+
+    await notificationService.notifyUser(user.id, {
+      type: 'warning',
+      title: 'Sign-in temporarily locked',
+      message: `There were ${failures} failed attempts to sign in to your account, so signing in is locked for ${minutes} minutes.`,
+      priority: 'high'
+    })
+
+    await mailService.send({
+      to: user.email,
+      subject: 'Signing in to your account is temporarily locked',
+      text: [
+        `Hi ${user.name},`,
+        '',
+        `There were ${failures} failed attempts to sign in to your account, so signing in is locked for the next ${minutes} minutes.`,
+        '',
+        'If this was you, wait and try again, or reset your password, which also lifts the lock.',
+        'If it was not you, someone may be guessing your password; consider choosing a stronger one.'
+      ].join('\n')
+    })
+  }
+
+  private async increment(key: string): Promise<number> {
+    const redis = getRedis()
+
+    const count = await redis.incr(key)
+    if (count === 1) {
+      await redis.expire(key, env.LOGIN_FAILURE_WINDOW_SECONDS)
+    }
+
+    return count
+  }
+
+  private normalize(email: string): string {
+    return email.trim().toLowerCase()
+  }
+
+  private getClientIP(): string | undefined {
+    return tryGetContext()?.get('clientIP')
+  }
+}
+
+// Singleton instance
+export const loginThrottleService = new LoginThrottleService()
\ No newline at end of file
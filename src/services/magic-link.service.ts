@@ -0,0 +1,140 @@
+import { prisma } from '../config/database.js'
+import { env } from '../config/env.js'
+import { getRedis } from '../config/redis.js'
+import { logger } from '../config/logger.js'
+import type { MagicLink } from '../schemas/auth.js'
+import { runInBackground } from '../utils/background.js'
+import { auditService } from './audit.service.js'
+import { loginThrottleService } from './login-throttle.service.js'
+import { mailService } from './mail.service.js'
+import { oneTimeTokenService } from './one-time-token.service.js'
+
+// Login options from the request for the link, carried in its token along with the address it was sent to
+type MagicLinkClaims = Omit<MagicLink, 'email'> & { email: string }
+
+export class MagicLinkService {
+  private readonly REDIS_RATE_LIMIT_PREFIX = 'magic-link:'
+  // Links requested per address and window, whether or not the address has an account
+  private readonly MAX_REQUESTS_PER_WINDOW = 5
+  private readonly RATE_LIMIT_WINDOW_SECONDS = 60 * 60
+
+  /**
+   * Email a sign-in link to the account with this address, if there is one. The result is
+   * the same for unknown addresses, so it cannot be used to probe for accounts.
+   */
+  async sendLink({ email, ...options }: MagicLink) {
+    // One form of the address for the lockout, the limit and the lookup, so changing its case gets around neither
+    const address = email.trim().toLowerCase()
+
+    // Locks are kept per address, known or not, so refusing here tells nothing either
+    if (await loginThrottleService.getRetryAfter(address) > 0) {
+      throw new Error('Too many failed login attempts')
+    }
+
+    const redis = getRedis()
+    const rateLimitKey = `${this.REDIS_RATE_LIMIT_PREFIX}${address}`
+
+    const requests = await redis.incr(rateLimitKey)
+    if (requests === 1) {
+      await redis.expire(rateLimitKey, this.RATE_LIMIT_WINDOW_SECONDS)
+    }
+    if (requests > this.MAX_REQUESTS_PER_WINDOW) {
+      throw new Error('Too many magic link requests')
+    }
+
+    // Sent after the response, so how long it takes does not tell whether the address has an account
+    runInBackground('magic link email', () => this.sendLinkEmail(address, options))
+
+    return { message: 'If an account exists for this address, a sign-in link has been sent' }
+  }
+
+  /**
+   * Email a link to the account with this address, matched whatever the case it registered with
+   */
+  private async sendLinkEmail(address: string, options: Omit<MagicLink, 'email'>) {
+    const user = await prisma.user.findFirst({
+      where: { email: { equals: address, mode: 'insensitive' } }
+    })
+
+    if (!user) {
+      logger.info('Magic link requested for an unknown address')
+      return
+    }
+
+    // Bound to the address, so the link stops working when the address changes
+    const token = await oneTimeTokenService.issue('magic-link', user.id, env.MAGIC_LINK_TTL_SECONDS, {
+      ...options,
+      email: user.email
+    })
+
+    const url = new URL(env.MAGIC_LINK_URL)
+    url.searchParams.set('token', token)
+
+    await mailService.send({
+      to: user.email,
+      subject: 'Your sign-in link',
+      text: [
+        `Hi ${user.name},`,
+        '',
+        'To sign in to your account, open this link:',
+        url.toString(),
+        '',
+        `The link expires in ${Math.round(env.MAGIC_LINK_TTL_SECONDS / 60)} minutes and can only be used once.`,
+        'If you did not ask for it, you can ignore this email.'
+      ].join('\n')
+    })
+
+    await auditService.record({
+      action: 'auth.magic_link.request',
+      targetType: 'user',
+      targetId: user.id,
+      actorId: null
+    })
+  }
+
+  /**
+   * Spend a link and return its user and login options. Opening the link proves the user
+   * reads mail at their address, so it is marked as verified.
+   */
+  async consumeLink(token: string) {
+    const claims = await oneTimeTokenService.verify<MagicLinkClaims>('magic-link', token)
+    let user = claims ? await prisma.user.findUnique({ where: { id: claims.userId } }) : null
+
+    // The address may have changed since the link was sent
+    if (!claims || !user || user.email !== claims.email) {
+      throw new Error('Invalid or expired magic link')
+    }
+
+    // A lock that started after the link was sent applies too; the link stays usable until it expires
+    if (await loginThrottleService.getRetryAfter(user.email) > 0) {
+      throw new Error('Too many failed login attempts')
+    }
+
+    if (!(await oneTimeTokenService.consume('magic-link', token))) {
+      throw new Error('Invalid or expired magic link')
+    }
+
+    if (!user.emailVerifiedAt) {
+      user = await prisma.user.update({
+        where: { id: user.id },
+        data: { emailVerifiedAt: new Date() }
+      })
+
+      await auditService.record({
+        action: 'auth.email.verify',
+        targetType: 'user',
+        targetId: user.id,
+        metadata: { email: user.email },
+        actorId: user.id
+      })
+    }
+
+    return {
+      user,
+      options: { audience: claims.audience, rememberMe: claims.rememberMe, deviceName: claims.deviceName }
+    }
+  }
+}
+
+// Singleton instance
+export const magicLinkService = new MagicLinkService()
\ No newline at end of file
@@ -0,0 +1,82 @@
+import { mkdir, writeFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import { v4 as uuidv4 } from 'uuid'
+import { env } from '../config/env.js'
+import { logger } from '../config/logger.js'
+
+export interface MailMessage {
+  to: string
+  subject: string
+  text: string
+}
+
+export interface OutgoingMail extends MailMessage {
+  from: string
+}
+
+/**
+ * Delivers mail. Implement it for your provider (SMTP, SES, Postmark, ...) and install it
+ * with `mailService.setTransport()` at startup.
+ */
+export interface MailTransport {
+  send(mail: OutgoingMail): Promise<void>
+}
+
+/**
+ * Logs mail instead of sending it, for development
+ */
+export class ConsoleMailTransport implements MailTransport {
+  async send(mail: OutgoingMail): Promise<void> {
+    logger.info({ from: mail.from, to: mail.to, subject: mail.subject, text: mail.text }, '📧 Mail (console transport)')
+  }
+}
+
+/**
+ * Writes each mail to an .eml file in a directory, for development and tests
+ */
+export class FileMailTransport implements MailTransport {
+  constructor(private readonly directory: string) {}
+
+  async send(mail: OutgoingMail): Promise<void> {
+    const eml = [
+      `From: ${mail.from}`,
+      `To: ${mail.to}`,
+      `Subject: ${mail.subject}`,
+      `Date: ${new Date().toUTCString()}`,
+      'Content-Type: text/plain; charset=utf-8',
+      '',
+      mail.text
+    ].join('\r\n')
+
+    await mkdir(this.directory, { recursive: true })
+    await writeFile(join(this.directory, `${Date.now()}-${uuidv4()}.eml`), eml)
+  }
+}
+
+const createTransport = (): MailTransport => {
+  switch (env.MAIL_TRANSPORT) {
+    case 'file':
+      return new FileMailTransport(env.MAIL_FILE_DIR)
+    case 'console':
+      return new ConsoleMailTransport()
+  }
+}
+
+export class MailService {
+  private transport: MailTransport = createTransport()
+
+  /**
+   * Replace the transport configured through MAIL_TRANSPORT
+   */
+  setTransport(transport: MailTransport): void {
+    this.transport = transport
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transport.send({ from: env.MAIL_FROM, ...message })
+    logger.info({ to: message.to, subject: message.subject }, 'Mail sent')
+  }
+}
+
+// Singleton instance
+export const mailService = new MailService()
\ No newline at end of file
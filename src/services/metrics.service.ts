@@ -13,6 +13,7 @@ export class MetricsService {
   private userRegistrations!: promClient.Counter<string>
   private userLogins!: promClient.Counter<string>
   private authFailures!: promClient.Counter<string>
+  private permissionCacheLookups!: promClient.Counter<string>
   
   // System metrics  
   private databaseConnections!: promClient.Gauge<string>
@@ -85,6 +86,13 @@ export class MetricsService {
       labelNames: ['reason'],
       registers: [this.registry]
     })
+    
+    this.permissionCacheLookups = new promClient.Counter({
+      name: 'honojs_rbac_permission_cache_lookups_total',
+      help: 'Total number of RBAC permission cache lookups',
+      labelNames: ['result'],
+      registers: [this.registry]
+    })
   }
   
   private initializeSystemMetrics(): void {
@@ -159,6 +167,10 @@ export class MetricsService {
     this.authFailures.inc({ reason })
   }
   
+  recordPermissionCacheLookup(hit: boolean): void {
+    this.permissionCacheLookups.inc({ result: hit ? 'hit' : 'miss' })
+  }
+  
   // System metrics methods
   setDatabaseConnections(count: number): void {
     this.databaseConnections.set(count)
@@ -0,0 +1,226 @@
+import { randomBytes } from 'node:crypto'
+import { prisma } from '../config/database.js'
+import { env } from '../config/env.js'
+import { getRedis } from '../config/redis.js'
+import { hashToken } from '../utils/auth.js'
+import {
+  base32Encode,
+  buildOtpauthUri,
+  generateTotpSecret,
+  TOTP_DIGITS,
+  TOTP_PERIOD_SECONDS,
+  verifyTotpCode
+} from '../utils/totp.js'
+import { auditService } from './audit.service.js'
+import { RBACService } from './rbac.service.js'
+
+export class MfaService {
+  private rbacService = new RBACService()
+  private readonly REDIS_ATTEMPTS_PREFIX = 'mfa-attempts:'
+  private readonly REDIS_USED_STEP_PREFIX = 'totp-used:'
+  // Codes checked per user and window, so six digits cannot be guessed
+  private readonly MAX_ATTEMPTS_PER_WINDOW = 5
+  private readonly ATTEMPT_WINDOW_SECONDS = 5 * 60
+  private readonly RECOVERY_CODE_COUNT = 10
+
+  /**
+   * Start enrolling: store a new secret and return it with an otpauth URI for the
+   * authenticator app. It only takes effect once confirmed with a code.
+   */
+  async setupTotp(userId: string) {
+    const user = await prisma.user.findUnique({ where: { id: userId } })
+
+    if (!user) {
+      throw new Error('User not found')
+    }
+
+    if (user.totpEnabledAt) {
+      throw new Error('Two-factor authentication is already enabled')
+    }
+
+    const secret = generateTotpSecret()
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: { totpSecret: secret }
+    })
+
+    return {
+      secret,
+      otpauthUri: buildOtpauthUri(secret, user.email, env.TOTP_ISSUER)
+    }
+  }
+
+  /**
+   * Finish enrolling with a code from the authenticator app. Returns the recovery codes,
+   * which are shown to the user this once.
+   */
+  async confirmTotp(userId: string, code: string) {
+    const user = await prisma.user.findUnique({ where: { id: userId } })
+
+    if (!user) {
+      throw new Error('User not found')
+    }
+
+    if (user.totpEnabledAt) {
+      throw new Error('Two-factor authentication is already enabled')
+    }
+
+    if (!user.totpSecret) {
+      throw new Error('Two-factor authentication setup not started')
+    }
+
+    if (!(await this.checkTotp(userId, user.totpSecret, code))) {
+      throw new Error('Invalid two-factor code')
+    }
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: { totpEnabledAt: new Date() }
+    })
+
+    const recoveryCodes = await this.replaceRecoveryCodes(userId)
+
+    await auditService.record({
+      action: 'auth.mfa.enable',
+      targetType: 'user',
+      targetId: userId,
+      actorId: userId
+    })
+
+    return { recoveryCodes }
+  }
+
+  /**
+   * Turn two-factor authentication off, with a code or a recovery code
+   */
+  async disableTotp(userId: string, code: string) {
+    if (await this.rbacService.requiresMfa(userId)) {
+      throw new Error('Two-factor authentication is required for your role')
+    }
+
+    if (!(await this.verifyCode(userId, code))) {
+      throw new Error('Invalid two-factor code')
+    }
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: { totpSecret: null, totpEnabledAt: null }
+    })
+    await prisma.recoveryCode.deleteMany({ where: { userId } })
+
+    await auditService.record({
+      action: 'auth.mfa.disable',
+      targetType: 'user',
+      targetId: userId,
+      actorId: userId
+    })
+
+    return { message: 'Two-factor authentication disabled' }
+  }
+
+  /**
+   * Replace the recovery codes, with a code or a recovery code
+   */
+  async regenerateRecoveryCodes(userId: string, code: string) {
+    if (!(await this.verifyCode(userId, code))) {
+      throw new Error('Invalid two-factor code')
+    }
+
+    const recoveryCodes = await this.replaceRecoveryCodes(userId)
+
+    await auditService.record({
+      action: 'auth.mfa.recovery_codes',
+      targetType: 'user',
+      targetId: userId,
+      actorId: userId
+    })
+
+    return { recoveryCodes }
+  }
+
+  /**
+   * Check a code from the authenticator app, or spend a recovery code, of a user with
+   * two-factor authentication enabled
+   */
+  async verifyCode(userId: string, code: string): Promise<boolean> {
+    const user = await prisma.user.findUnique({ where: { id: userId } })
+
+    if (!user?.totpEnabledAt || !user.totpSecret) {
+      throw new Error('Two-factor authentication is not enabled')
+    }
+
+    const normalized = code.replace(/[\s-]/g, '')
+    if (normalized.length === TOTP_DIGITS) {
+      return this.checkTotp(userId, user.totpSecret, normalized)
+    }
+
+    await this.countAttempt(userId)
+
+    const { count } = await prisma.recoveryCode.updateMany({
+      where: { userId, codeHash: hashToken(normalized.toLowerCase()), usedAt: null },
+      data: { usedAt: new Date() }
+    })
+
+    if (count > 0) {
+      await auditService.record({
+        action: 'auth.mfa.recovery_code_use',
+        targetType: 'user',
+        targetId: userId,
+        actorId: userId
+      })
+    }
+
+    return count > 0
+  }
+
+  private async checkTotp(userId: string, secret: string, code: string): Promise<boolean> {
+    await this.countAttempt(userId)
+
+    const step = verifyTotpCode(secret, code)
+    if (step === null) {
+      return false
+    }
+
+    // A code stays valid for its whole time step; whoever saw it must not get to use it again
+    const usedKey = `${this.REDIS_USED_STEP_PREFIX}${userId}:${step}`
+    const firstUse = await getRedis().set(usedKey, '1', 'EX', TOTP_PERIOD_SECONDS * 3, 'NX') === 'OK'
+    if (!firstUse) {
+      return false
+    }
+
+    await getRedis().del(`${this.REDIS_ATTEMPTS_PREFIX}${userId}`)
+    return true
+  }
+
+  private async countAttempt(userId: string): Promise<void> {
+    const redis = getRedis()
+    const attemptsKey = `${this.REDIS_ATTEMPTS_PREFIX}${userId}`
+
+    const attempts = await redis.incr(attemptsKey)
+    if (attempts === 1) {
+      await redis.expire(attemptsKey, this.ATTEMPT_WINDOW_SECONDS)
+    }
+    if (attempts > this.MAX_ATTEMPTS_PER_WINDOW) {
+      throw new Error('Too many two-factor attempts')
+    }
+  }
+
+  private async replaceRecoveryCodes(userId: string): Promise<string[]> {
+    // Ten base32 characters each, written as two groups of five
+    const recoveryCodes = Array.from({ length: this.RECOVERY_CODE_COUNT }, () => {
+      const code = base32Encode(randomBytes(7)).slice(0, 10).toLowerCase()
+      return `${code.slice(0, 5)}-${code.slice(5)}`
+    })
+
+    await prisma.recoveryCode.deleteMany({ where: { userId } })
+    await prisma.recoveryCode.createMany({
+      data: recoveryCodes.map(code => ({ userId, codeHash: hashToken(code.replace('-', '')) }))
+    })
+
+    return recoveryCodes
+  }
+}
+
+// Singleton instance
+export const mfaService = new MfaService()
\ No newline at end of file
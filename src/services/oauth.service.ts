@@ -0,0 +1,329 @@
+import { createHash, createPublicKey, type JsonWebKey, type KeyObject } from 'node:crypto'
+import jwt from 'jsonwebtoken'
+import { env } from '../config/env.js'
+import { getRedis } from '../config/redis.js'
+import { logger } from '../config/logger.js'
+import { generateSecureToken, hashToken } from '../utils/auth.js'
+
+/**
+ * The account that signed in at an identity provider
+ */
+export interface ExternalProfile {
+  // The provider's stable id of the account
+  subject: string
+  email: string | null
+  emailVerified: boolean
+  name: string | null
+}
+
+export interface AuthorizationRequest {
+  state: string
+  nonce: string
+  // S256 challenge of the PKCE code verifier
+  codeChallenge: string
+}
+
+export interface CodeExchange {
+  code: string
+  codeVerifier: string
+  // Must come back in the ID token, so a token issued for another login is not accepted
+  nonce: string
+}
+
+/**
+ * An external identity provider users can sign in with. OpenID Connect providers only need
+ * configuring through the OIDC_* variables; implement this for others and install it with
+ * `oauthService.registerProvider()` at startup.
+ */
+export interface IdentityProvider {
+  readonly name: string
+  getAuthorizationUrl(request: AuthorizationRequest): Promise<string>
+  exchangeCode(exchange: CodeExchange): Promise<ExternalProfile>
+}
+
+export interface OidcProviderConfig {
+  name: string
+  issuer: string
+  clientId: string
+  clientSecret: string
+  redirectUri: string
+  scopes: string
+}
+
+interface OidcMetadata {
+  issuer: string
+  authorization_endpoint: string
+  token_endpoint: string
+  jwks_uri: string
+  userinfo_endpoint?: string
+}
+
+type ProviderJwk = JsonWebKey & { kid?: string }
+
+interface IdTokenClaims {
+  sub: string
+  nonce?: string
+  email?: string
+  // Some providers send it as a string
+  email_verified?: boolean | string
+  name?: string
+}
+
+/**
+ * Any OpenID Connect provider, set up from its discovery document. Signs in with the
+ * authorization code flow and PKCE, authenticating with the client secret.
+ */
+export class OidcProvider implements IdentityProvider {
+  private metadata: Promise<OidcMetadata> | null = null
+  private keys: ProviderJwk[] = []
+
+  constructor(private readonly config: OidcProviderConfig) {}
+
+  get name(): string {
+    return this.config.name
+  }
+
+  async getAuthorizationUrl({ state, nonce, codeChallenge }: AuthorizationRequest): Promise<string> {
+    const metadata = await this.getMetadata()
+    const url = new URL(metadata.authorization_endpoint)
+
+    url.searchParams.set('response_type', 'code')
+    url.searchParams.set('client_id', this.config.clientId)
+    url.searchParams.set('redirect_uri', this.config.redirectUri)
+    url.searchParams.set('scope', this.config.scopes)
+    url.searchParams.set('state', state)
+    url.searchParams.set('nonce', nonce)
+    url.searchParams.set('code_challenge', codeChallenge)
+    url.searchParams.set('code_challenge_method', 'S256')
+
+    return url.toString()
+  }
+
+  async exchangeCode({ code, codeVerifier, nonce }: CodeExchange): Promise<ExternalProfile> {
+    const metadata = await this.getMetadata()
+
+    const response = await fetch(metadata.token_endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+      body: new URLSearchParams({
+        grant_type: 'authorization_code',
+        code,
+        redirect_uri: this.config.redirectUri,
+        client_id: this.config.clientId,
+        client_secret: this.config.clientSecret,
+        code_verifier: codeVerifier
+      })
+    })
+
+    if (!response.ok) {
+      logger.warn({ provider: this.name, status: response.status }, 'Identity provider rejected the authorization code')
+      throw new Error('Identity provider rejected the authorization code')
+    }
+
+    const tokens = await response.json() as { id_token?: string; access_token?: string }
+    if (!tokens.id_token) {
+      throw new Error('Invalid ID token')
+    }
+
+    let claims = await this.verifyIdToken(metadata, tokens.id_token, nonce)
+
+    // Providers may leave the email address out of the ID token and only serve it as user info
+    if (claims.email === undefined && metadata.userinfo_endpoint && tokens.access_token) {
+      const userInfo = await fetch(metadata.userinfo_endpoint, {
+        headers: { Authorization: `Bearer ${tokens.access_token}`, Accept: 'application/json' }
+      })
+      const info = userInfo.ok ? await userInfo.json() as IdTokenClaims : null
+      if (info?.sub === claims.sub) {
+        claims = { ...claims, email: info.email, email_verified: info.email_verified, name: claims.name ?? info.name }
+      }
+    }
+
+    return {
+      subject: claims.sub,
+      email: claims.email ?? null,
+      emailVerified: claims.email_verified === true || claims.email_verified === 'true',
+      name: claims.name ?? null
+    }
+  }
+
+  private async verifyIdToken(metadata: OidcMetadata, idToken: string, nonce: string): Promise<IdTokenClaims> {
+    const decoded = jwt.decode(idToken, { complete: true })
+    const key = decoded ? await this.getKey(decoded.header.kid) : null
+
+    if (!key) {
+      throw new Error('Invalid ID token')
+    }
+
+    let claims: IdTokenClaims
+    try {
+      claims = jwt.verify(idToken, key, {
+        algorithms: ['RS256', 'ES256'],
+        issuer: metadata.issuer,
+        audience: this.config.clientId
+      }) as IdTokenClaims
+    } catch (error) {
+      logger.warn({ error, provider: this.name }, 'ID token verification failed')
+      throw new Error('Invalid ID token')
+    }
+
+    if (!claims.sub || claims.nonce !== nonce) {
+      throw new Error('Invalid ID token')
+    }
+
+    return claims
+  }
+
+  /**
+   * Public key for a key id, fetching the provider's key set again when the id is new, since providers rotate keys
+   */
+  private async getKey(kid: string | undefined): Promise<KeyObject | null> {
+    const find = () => kid
+      ? this.keys.find(key => key.kid === kid)
+      : this.keys.length === 1 ? this.keys[0] : undefined
+
+    if (!find()) {
+      const { jwks_uri } = await this.getMetadata()
+      const response = await fetch(jwks_uri, { headers: { Accept: 'application/json' } })
+      this.keys = response.ok ? ((await response.json()) as { keys: ProviderJwk[] }).keys : []
+    }
+
+    const jwk = find()
+    return jwk ? createPublicKey({ key: jwk, format: 'jwk' }) : null
+  }
+
+  private getMetadata(): Promise<OidcMetadata> {
+    if (!this.metadata) {
+      this.metadata = this.fetchMetadata().catch(error => {
+        // Try discovery again next time rather than failing until restart
+        this.metadata = null
+        throw error
+      })
+    }
+
+    return this.metadata
+  }
+
+  private async fetchMetadata(): Promise<OidcMetadata> {
+    const issuer = this.config.issuer.replace(/\/$/, '')
+    const response = await fetch(`${issuer}/.well-known/openid-configuration`, {
+      headers: { Accept: 'application/json' }
+    })
+
+    if (!response.ok) {
+      throw new Error(`OpenID Connect discovery failed with status ${response.status}`)
+    }
+
+    const metadata = await response.json() as OidcMetadata
+    if (metadata.issuer.replace(/\/$/, '') !== issuer) {
+      throw new Error('OpenID Connect discovery returned another issuer')
+    }
+
+    return metadata
+  }
+}
+
+const createProviders = (): IdentityProvider[] => {
+  if (!env.OIDC_ISSUER) {
+    return []
+  }
+
+  return [new OidcProvider({
+    name: env.OIDC_PROVIDER_NAME,
+    issuer: env.OIDC_ISSUER,
+    clientId: env.OIDC_CLIENT_ID,
+    clientSecret: env.OIDC_CLIENT_SECRET,
+    redirectUri: env.OIDC_REDIRECT_URI,
+    scopes: env.OIDC_SCOPES
+  })]
+}
+
+// Kept between sending the user to the provider and their return
+interface PendingAuthorization<T> {
+  provider: string
+  // Hash of the state verifier handed to the client that started the login
+  stateVerifierHash: string
+  nonce: string
+  codeVerifier: string
+  options: T
+}
+
+export class OAuthService {
+  private readonly REDIS_STATE_PREFIX = 'oauth-state:'
+  private providers = new Map(createProviders().map(provider => [provider.name, provider]))
+
+  /**
+   * Add a provider, or replace the one with the same name
+   */
+  registerProvider(provider: IdentityProvider): void {
+    this.providers.set(provider.name, provider)
+  }
+
+  getProviderNames(): string[] {
+    return [...this.providers.keys()]
+  }
+
+  /**
+   * URL to send the user to, to sign in at the provider, and the state verifier the client
+   * keeps until they return. `options` come back with the profile when the user returns.
+   */
+  async startAuthorization<T>(providerName: string, options: T) {
+    const provider = this.getProvider(providerName)
+
+    const state = generateSecureToken()
+    const stateVerifier = generateSecureToken()
+    const pending: PendingAuthorization<T> = {
+      provider: provider.name,
+      stateVerifierHash: hashToken(stateVerifier),
+      nonce: generateSecureToken(),
+      codeVerifier: generateSecureToken(),
+      options
+    }
+
+    await getRedis().setex(`${this.REDIS_STATE_PREFIX}${state}`, env.OAUTH_STATE_TTL_SECONDS, JSON.stringify(pending))
+
+    const authorizationUrl = await provider.getAuthorizationUrl({
+      state,
+      nonce: pending.nonce,
+      codeChallenge: createHash('sha256').update(pending.codeVerifier).digest('base64url')
+    })
+
+    return { authorizationUrl, stateVerifier }
+  }
+
+  /**
+   * Exchange the code the user returned with for their profile. Each state is accepted once,
+   * only from the provider it was issued for and only with the verifier of the client that
+   * started the login, so nobody can finish their own login in someone else's client.
+   */
+  async completeAuthorization<T>(providerName: string, code: string, state: string, stateVerifier: string) {
+    const provider = this.getProvider(providerName)
+    const redis = getRedis()
+    const stateKey = `${this.REDIS_STATE_PREFIX}${state}`
+
+    const stored = await redis.get(stateKey)
+    // Only the request that deletes the state gets to use it
+    if (!stored || await redis.del(stateKey) === 0) {
+      throw new Error('Invalid or expired OAuth state')
+    }
+
+    const pending = JSON.parse(stored) as PendingAuthorization<T>
+    if (pending.provider !== provider.name || pending.stateVerifierHash !== hashToken(stateVerifier)) {
+      throw new Error('Invalid or expired OAuth state')
+    }
+
+    const profile = await provider.exchangeCode({ code, codeVerifier: pending.codeVerifier, nonce: pending.nonce })
+
+    return { profile, options: pending.options }
+  }
+
+  private getProvider(name: string): IdentityProvider {
+    const provider = this.providers.get(name)
+    if (!provider) {
+      throw new Error('Unknown identity provider')
+    }
+    return provider
+  }
+}
+
+// Singleton instance
+export const oauthService = new OAuthService()
\ No newline at end of file
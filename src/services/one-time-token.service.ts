@@ -0,0 +1,110 @@
+import jwt from 'jsonwebtoken'
+import { v4 as uuidv4 } from 'uuid'
+import { env } from '../config/env.js'
+import { getRedis } from '../config/redis.js'
+import { logger } from '../config/logger.js'
+import { signingKeyService } from './signing-key.service.js'
+
+// What a token can be used for; it is only accepted for the purpose it was issued for
+export type OneTimeTokenPurpose = 'email-verification' | 'mfa-login' | 'magic-link'
+
+// Undefined claims are left out of the token
+export type OneTimeTokenClaims = Record<string, string | number | boolean | undefined>
+
+/**
+ * Signed single-use tokens, such as email verification links and pending logins. They are JWTs signed
+ * with the current signing key, but their audience is the purpose, so they are never
+ * accepted as access or refresh tokens.
+ */
+export class OneTimeTokenService {
+  private readonly REDIS_USED_PREFIX = 'used-token:'
+
+  async issue(
+    purpose: OneTimeTokenPurpose,
+    userId: string,
+    ttlSeconds: number,
+    claims: OneTimeTokenClaims = {}
+  ): Promise<string> {
+    const signingKey = await signingKeyService.getSigningKey()
+
+    return jwt.sign({ claims }, signingKey.privateKey, {
+      algorithm: signingKey.algorithm,
+      keyid: signingKey.kid,
+      expiresIn: ttlSeconds,
+      issuer: env.JWT_ISSUER,
+      audience: purpose,
+      subject: userId,
+      jwtid: uuidv4()
+    })
+  }
+
+  /**
+   * Check a token without spending it, for flows that spend it only once a later step
+   * succeeds. Returns null when the token is invalid, expired, meant for another purpose or used.
+   */
+  async verify<T extends OneTimeTokenClaims>(
+    purpose: OneTimeTokenPurpose,
+    token: string
+  ): Promise<(T & { userId: string }) | null> {
+    const payload = await this.decode(purpose, token)
+    if (!payload || await getRedis().exists(`${this.REDIS_USED_PREFIX}${payload.jti}`)) {
+      return null
+    }
+
+    return { ...payload.claims, userId: payload.sub } as T & { userId: string }
+  }
+
+  /**
+   * Verify a token and spend it. Returns its claims and user id, or null when the token is
+   * invalid, expired, meant for another purpose or was used before.
+   */
+  async consume<T extends OneTimeTokenClaims>(
+    purpose: OneTimeTokenPurpose,
+    token: string
+  ): Promise<(T & { userId: string }) | null> {
+    const payload = await this.decode(purpose, token)
+    if (!payload) {
+      return null
+    }
+
+    // Only the first request to mark the token as used gets its claims
+    const ttl = Math.max(payload.exp! - Math.floor(Date.now() / 1000), 1)
+    const firstUse = await getRedis().set(`${this.REDIS_USED_PREFIX}${payload.jti}`, purpose, 'EX', ttl, 'NX') === 'OK'
+    if (!firstUse) {
+      logger.warn({ purpose, userId: payload.sub }, 'One-time token presented again')
+      return null
+    }
+
+    return { ...payload.claims, userId: payload.sub } as T & { userId: string }
+  }
+
+  private async decode(purpose: OneTimeTokenPurpose, token: string): Promise<jwt.JwtPayload | null> {
+    try {
+      const kid = jwt.decode(token, { complete: true })?.header.kid
+      const signingKey = kid ? await signingKeyService.getVerificationKey(kid) : null
+      if (!signingKey) {
+        return null
+      }
+
+      const payload = jwt.verify(token, signingKey.publicKey, {
+        algorithms: [signingKey.algorithm],
+        issuer: env.JWT_ISSUER,
+        audience: purpose
+      }) as jwt.JwtPayload
+
+      if (!payload.sub || !payload.jti || !payload.exp) {
+        return null
+      }
+
+      return payload
+    } catch (error) {
+      if (!(error instanceof jwt.JsonWebTokenError)) {
+        logger.error({ error }, 'Error verifying one-time token')
+      }
+      return null
+    }
+  }
+}
+
+// Singleton instance
+export const oneTimeTokenService = new OneTimeTokenService()
\ No newline at end of file
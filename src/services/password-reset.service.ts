@@ -0,0 +1,138 @@
+import { prisma } from '../config/database.js'
+import { env } from '../config/env.js'
+import { getRedis } from '../config/redis.js'
+import { logger } from '../config/logger.js'
+import { generateSecureToken, hashPassword, hashToken } from '../utils/auth.js'
+import { runInBackground } from '../utils/background.js'
+import { assertPasswordPolicy } from '../utils/password-policy.js'
+import { auditService } from './audit.service.js'
+import { loginThrottleService } from './login-throttle.service.js'
+import { mailService } from './mail.service.js'
+import { tokenService } from './token.service.js'
+
+export class PasswordResetService {
+  private readonly REDIS_RATE_LIMIT_PREFIX = 'password-reset:'
+  // Reset emails requested per address and window, whether or not the address has an account
+  private readonly MAX_REQUESTS_PER_WINDOW = 3
+  private readonly RATE_LIMIT_WINDOW_SECONDS = 60 * 60
+
+  /**
+   * Email a reset link to the account with this address, if there is one. Only the newest
+   * link works. The result is the same for unknown addresses, so it cannot be used to probe for accounts.
+   */
+  async requestReset(email: string) {
+    const redis = getRedis()
+    const rateLimitKey = `${this.REDIS_RATE_LIMIT_PREFIX}${email.toLowerCase()}`
+
+    const requests = await redis.incr(rateLimitKey)
+    if (requests === 1) {
+      await redis.expire(rateLimitKey, this.RATE_LIMIT_WINDOW_SECONDS)
+    }
+    if (requests > this.MAX_REQUESTS_PER_WINDOW) {
+      throw new Error('Too many password reset requests')
+    }
+
+    // Sent after the response, so how long it takes does not tell whether the address has an account
+    runInBackground('password reset email', () => this.sendResetEmail(email))
+
+    return { message: 'If an account exists for this address, a password reset email has been sent' }
+  }
+
+  /**
+   * Replace the user's unused reset token with a new one and email its link
+   */
+  private async sendResetEmail(email: string) {
+    const user = await prisma.user.findUnique({ where: { email } })
+
+    if (user) {
+      const token = generateSecureToken()
+
+      await prisma.passwordResetToken.deleteMany({ where: { userId: user.id, usedAt: null } })
+      await prisma.passwordResetToken.create({
+        data: {
+          userId: user.id,
+          tokenHash: hashToken(token),
+          expiresAt: new Date(Date.now() + env.PASSWORD_RESET_TTL_SECONDS * 1000)
+        }
+      })
+
+      const url = new URL(env.PASSWORD_RESET_URL)
+      url.searchParams.set('token', token)
+
+      await mailService.send({
+        to: user.email,
+        subject: 'Reset your password',
+        text: [
+          `Hi ${user.name},`,
+          '',
+          'Someone asked to reset the password of your account. To choose a new password, open this link:',
+          url.toString(),
+          '',
+          `The link expires in ${Math.round(env.PASSWORD_RESET_TTL_SECONDS / 60)} minutes and can only be used once.`,
+          'If you did not ask for this, you can ignore this email; your password stays the same.'
+        ].join('\n')
+      })
+
+      await auditService.record({
+        action: 'auth.password.reset_request',
+        targetType: 'user',
+        targetId: user.id,
+        actorId: null
+      })
+    } else {
+      logger.info('Password reset requested for an unknown address')
+    }
+  }
+
+  /**
+   * Set a new password with a reset token and sign the user out everywhere
+   */
+  async resetPassword(token: string, password: string) {
+    const tokenHash = hashToken(token)
+    const now = new Date()
+
+    const resetToken = await prisma.passwordResetToken.findUnique({
+      where: { tokenHash },
+      include: { user: true }
+    })
+
+    if (!resetToken || resetToken.usedAt || resetToken.expiresAt <= now) {
+      throw new Error('Invalid or expired reset token')
+    }
+
+    // Checked before the token is spent, so the user can retry with a better password
+    assertPasswordPolicy(password, resetToken.user)
+
+    // Spending the token and checking it is still valid happen in one statement, so it works only once
+    const { count } = await prisma.passwordResetToken.updateMany({
+      where: { tokenHash, usedAt: null, expiresAt: { gt: now } },
+      data: { usedAt: now }
+    })
+
+    if (count === 0) {
+      throw new Error('Invalid or expired reset token')
+    }
+
+    await prisma.user.update({
+      where: { id: resetToken.userId },
+      data: { password: await hashPassword(password) }
+    })
+
+    // Anyone who knew the old password may still hold sessions
+    await tokenService.revokeAllUserTokens(resetToken.userId)
+    // Whoever reset it owns the mailbox, so a lockout from guessing no longer applies to them
+    await loginThrottleService.unlock(resetToken.user.email)
+
+    await auditService.record({
+      action: 'auth.password.reset',
+      targetType: 'user',
+      targetId: resetToken.userId,
+      actorId: resetToken.userId
+    })
+
+    return { message: 'Password reset successfully' }
+  }
+}
+
+// Singleton instance
+export const passwordResetService = new PasswordResetService()
\ No newline at end of file
@@ -0,0 +1,111 @@
+import { getRedis } from '../config/redis.js'
+import { logger } from '../config/logger.js'
+import { env } from '../config/env.js'
+import { metricsService } from './metrics.service.js'
+import type { PolicyCondition } from '../utils/conditions.js'
+
+export interface CachedPermission {
+  id: string
+  name: string
+  resource: string
+  action: string
+  description: string | null
+  condition?: PolicyCondition | null
+}
+
+export interface CachedRole {
+  id: string
+  name: string
+  description: string | null
+  requireMfa?: boolean
+  expiresAt?: Date | string | null
+  permissions: CachedPermission[]
+}
+
+export interface UserAccess {
+  roles: CachedRole[]
+  inheritedRoles: CachedRole[]
+  permissions: CachedPermission[]
+}
+
+/**
+ * Per-user effective permission cache backed by Redis.
+ * Entries are dropped by RBACService whenever a mutation could change a user's access.
+ */
+export class PermissionCacheService {
+  private readonly REDIS_USER_PREFIX = 'cache:rbac:user:'
+  private readonly REDIS_ROLES_KEY = 'cache:roles'
+  private readonly TTL_SECONDS = 1800 // 30 minutes
+
+  /**
+   * Get cached roles and permissions for a user, or null on a miss
+   */
+  async get(userId: string): Promise<UserAccess | null> {
+    try {
+      const redis = getRedis()
+      const cached = await redis.get(`${this.REDIS_USER_PREFIX}${userId}`)
+      const hit = typeof cached === 'string'
+
+      if (env.ENABLE_MONITORING) {
+        metricsService.recordPermissionCacheLookup(hit)
+      }
+
+      return hit ? JSON.parse(cached) as UserAccess : null
+    } catch (error) {
+      logger.warn({ error, userId }, 'Failed to read permission cache')
+      return null
+    }
+  }
+
+  /**
+   * Store roles and permissions for a user, optionally only until `validUntil`
+   */
+  async set(userId: string, access: UserAccess, validUntil?: Date): Promise<void> {
+    const ttl = validUntil
+      ? Math.min(this.TTL_SECONDS, Math.ceil((validUntil.getTime() - Date.now()) / 1000))
+      : this.TTL_SECONDS
+
+    if (ttl <= 0) {
+      return
+    }
+
+    try {
+      const redis = getRedis()
+      await redis.setex(`${this.REDIS_USER_PREFIX}${userId}`, ttl, JSON.stringify(access))
+    } catch (error) {
+      logger.warn({ error, userId }, 'Failed to write permission cache')
+    }
+  }
+
+  /**
+   * Drop cached access for the given users
+   */
+  async invalidateUsers(userIds: string[]): Promise<void> {
+    if (userIds.length === 0) {
+      return
+    }
+
+    try {
+      const redis = getRedis()
+      await redis.del(...userIds.map(userId => `${this.REDIS_USER_PREFIX}${userId}`))
+      logger.debug({ count: userIds.length }, 'Permission cache invalidated')
+    } catch (error) {
+      logger.error({ error, userIds }, 'Failed to invalidate permission cache')
+    }
+  }
+
+  /**
+   * Drop the role list warmed by the cache-warmup job
+   */
+  async invalidateRoleList(): Promise<void> {
+    try {
+      const redis = getRedis()
+      await redis.del(this.REDIS_ROLES_KEY)
+    } catch (error) {
+      logger.error({ error }, 'Failed to invalidate role list cache')
+    }
+  }
+}
+
+// Singleton instance
+export const permissionCache = new PermissionCacheService()
\ No newline at end of file
@@ -0,0 +1,159 @@
+import { prisma } from '../config/database.js'
+import type { CreatePost, UpdatePost, PostsQueryParams } from '../schemas/post.js'
+
+const postSelect = {
+  id: true,
+  title: true,
+  content: true,
+  published: true,
+  authorId: true,
+  createdAt: true,
+  updatedAt: true,
+  author: {
+    select: {
+      id: true,
+      name: true
+    }
+  }
+}
+
+export interface PostViewer {
+  userId: string
+  canViewDrafts: boolean
+}
+
+export class PostService {
+  async getPosts(query: PostsQueryParams, viewer: PostViewer) {
+    const { page, limit, authorId, published, order } = query
+    const skip = (page - 1) * limit
+
+    // Drafts are only visible to their author unless the viewer may edit any post
+    const where = {
+      ...(authorId ? { authorId } : {}),
+      ...(published !== undefined ? { published } : {}),
+      ...(viewer.canViewDrafts ? {} : {
+        OR: [
+          { published: true },
+          { authorId: viewer.userId }
+        ]
+      })
+    }
+
+    const [posts, total] = await Promise.all([
+      prisma.post.findMany({
+        where,
+        skip,
+        take: limit,
+        select: postSelect,
+        orderBy: { createdAt: order }
+      }),
+      prisma.post.count({ where })
+    ])
+
+    const pages = Math.ceil(total / limit)
+
+    return {
+      items: posts,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages,
+        hasNext: page < pages,
+        hasPrev: page > 1
+      }
+    }
+  }
+
+  async getPostById(id: string, viewer: PostViewer) {
+    const post = await prisma.post.findUnique({
+      where: { id },
+      select: postSelect
+    })
+
+    if (!post || !this.isVisible(post, viewer)) {
+      throw new Error('Post not found')
+    }
+
+    return post
+  }
+
+  async getPostAuthorId(id: string): Promise<string | null> {
+    const post = await prisma.post.findUnique({
+      where: { id },
+      select: { authorId: true }
+    })
+
+    return post?.authorId ?? null
+  }
+
+  /**
+   * Attributes conditional post permissions are evaluated against, or null when the post does not
+   * exist or the viewer may not see it
+   */
+  async getPostPolicyAttributes(id: string, viewer: PostViewer): Promise<Record<string, unknown> | null> {
+    const post = await prisma.post.findUnique({
+      where: { id },
+      select: { id: true, authorId: true, published: true }
+    })
+
+    return post && this.isVisible(post, viewer) ? post : null
+  }
+
+  // Drafts are only visible to their author unless the viewer may edit any post
+  private isVisible(post: { published: boolean; authorId: string }, viewer: PostViewer): boolean {
+    return post.published || viewer.canViewDrafts || post.authorId === viewer.userId
+  }
+
+  async createPost(authorId: string, data: CreatePost) {
+    return await prisma.post.create({
+      data: {
+        title: data.title,
+        content: data.content,
+        published: data.published,
+        authorId
+      },
+      select: postSelect
+    })
+  }
+
+  async updatePost(id: string, updates: UpdatePost) {
+    const existingPost = await prisma.post.findUnique({ where: { id } })
+
+    if (!existingPost) {
+      throw new Error('Post not found')
+    }
+
+    return await prisma.post.update({
+      where: { id },
+      data: updates,
+      select: postSelect
+    })
+  }
+
+  async setPublished(id: string, published: boolean) {
+    const existingPost = await prisma.post.findUnique({ where: { id } })
+
+    if (!existingPost) {
+      throw new Error('Post not found')
+    }
+
+    return await prisma.post.update({
+      where: { id },
+      data: { published },
+      select: postSelect
+    })
+  }
+
+  async deletePost(id: string) {
+    const existingPost = await prisma.post.findUnique({ where: { id } })
+
+    if (!existingPost) {
+      throw new Error('Post not found')
+    }
+
+    await prisma.post.delete({ where: { id } })
+
+    return { message: 'Post deleted successfully' }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,297 @@
+import { isDeepStrictEqual } from 'node:util'
+import { Prisma } from '@prisma/client'
+import YAML from 'yaml'
+import { prisma } from '../config/database.js'
+import { logger } from '../config/logger.js'
+import { RBACService } from './rbac.service.js'
+import { permissionCache } from './permission-cache.service.js'
+import { auditService } from './audit.service.js'
+import { rbacPolicySchema, type RBACPolicy } from '../schemas/rbac.js'
+
+export type PolicyFormat = 'json' | 'yaml'
+
+export type FieldChanges = Record<string, { from: unknown; to: unknown }>
+
+export type PolicyChange =
+  | { op: 'create' | 'delete'; type: 'permission' | 'role'; name: string }
+  | { op: 'update'; type: 'permission' | 'role'; name: string; fields: FieldChanges }
+  | { op: 'create' | 'delete'; type: 'role-permission'; role: string; permission: string }
+  | { op: 'create' | 'delete'; type: 'role-parent'; role: string; parent: string }
+
+export interface ApplyPolicyOptions {
+  dryRun?: boolean
+  prune?: boolean
+}
+
+export interface ApplyPolicyResult {
+  dryRun: boolean
+  applied: boolean
+  changes: PolicyChange[]
+}
+
+type CurrentState = Awaited<ReturnType<RBACPolicyService['loadState']>>
+
+const rbacService = new RBACService()
+
+/**
+ * Declarative RBAC: export roles, permissions, role-permission mappings and role parents
+ * as a policy document, and apply a document idempotently. Roles and permissions are
+ * identified by name. Entries missing from the document are only deleted with `prune`.
+ */
+export class RBACPolicyService {
+  async exportPolicy(): Promise<RBACPolicy> {
+    const { roles, permissions } = await this.loadState()
+
+    return {
+      version: 1,
+      permissions: permissions
+        .sort((a, b) => a.resource.localeCompare(b.resource) || a.action.localeCompare(b.action) || a.name.localeCompare(b.name))
+        .map(permission => ({
+          name: permission.name,
+          resource: permission.resource,
+          action: permission.action,
+          ...(permission.description !== null && { description: permission.description }),
+          ...(permission.condition !== null && { condition: permission.condition as RBACPolicy['permissions'][number]['condition'] })
+        })),
+      roles: roles
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .map(role => ({
+          name: role.name,
+          ...(role.description !== null && { description: role.description }),
+          ...(role.requireMfa && { requireMfa: true }),
+          parents: role.parents.map(link => link.parent.name).sort(),
+          permissions: role.permissions.map(rp => rp.permission.name).sort()
+        }))
+    }
+  }
+
+  parse(content: string): RBACPolicy {
+    // YAML is a superset of JSON, so one parser covers both formats
+    return rbacPolicySchema.parse(YAML.parse(content))
+  }
+
+  serialize(policy: RBACPolicy, format: PolicyFormat): string {
+    return format === 'yaml' ? YAML.stringify(policy) : `${JSON.stringify(policy, null, 2)}\n`
+  }
+
+  async planPolicy(policy: RBACPolicy, prune = false): Promise<PolicyChange[]> {
+    return this.diff(policy, await this.loadState(), prune)
+  }
+
+  async applyPolicy(policy: RBACPolicy, options: ApplyPolicyOptions = {}): Promise<ApplyPolicyResult> {
+    const dryRun = options.dryRun ?? false
+    const state = await this.loadState()
+    const changes = this.diff(policy, state, options.prune ?? false)
+
+    if (dryRun || changes.length === 0) {
+      return { dryRun, applied: false, changes }
+    }
+
+    // Collect holders before deletions cascade away their assignments
+    const holderIds = await this.getAffectedHolderIds(changes, state)
+
+    await prisma.$transaction(async (tx) => {
+      const roleIds = new Map(state.roles.map(role => [role.name, role.id]))
+      const permissionIds = new Map(state.permissions.map(permission => [permission.name, permission.id]))
+      const permissionDefinitions = new Map(policy.permissions.map(permission => [permission.name, permission]))
+      const roleDefinitions = new Map(policy.roles.map(role => [role.name, role]))
+
+      for (const change of changes) {
+        if (change.type === 'role-permission') {
+          const key = { roleId: roleIds.get(change.role)!, permissionId: permissionIds.get(change.permission)! }
+
+          if (change.op === 'create') {
+            await tx.rolePermission.create({ data: key })
+          } else {
+            await tx.rolePermission.delete({ where: { roleId_permissionId: key } })
+          }
+        } else if (change.type === 'role-parent') {
+          const key = { roleId: roleIds.get(change.role)!, parentId: roleIds.get(change.parent)! }
+
+          if (change.op === 'create') {
+            await tx.roleInheritance.create({ data: key })
+          } else {
+            await tx.roleInheritance.delete({ where: { roleId_parentId: key } })
+          }
+        } else if (change.type === 'permission') {
+          const definition = permissionDefinitions.get(change.name)
+          const data = definition && {
+            resource: definition.resource,
+            action: definition.action,
+            description: definition.description ?? null,
+            condition: definition.condition ? definition.condition as Prisma.InputJsonValue : Prisma.DbNull
+          }
+
+          if (change.op === 'create') {
+            const created = await tx.permission.create({ data: { name: change.name, ...data! } })
+            permissionIds.set(change.name, created.id)
+          } else if (change.op === 'update') {
+            await tx.permission.update({ where: { id: permissionIds.get(change.name)! }, data: data! })
+          } else {
+            await tx.permission.delete({ where: { id: permissionIds.get(change.name)! } })
+          }
+        } else {
+          const definition = roleDefinitions.get(change.name)
+          const data = {
+            description: definition?.description ?? null,
+            requireMfa: definition?.requireMfa ?? false
+          }
+
+          if (change.op === 'create') {
+            const created = await tx.role.create({ data: { name: change.name, ...data } })
+            roleIds.set(change.name, created.id)
+          } else if (change.op === 'update') {
+            await tx.role.update({ where: { id: roleIds.get(change.name)! }, data })
+          } else {
+            await tx.role.delete({ where: { id: roleIds.get(change.name)! } })
+          }
+        }
+      }
+    })
+
+    await Promise.all([
+      permissionCache.invalidateUsers(holderIds),
+      permissionCache.invalidateRoleList(),
+      auditService.record({
+        action: 'rbac.policy.apply',
+        targetType: 'policy',
+        metadata: { prune: options.prune ?? false, changes }
+      })
+    ])
+
+    logger.info({ changes: changes.length, invalidatedUsers: holderIds.length }, 'RBAC policy applied')
+
+    return { dryRun, applied: true, changes }
+  }
+
+  private async loadState() {
+    const [roles, permissions] = await Promise.all([
+      prisma.role.findMany({
+        include: {
+          permissions: {
+            include: {
+              permission: true
+            }
+          },
+          parents: {
+            include: {
+              parent: true
+            }
+          }
+        }
+      }),
+      prisma.permission.findMany()
+    ])
+
+    return { roles, permissions }
+  }
+
+  /**
+   * Changes are ordered so they can be executed as listed: deletions of pruned roles and
+   * permissions first, then permission and role upserts, then mappings.
+   */
+  private diff(policy: RBACPolicy, state: CurrentState, prune: boolean): PolicyChange[] {
+    const changes: PolicyChange[] = []
+    const desiredRoles = new Set(policy.roles.map(role => role.name))
+    const desiredPermissions = new Set(policy.permissions.map(permission => permission.name))
+
+    if (prune) {
+      state.roles
+        .filter(role => !desiredRoles.has(role.name))
+        .forEach(role => changes.push({ op: 'delete', type: 'role', name: role.name }))
+      state.permissions
+        .filter(permission => !desiredPermissions.has(permission.name))
+        .forEach(permission => changes.push({ op: 'delete', type: 'permission', name: permission.name }))
+    }
+
+    for (const permission of policy.permissions) {
+      const existing = state.permissions.find(p => p.name === permission.name)
+
+      if (!existing) {
+        changes.push({ op: 'create', type: 'permission', name: permission.name })
+        continue
+      }
+
+      const fields = this.compareFields(
+        { resource: existing.resource, action: existing.action, description: existing.description, condition: existing.condition },
+        { resource: permission.resource, action: permission.action, description: permission.description ?? null, condition: permission.condition ?? null }
+      )
+      if (fields) {
+        changes.push({ op: 'update', type: 'permission', name: permission.name, fields })
+      }
+    }
+
+    for (const role of policy.roles) {
+      const existing = state.roles.find(r => r.name === role.name)
+
+      if (!existing) {
+        changes.push({ op: 'create', type: 'role', name: role.name })
+        continue
+      }
+
+      const fields = this.compareFields(
+        { description: existing.description, requireMfa: existing.requireMfa },
+        { description: role.description ?? null, requireMfa: role.requireMfa ?? false }
+      )
+      if (fields) {
+        changes.push({ op: 'update', type: 'role', name: role.name, fields })
+      }
+    }
+
+    for (const role of policy.roles) {
+      const existing = state.roles.find(r => r.name === role.name)
+      const currentPermissions = existing?.permissions.map(rp => rp.permission.name) ?? []
+      const currentParents = existing?.parents.map(link => link.parent.name) ?? []
+
+      role.permissions
+        .filter(name => !currentPermissions.includes(name))
+        .forEach(name => changes.push({ op: 'create', type: 'role-permission', role: role.name, permission: name }))
+      // Mappings to pruned permissions disappear with the cascade
+      currentPermissions
+        .filter(name => !role.permissions.includes(name) && (desiredPermissions.has(name) || !prune))
+        .forEach(name => changes.push({ op: 'delete', type: 'role-permission', role: role.name, permission: name }))
+
+      role.parents
+        .filter(name => !currentParents.includes(name))
+        .forEach(name => changes.push({ op: 'create', type: 'role-parent', role: role.name, parent: name }))
+      currentParents
+        .filter(name => !role.parents.includes(name) && (desiredRoles.has(name) || !prune))
+        .forEach(name => changes.push({ op: 'delete', type: 'role-parent', role: role.name, parent: name }))
+    }
+
+    return changes
+  }
+
+  private compareFields(current: Record<string, unknown>, desired: Record<string, unknown>): FieldChanges | null {
+    const fields: FieldChanges = {}
+
+    for (const [key, to] of Object.entries(desired)) {
+      if (!isDeepStrictEqual(current[key], to)) {
+        fields[key] = { from: current[key], to }
+      }
+    }
+
+    return Object.keys(fields).length > 0 ? fields : null
+  }
+
+  private async getAffectedHolderIds(changes: PolicyChange[], state: CurrentState): Promise<string[]> {
+    const touchedPermissions = new Set(
+      changes.flatMap(change => change.type === 'permission' && change.op !== 'create' ? [change.name] : [])
+    )
+    const touchedRoles = new Set(changes.flatMap(change => {
+      if (change.type === 'role-permission' || change.type === 'role-parent') {
+        return [change.role]
+      }
+      return change.type === 'role' ? [change.name] : []
+    }))
+
+    const roleIds = state.roles
+      .filter(role => touchedRoles.has(role.name) || role.permissions.some(rp => touchedPermissions.has(rp.permission.name)))
+      .map(role => role.id)
+
+    return roleIds.length > 0 ? await rbacService.getRoleHolderIds(...roleIds) : []
+  }
+}
+
+// Singleton instance
+export const rbacPolicyService = new RBACPolicyService()
\ No newline at end of file
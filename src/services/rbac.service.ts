@@ -1,4 +1,11 @@
+import { isDeepStrictEqual } from 'node:util'
+import { Prisma } from '@prisma/client'
 import { prisma } from '../config/database.js'
+import { permissionCache, type CachedPermission, type UserAccess } from './permission-cache.service.js'
+import { auditService } from './audit.service.js'
+import { tokenService } from './token.service.js'
+import { findMatchingPermissions } from '../utils/permissions.js'
+import { traceCondition, type ConditionTrace, type PolicyCondition } from '../utils/conditions.js'
 import type {
   CreateRoleRequest,
   UpdateRoleRequest,
@@ -9,10 +16,24 @@ import type {
   AssignPermissionToRoleRequest,
   UnassignPermissionFromRoleRequest,
   CheckPermissionRequest,
+  SetRoleParentsRequest,
   RolesQuery,
   PermissionsQuery
 } from '../schemas/rbac.js'
 
+export interface PermissionEvaluation {
+  permission: Pick<CachedPermission, 'id' | 'name' | 'resource' | 'action'>
+  condition: PolicyCondition | null
+  passed: boolean
+  trace: ConditionTrace | null
+}
+
+export interface PermissionExplanation {
+  decision: 'allow' | 'deny'
+  reason: string
+  evaluated: PermissionEvaluation[]
+}
+
 export class RBACService {
   // Role management
   async createRole(data: CreateRoleRequest) {
@@ -24,10 +45,11 @@ export class RBACService {
       throw new Error('Role with this name already exists')
     }
 
-    return await prisma.role.create({
+    const role = await prisma.role.create({
       data: {
         name: data.name,
-        description: data.description
+        description: data.description,
+        requireMfa: data.requireMfa
       },
       include: {
         permissions: {
@@ -37,6 +59,18 @@ export class RBACService {
         }
       }
     })
+
+    await Promise.all([
+      permissionCache.invalidateRoleList(),
+      auditService.record({
+        action: 'rbac.role.create',
+        targetType: 'role',
+        targetId: role.id,
+        after: this.roleSnapshot(role)
+      })
+    ])
+
+    return role
   }
 
   async getRoles(query: RolesQuery) {
@@ -114,7 +148,7 @@ export class RBACService {
       }
     }
 
-    return await prisma.role.update({
+    const role = await prisma.role.update({
       where: { id },
       data,
       include: {
@@ -125,6 +159,20 @@ export class RBACService {
         }
       }
     })
+
+    await Promise.all([
+      this.invalidateRoleHolders(id),
+      permissionCache.invalidateRoleList(),
+      auditService.record({
+        action: 'rbac.role.update',
+        targetType: 'role',
+        targetId: id,
+        before: this.roleSnapshot(existingRole),
+        after: this.roleSnapshot(role)
+      })
+    ])
+
+    return role
   }
 
   async deleteRole(id: string) {
@@ -134,33 +182,49 @@ export class RBACService {
       throw new Error('Role not found')
     }
 
+    // Collect holders before the cascade removes their assignments
+    const holderIds = await this.getRoleHolderIds(id)
+
     await prisma.role.delete({ where: { id } })
+
+    await Promise.all([
+      permissionCache.invalidateUsers(holderIds),
+      permissionCache.invalidateRoleList(),
+      auditService.record({
+        action: 'rbac.role.delete',
+        targetType: 'role',
+        targetId: id,
+        before: this.roleSnapshot(role)
+      })
+    ])
+
     return { message: 'Role deleted successfully' }
   }
 
   // Permission management
   async createPermission(data: CreatePermissionRequest) {
-    const existingPermission = await prisma.permission.findFirst({
-      where: {
-        AND: [
-          { resource: data.resource },
-          { action: data.action }
-        ]
-      }
-    })
-
-    if (existingPermission) {
-      throw new Error('Permission with this resource and action already exists')
+    if (await this.hasConflictingPermission(data.resource, data.action, data.condition ?? null)) {
+      throw new Error('Permission with this resource, action and condition already exists')
     }
 
-    return await prisma.permission.create({
+    const permission = await prisma.permission.create({
       data: {
         name: data.name,
         resource: data.resource,
         action: data.action,
-        description: data.description
+        description: data.description,
+        condition: data.condition as Prisma.InputJsonValue | undefined
       }
     })
+
+    await auditService.record({
+      action: 'rbac.permission.create',
+      targetType: 'permission',
+      targetId: permission.id,
+      after: this.permissionSnapshot(permission)
+    })
+
+    return permission
   }
 
   async getPermissions(query: PermissionsQuery) {
@@ -209,26 +273,40 @@ export class RBACService {
       throw new Error('Permission not found')
     }
 
-    if ((data.resource || data.action) && 
-        (data.resource !== existingPermission.resource || data.action !== existingPermission.action)) {
-      const conflictCheck = await prisma.permission.findFirst({
-        where: {
-          AND: [
-            { resource: data.resource || existingPermission.resource },
-            { action: data.action || existingPermission.action }
-          ]
-        }
-      })
-      
-      if (conflictCheck) {
-        throw new Error('Permission with this resource and action already exists')
+    if (data.resource !== undefined || data.action !== undefined || data.condition !== undefined) {
+      const hasConflict = await this.hasConflictingPermission(
+        data.resource || existingPermission.resource,
+        data.action || existingPermission.action,
+        data.condition !== undefined ? data.condition : existingPermission.condition as PolicyCondition | null,
+        id
+      )
+
+      if (hasConflict) {
+        throw new Error('Permission with this resource, action and condition already exists')
       }
     }
 
-    return await prisma.permission.update({
+    const permission = await prisma.permission.update({
       where: { id },
-      data
+      data: {
+        ...data,
+        // Clearing a JSON column needs the database null sentinel
+        condition: data.condition === null ? Prisma.DbNull : data.condition as Prisma.InputJsonValue | undefined
+      }
     })
+
+    await Promise.all([
+      this.invalidatePermissionHolders(id),
+      auditService.record({
+        action: 'rbac.permission.update',
+        targetType: 'permission',
+        targetId: id,
+        before: this.permissionSnapshot(existingPermission),
+        after: this.permissionSnapshot(permission)
+      })
+    ])
+
+    return permission
   }
 
   async deletePermission(id: string) {
@@ -238,7 +316,20 @@ export class RBACService {
       throw new Error('Permission not found')
     }
 
+    const holderIds = await this.getPermissionHolderIds(id)
+
     await prisma.permission.delete({ where: { id } })
+
+    await Promise.all([
+      permissionCache.invalidateUsers(holderIds),
+      auditService.record({
+        action: 'rbac.permission.delete',
+        targetType: 'permission',
+        targetId: id,
+        before: this.permissionSnapshot(permission)
+      })
+    ])
+
     return { message: 'Permission deleted successfully' }
   }
 
@@ -266,19 +357,41 @@ export class RBACService {
       }
     })
 
-    if (existingAssignment) {
+    // An expired assignment that has not been purged yet can be granted again
+    if (existingAssignment && !this.isExpired(existingAssignment.expiresAt)) {
       throw new Error('User already has this role')
     }
 
-    return await prisma.userRole.create({
-      data: {
-        userId,
-        roleId: data.roleId
-      },
-      include: {
-        role: true
-      }
-    })
+    const userRole = existingAssignment
+      ? await prisma.userRole.update({
+          where: { id: existingAssignment.id },
+          data: { expiresAt: data.expiresAt ?? null },
+          include: {
+            role: true
+          }
+        })
+      : await prisma.userRole.create({
+          data: {
+            userId,
+            roleId: data.roleId,
+            expiresAt: data.expiresAt
+          },
+          include: {
+            role: true
+          }
+        })
+
+    await Promise.all([
+      permissionCache.invalidateUsers([userId]),
+      auditService.record({
+        action: 'rbac.user_role.assign',
+        targetType: 'user',
+        targetId: userId,
+        after: { roleId: data.roleId, expiresAt: data.expiresAt ?? null }
+      })
+    ])
+
+    return userRole
   }
 
   async unassignRoleFromUser(userId: string, data: UnassignRoleRequest) {
@@ -304,31 +417,85 @@ export class RBACService {
       }
     })
 
+    // Tokens issued while the user held the role must not outlive it
+    await Promise.all([
+      permissionCache.invalidateUsers([userId]),
+      tokenService.revokeAllUserTokens(userId),
+      auditService.record({
+        action: 'rbac.user_role.unassign',
+        targetType: 'user',
+        targetId: userId,
+        before: { roleId: data.roleId, expiresAt: userRole.expiresAt }
+      })
+    ])
+
     return { message: 'Role unassigned successfully' }
   }
 
-  async getUserRoles(userId: string) {
-    const userRoles = await prisma.userRole.findMany({
-      where: { userId },
+  /**
+   * Delete role assignments whose expiry has passed and return what was removed
+   */
+  async purgeExpiredRoleAssignments() {
+    const now = new Date()
+    const expired = await prisma.userRole.findMany({
+      where: { expiresAt: { lte: now } },
       include: {
         role: {
-          include: {
-            permissions: {
-              include: {
-                permission: true
-              }
-            }
+          select: {
+            id: true,
+            name: true
           }
         }
       }
     })
 
-    return userRoles.map(ur => ({
-      ...ur.role,
-      permissions: ur.role.permissions.map((rp: any) => rp.permission)
+    if (expired.length === 0) {
+      return []
+    }
+
+    const ids = expired.map(assignment => assignment.id)
+
+    // An assignment renewed since it was selected is no longer expired and stays
+    await prisma.userRole.deleteMany({
+      where: { id: { in: ids }, expiresAt: { lte: now } }
+    })
+
+    const renewed = new Set((await prisma.userRole.findMany({
+      where: { id: { in: ids } },
+      select: { id: true }
+    })).map(assignment => assignment.id))
+    const purged = expired.filter(assignment => !renewed.has(assignment.id))
+
+    if (purged.length === 0) {
+      return []
+    }
+
+    const userIds = [...new Set(purged.map(assignment => assignment.userId))]
+
+    await Promise.all([
+      permissionCache.invalidateUsers(userIds),
+      ...userIds.map(userId => tokenService.revokeAllUserTokens(userId)),
+      ...purged.map(assignment => auditService.record({
+        action: 'rbac.user_role.expire',
+        targetType: 'user',
+        targetId: assignment.userId,
+        before: { roleId: assignment.roleId, expiresAt: assignment.expiresAt },
+        actorId: null
+      }))
+    ])
+
+    return purged.map(assignment => ({
+      userId: assignment.userId,
+      role: assignment.role,
+      expiresAt: assignment.expiresAt!
     }))
   }
 
+  async getUserRoles(userId: string) {
+    const access = await this.getUserAccess(userId)
+    return access.roles
+  }
+
   // Role permission assignment
   async assignPermissionToRole(roleId: string, data: AssignPermissionToRoleRequest) {
     const [role, permission] = await Promise.all([
@@ -357,7 +524,7 @@ export class RBACService {
       throw new Error('Role already has this permission')
     }
 
-    return await prisma.rolePermission.create({
+    const rolePermission = await prisma.rolePermission.create({
       data: {
         roleId,
         permissionId: data.permissionId
@@ -366,6 +533,18 @@ export class RBACService {
         permission: true
       }
     })
+
+    await Promise.all([
+      this.invalidateRoleHolders(roleId),
+      auditService.record({
+        action: 'rbac.role_permission.assign',
+        targetType: 'role',
+        targetId: roleId,
+        after: { permissionId: data.permissionId }
+      })
+    ])
+
+    return rolePermission
   }
 
   async unassignPermissionFromRole(roleId: string, data: UnassignPermissionFromRoleRequest) {
@@ -391,45 +570,224 @@ export class RBACService {
       }
     })
 
+    await Promise.all([
+      this.invalidateRoleHolders(roleId),
+      auditService.record({
+        action: 'rbac.role_permission.unassign',
+        targetType: 'role',
+        targetId: roleId,
+        before: { permissionId: data.permissionId }
+      })
+    ])
+
     return { message: 'Permission unassigned successfully' }
   }
 
-  // Permission checking
-  async checkUserPermission(userId: string, data: CheckPermissionRequest) {
-    const userRoles = await prisma.userRole.findMany({
-      where: { userId },
+  // Role inheritance
+  async setRoleParents(roleId: string, data: SetRoleParentsRequest) {
+    const role = await prisma.role.findUnique({ where: { id: roleId } })
+
+    if (!role) {
+      throw new Error('Role not found')
+    }
+
+    const parentIds = [...new Set(data.parentIds)]
+
+    if (parentIds.length > 0) {
+      const parents = await prisma.role.findMany({
+        where: { id: { in: parentIds } },
+        select: { id: true }
+      })
+
+      if (parents.length !== parentIds.length) {
+        throw new Error('Parent role not found')
+      }
+    }
+
+    // A role may not inherit from itself or from any of its own descendants
+    const parentAncestorIds = await this.getAncestorRoleIds(parentIds)
+    if (parentIds.includes(roleId) || parentAncestorIds.includes(roleId)) {
+      throw new Error('Role inheritance cycle detected')
+    }
+
+    const currentLinks = await prisma.roleInheritance.findMany({
+      where: { roleId },
+      select: { parentId: true }
+    })
+
+    await prisma.$transaction([
+      prisma.roleInheritance.deleteMany({ where: { roleId } }),
+      prisma.roleInheritance.createMany({
+        data: parentIds.map(parentId => ({ roleId, parentId }))
+      })
+    ])
+
+    await Promise.all([
+      this.invalidateRoleHolders(roleId),
+      auditService.record({
+        action: 'rbac.role.parents.update',
+        targetType: 'role',
+        targetId: roleId,
+        before: { parentIds: currentLinks.map(link => link.parentId).sort() },
+        after: { parentIds: [...parentIds].sort() }
+      })
+    ])
+
+    return await this.getRoleParents(roleId)
+  }
+
+  async getRoleParents(roleId: string) {
+    const role = await prisma.role.findUnique({
+      where: { id: roleId },
       include: {
-        role: {
+        parents: {
           include: {
-            permissions: {
-              include: {
-                permission: true
-              },
-              where: {
-                permission: {
-                  resource: data.resource,
-                  action: data.action
-                }
-              }
-            }
+            parent: true
           }
         }
       }
     })
 
-    const hasPermission = userRoles.some(ur => 
-      ur.role.permissions.some((rp: any) => 
-        rp.permission.resource === data.resource && 
-        rp.permission.action === data.action
-      )
-    )
+    if (!role) {
+      throw new Error('Role not found')
+    }
+
+    const ancestorIds = await this.getAncestorRoleIds([roleId])
+    const ancestors = ancestorIds.length > 0
+      ? await prisma.role.findMany({ where: { id: { in: ancestorIds } } })
+      : []
 
-    return { hasPermission }
+    return {
+      parents: role.parents.map(link => link.parent),
+      ancestors
+    }
+  }
+
+  async getRoleEffectivePermissions(roleId: string) {
+    const role = await prisma.role.findUnique({ where: { id: roleId } })
+
+    if (!role) {
+      throw new Error('Role not found')
+    }
+
+    const ancestorIds = await this.getAncestorRoleIds([roleId])
+    const roles = await prisma.role.findMany({
+      where: { id: { in: [roleId, ...ancestorIds] } },
+      include: {
+        permissions: {
+          include: {
+            permission: true
+          }
+        }
+      }
+    })
+
+    // Own permissions take precedence over inherited ones when reporting the source
+    const ordered = [
+      ...roles.filter(r => r.id === roleId),
+      ...ancestorIds.map(id => roles.find(r => r.id === id)).filter(r => r !== undefined)
+    ]
+
+    const permissions = new Map()
+
+    ordered.forEach(source => {
+      source.permissions.forEach((rp: any) => {
+        const key = rp.permission.id
+        if (!permissions.has(key)) {
+          permissions.set(key, {
+            ...rp.permission,
+            inheritedFrom: source.id === roleId ? null : { id: source.id, name: source.name }
+          })
+        }
+      })
+    })
+
+    return {
+      role,
+      permissions: Array.from(permissions.values())
+    }
+  }
+
+  // Permission checking
+
+  /**
+   * Check `resource:action` for a user. Matching permissions are tried most specific first;
+   * a conditional permission only grants access when its condition holds for `subject`
+   * (defaults to `{ id: userId }`) and `data.resourceAttributes`.
+   * With `data.explain` the result also records how each candidate was decided.
+   */
+  async checkUserPermission(userId: string, data: CheckPermissionRequest, subject?: Record<string, unknown>) {
+    const { permissions } = await this.getUserAccess(userId)
+    const context = {
+      user: subject ?? { id: userId },
+      resource: data.resourceAttributes ?? null
+    }
+
+    const evaluated: PermissionEvaluation[] = []
+    let matchedPermission: CachedPermission | null = null
+
+    for (const permission of findMatchingPermissions(permissions, data.resource, data.action)) {
+      const condition = permission.condition ?? null
+      const trace = condition ? traceCondition(condition, context) : null
+      const passed = trace?.passed ?? true
+
+      evaluated.push({
+        permission: { id: permission.id, name: permission.name, resource: permission.resource, action: permission.action },
+        condition,
+        passed,
+        trace
+      })
+
+      if (passed) {
+        matchedPermission = permission
+        break
+      }
+    }
+
+    const result = {
+      hasPermission: matchedPermission !== null,
+      matchedPermission
+    }
+
+    if (!data.explain) {
+      return result
+    }
+
+    return {
+      ...result,
+      explanation: this.explainDecision(data, matchedPermission, evaluated)
+    }
   }
 
   async getUserPermissions(userId: string) {
+    const access = await this.getUserAccess(userId)
+    return access.permissions
+  }
+
+  /**
+   * Whether one of the user's roles, or a role they inherit, requires two-factor authentication
+   */
+  async requiresMfa(userId: string): Promise<boolean> {
+    const access = await this.getUserAccess(userId)
+    return [...access.roles, ...access.inheritedRoles].some(role => role.requireMfa)
+  }
+
+  // Effective access resolution (cached per user in Redis)
+  private async getUserAccess(userId: string): Promise<UserAccess> {
+    const cached = await permissionCache.get(userId)
+    if (cached) {
+      return cached
+    }
+
+    const now = new Date()
     const userRoles = await prisma.userRole.findMany({
-      where: { userId },
+      where: {
+        userId,
+        OR: [
+          { expiresAt: null },
+          { expiresAt: { gt: now } }
+        ]
+      },
       include: {
         role: {
           include: {
@@ -443,17 +801,205 @@ export class RBACService {
       }
     })
 
+    const roles = userRoles.map(ur => ({
+      ...ur.role,
+      expiresAt: ur.expiresAt,
+      permissions: ur.role.permissions.map((rp: any) => rp.permission)
+    }))
+
+    const ancestorIds = await this.getAncestorRoleIds(roles.map(role => role.id))
+    const ancestorRoles = ancestorIds.length > 0
+      ? await prisma.role.findMany({
+          where: { id: { in: ancestorIds } },
+          include: {
+            permissions: {
+              include: {
+                permission: true
+              }
+            }
+          }
+        })
+      : []
+
+    const inheritedRoles = ancestorRoles.map(role => ({
+      ...role,
+      permissions: role.permissions.map((rp: any) => rp.permission)
+    }))
+
     const permissions = new Map()
     
-    userRoles.forEach(ur => {
-      ur.role.permissions.forEach((rp: any) => {
-        const key = `${rp.permission.resource}:${rp.permission.action}`
-        if (!permissions.has(key)) {
-          permissions.set(key, rp.permission)
+    for (const role of [...roles, ...inheritedRoles]) {
+      role.permissions.forEach((permission: any) => {
+        if (!permissions.has(permission.id)) {
+          permissions.set(permission.id, permission)
         }
       })
+    }
+
+    const access: UserAccess = {
+      roles,
+      inheritedRoles,
+      permissions: Array.from(permissions.values())
+    }
+
+    // Never cache access past the moment the earliest time-bound assignment lapses
+    const expiries = userRoles
+      .map(ur => ur.expiresAt?.getTime())
+      .filter((expiry): expiry is number => expiry !== undefined)
+    const validUntil = expiries.length > 0 ? new Date(Math.min(...expiries)) : undefined
+
+    await permissionCache.set(userId, access, validUntil)
+
+    return access
+  }
+
+  private explainDecision(
+    data: CheckPermissionRequest,
+    matchedPermission: CachedPermission | null,
+    evaluated: PermissionEvaluation[]
+  ): PermissionExplanation {
+    const target = `${data.resource}:${data.action}`
+
+    if (matchedPermission) {
+      return {
+        decision: 'allow',
+        reason: matchedPermission.condition
+          ? `Granted by ${matchedPermission.name}, whose condition was met`
+          : `Granted by ${matchedPermission.name}`,
+        evaluated
+      }
+    }
+
+    return {
+      decision: 'deny',
+      reason: evaluated.length === 0
+        ? `No permission matches ${target}`
+        : `Every permission matching ${target} has a condition that was not met`,
+      evaluated
+    }
+  }
+
+  // Conditional permissions may share resource and action as long as their conditions differ
+  private async hasConflictingPermission(
+    resource: string,
+    action: string,
+    condition: PolicyCondition | null,
+    excludeId?: string
+  ): Promise<boolean> {
+    const candidates = await prisma.permission.findMany({
+      where: { resource, action }
     })
 
-    return Array.from(permissions.values())
+    return candidates.some(candidate =>
+      candidate.id !== excludeId && isDeepStrictEqual(candidate.condition ?? null, condition)
+    )
+  }
+
+  private roleSnapshot(role: { name: string; description: string | null; requireMfa: boolean }) {
+    return { name: role.name, description: role.description, requireMfa: role.requireMfa }
+  }
+
+  private permissionSnapshot(permission: {
+    name: string
+    resource: string
+    action: string
+    description: string | null
+    condition?: unknown
+  }) {
+    return {
+      name: permission.name,
+      resource: permission.resource,
+      action: permission.action,
+      description: permission.description,
+      condition: permission.condition ?? null
+    }
+  }
+
+  private isExpired(expiresAt: Date | null): boolean {
+    return expiresAt !== null && expiresAt.getTime() <= Date.now()
+  }
+
+  /**
+   * Walk parent links breadth-first and return every ancestor of the given roles,
+   * excluding the roles themselves. Visited tracking makes cyclic data terminate.
+   */
+  private async getAncestorRoleIds(roleIds: string[]): Promise<string[]> {
+    const visited = new Set(roleIds)
+    const ancestors: string[] = []
+    let frontier = [...visited]
+
+    while (frontier.length > 0) {
+      const links = await prisma.roleInheritance.findMany({
+        where: { roleId: { in: frontier } },
+        select: { parentId: true }
+      })
+
+      frontier = []
+      for (const { parentId } of links) {
+        if (!visited.has(parentId)) {
+          visited.add(parentId)
+          ancestors.push(parentId)
+          frontier.push(parentId)
+        }
+      }
+    }
+
+    return ancestors
+  }
+
+  private async getDescendantRoleIds(roleIds: string[]): Promise<string[]> {
+    const visited = new Set(roleIds)
+    const descendants: string[] = []
+    let frontier = [...visited]
+
+    while (frontier.length > 0) {
+      const links = await prisma.roleInheritance.findMany({
+        where: { parentId: { in: frontier } },
+        select: { roleId: true }
+      })
+
+      frontier = []
+      for (const { roleId } of links) {
+        if (!visited.has(roleId)) {
+          visited.add(roleId)
+          descendants.push(roleId)
+          frontier.push(roleId)
+        }
+      }
+    }
+
+    return descendants
+  }
+
+  // Holders of a role include holders of every role inheriting from it
+  async getRoleHolderIds(...roleIds: string[]): Promise<string[]> {
+    const descendantIds = await this.getDescendantRoleIds(roleIds)
+    const holders = await prisma.userRole.findMany({
+      where: { roleId: { in: [...roleIds, ...descendantIds] } },
+      select: { userId: true }
+    })
+
+    return [...new Set(holders.map(holder => holder.userId))]
+  }
+
+  private async getPermissionHolderIds(permissionId: string): Promise<string[]> {
+    const grants = await prisma.rolePermission.findMany({
+      where: { permissionId },
+      select: { roleId: true }
+    })
+
+    if (grants.length === 0) {
+      return []
+    }
+
+    return await this.getRoleHolderIds(...grants.map(grant => grant.roleId))
+  }
+
+  private async invalidateRoleHolders(roleId: string): Promise<void> {
+    await permissionCache.invalidateUsers(await this.getRoleHolderIds(roleId))
+  }
+
+  private async invalidatePermissionHolders(permissionId: string): Promise<void> {
+    await permissionCache.invalidateUsers(await this.getPermissionHolderIds(permissionId))
   }
 }
\ No newline at end of file
@@ -0,0 +1,212 @@
+import { createPublicKey, generateKeyPairSync, type JsonWebKey } from 'node:crypto'
+import { prisma } from '../config/database.js'
+import { env } from '../config/env.js'
+import { logger } from '../config/logger.js'
+
+export type SigningAlgorithm = 'RS256' | 'ES256'
+
+export interface SigningKey {
+  kid: string
+  algorithm: SigningAlgorithm
+  publicKey: string
+  privateKey: string
+  createdAt: Date
+  retiredAt: Date | null
+}
+
+export interface PublicJwk extends JsonWebKey {
+  kid: string
+  alg: SigningAlgorithm
+  use: 'sig'
+}
+
+type SigningKeyRecord = {
+  id: string
+  algorithm: string
+  publicKey: string
+  privateKey: string
+  createdAt: Date
+  retiredAt: Date | null
+}
+
+const toSigningKey = (record: SigningKeyRecord): SigningKey => ({
+  kid: record.id,
+  algorithm: record.algorithm as SigningAlgorithm,
+  publicKey: record.publicKey,
+  privateKey: record.privateKey,
+  createdAt: record.createdAt,
+  retiredAt: record.retiredAt
+})
+
+export class SigningKeyService {
+  // Keys are shared through the database, so other instances' rotations show up within this window
+  private readonly CACHE_TTL_MS = 60 * 1000
+  // Longest-lived token (refresh token) a retired key may still have signed
+  private readonly VERIFICATION_WINDOW_MS =
+    Math.max(env.JWT_REFRESH_TOKEN_TTL_SECONDS, env.JWT_REMEMBER_ME_TTL_SECONDS) * 1000
+  private keys: SigningKey[] | null = null
+  private loadedAt = 0
+  // Shared by concurrent callers, so a cold cache costs one query and a missing key one rotation
+  private loading: Promise<SigningKey[]> | null = null
+  private rotating: Promise<SigningKey> | null = null
+  // Bumped on rotation, so a load that started before it does not cache the keys it replaced
+  private generation = 0
+  // Unknown kids can come from anyone, so they reload the keys at most once per cache window
+  private lastForcedLoadAt = 0
+
+  /**
+   * Key new tokens are signed with. Creates one when there is no active key
+   * or the configured algorithm changed.
+   */
+  async getSigningKey(): Promise<SigningKey> {
+    const keys = await this.loadKeys()
+    const active = keys.find(key => !key.retiredAt)
+
+    if (active && active.algorithm === env.JWT_ALGORITHM) {
+      return active
+    }
+
+    if (!this.rotating) {
+      this.rotating = this.rotate().finally(() => {
+        this.rotating = null
+      })
+    }
+
+    return this.rotating
+  }
+
+  /**
+   * Key a token with the given kid must verify against, or null when it is unknown or past its window
+   */
+  async getVerificationKey(kid: string): Promise<SigningKey | null> {
+    let key = (await this.loadKeys()).find(key => key.kid === kid)
+
+    // The key may have been created by another instance since the last load
+    if (!key && Date.now() - this.lastForcedLoadAt >= this.CACHE_TTL_MS) {
+      this.lastForcedLoadAt = Date.now()
+      key = (await this.loadKeys(true)).find(key => key.kid === kid)
+    }
+
+    return key ?? null
+  }
+
+  /**
+   * Public halves of every key that may still verify a token
+   */
+  async getJwks(): Promise<{ keys: PublicJwk[] }> {
+    const keys = await this.loadKeys()
+
+    return {
+      keys: keys.map(key => ({
+        ...createPublicKey(key.publicKey).export({ format: 'jwk' }),
+        kid: key.kid,
+        alg: key.algorithm,
+        use: 'sig' as const
+      }))
+    }
+  }
+
+  /**
+   * Start signing with a new key. Previous keys are retired and keep verifying for the verification window.
+   */
+  async rotate(): Promise<SigningKey> {
+    const algorithm = env.JWT_ALGORITHM
+    const { publicKey, privateKey } = this.generateKeyPair(algorithm)
+
+    const record = await prisma.$transaction(async (tx) => {
+      const created = await tx.signingKey.create({
+        data: { algorithm, publicKey, privateKey }
+      })
+
+      await tx.signingKey.updateMany({
+        where: { retiredAt: null, id: { not: created.id } },
+        data: { retiredAt: new Date() }
+      })
+
+      return created
+    })
+
+    this.keys = null
+    this.loading = null
+    this.generation++
+    logger.info({ kid: record.id, algorithm }, 'Signing key rotated')
+
+    return toSigningKey(record)
+  }
+
+  /**
+   * Rotate when the active key is older than the rotation interval and
+   * delete retired keys that can no longer verify any token
+   */
+  async rotateIfDue(): Promise<{ rotated: boolean; prunedCount: number }> {
+    const active = (await this.loadKeys(true)).find(key => !key.retiredAt)
+    const maxAgeMs = env.JWT_KEY_ROTATION_DAYS * 24 * 60 * 60 * 1000
+
+    const due = !active ||
+      active.algorithm !== env.JWT_ALGORITHM ||
+      active.createdAt.getTime() + maxAgeMs <= Date.now()
+
+    if (due) {
+      await this.rotate()
+    }
+
+    const { count } = await prisma.signingKey.deleteMany({
+      where: { retiredAt: { lt: new Date(Date.now() - this.VERIFICATION_WINDOW_MS) } }
+    })
+
+    return { rotated: due, prunedCount: count }
+  }
+
+  /**
+   * Active and still-verifying keys, newest first
+   */
+  private async loadKeys(force = false): Promise<SigningKey[]> {
+    if (!force && this.keys && Date.now() - this.loadedAt < this.CACHE_TTL_MS) {
+      return this.keys
+    }
+
+    if (!this.loading) {
+      const loading = this.fetchKeys().finally(() => {
+        if (this.loading === loading) {
+          this.loading = null
+        }
+      })
+      this.loading = loading
+    }
+
+    return this.loading
+  }
+
+  private async fetchKeys(): Promise<SigningKey[]> {
+    const generation = this.generation
+    const records = await prisma.signingKey.findMany({
+      where: {
+        OR: [
+          { retiredAt: null },
+          { retiredAt: { gt: new Date(Date.now() - this.VERIFICATION_WINDOW_MS) } }
+        ]
+      },
+      orderBy: { createdAt: 'desc' }
+    })
+
+    const keys = records.map(toSigningKey)
+    if (generation === this.generation) {
+      this.keys = keys
+      this.loadedAt = Date.now()
+    }
+
+    return keys
+  }
+
+  private generateKeyPair(algorithm: SigningAlgorithm): { publicKey: string; privateKey: string } {
+    const publicKeyEncoding = { type: 'spki', format: 'pem' } as const
+    const privateKeyEncoding = { type: 'pkcs8', format: 'pem' } as const
+
+    return algorithm === 'ES256'
+      ? generateKeyPairSync('ec', { namedCurve: 'P-256', publicKeyEncoding, privateKeyEncoding })
+      : generateKeyPairSync('rsa', { modulusLength: 2048, publicKeyEncoding, privateKeyEncoding })
+  }
+}
+
+// Singleton instance
+export const signingKeyService = new SigningKeyService()
\ No newline at end of file
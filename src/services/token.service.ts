@@ -1,7 +1,16 @@
 import jwt from 'jsonwebtoken'
 import { v4 as uuidv4 } from 'uuid'
+import { tryGetContext } from 'hono/context-storage'
+import type { Session } from '@prisma/client'
+import { env } from '../config/env.js'
+import { prisma } from '../config/database.js'
 import { getRedis } from '../config/redis.js'
 import { logger } from '../config/logger.js'
+import { auditService } from './audit.service.js'
+import { notificationService } from './notification.service.js'
+import { signingKeyService } from './signing-key.service.js'
+import { parseUserAgent, locationFromHeaders, type DeviceType } from '../utils/client-info.js'
+import { hashToken } from '../utils/auth.js'
 
 export interface TokenPayload {
   userId: string
@@ -12,6 +21,11 @@ export interface TokenPayload {
   iat?: number
   iss?: string
   aud?: string
+  jti?: string
+  // Refresh tokens only: the session was created with "remember me"
+  rememberMe?: boolean
+  // The user's token version when the token was issued; tokens issued before versioning count as 0
+  ver?: number
 }
 
 export interface TokenPair {
@@ -21,73 +35,167 @@ export interface TokenPair {
   refreshTokenExpiresAt: Date
 }
 
+export interface TokenOptions {
+  // Client the tokens are issued to, one of JWT_AUDIENCES; defaults to the first
+  audience?: string
+  // Issue a refresh token with the longer JWT_REMEMBER_ME_TTL_SECONDS lifetime
+  rememberMe?: boolean
+  // Name the user gave the device, shown in their session list
+  deviceName?: string
+}
+
+// Describes the client a session was created from
+export interface SessionDevice {
+  deviceName: string | null
+  userAgent: string | null
+  browser: string | null
+  os: string | null
+  deviceType: DeviceType
+  ip: string | null
+  location: string | null
+}
+
+export interface SessionInfo extends SessionDevice {
+  sessionId: string
+  createdAt: string
+  lastUsedAt: string
+  // The session the request listing the sessions was made with
+  isCurrent: boolean
+}
+
+// Stored under token:<sessionId>; sessions created before device tracking lack the device fields
+interface SessionMetadata extends Partial<SessionDevice> {
+  userId: string
+  email: string
+  createdAt: string
+  lastUsedAt: string
+}
+
+// Session row joined with what the Redis metadata needs from its user
+type StoredSession = Session & { user: { email: string } }
+
 export class TokenService {
-  private readonly JWT_SECRET = process.env.JWT_SECRET!
-  private readonly ACCESS_TOKEN_EXPIRY = '15m' // 15 minutes
-  private readonly REFRESH_TOKEN_EXPIRY = '7d' // 7 days
+  private readonly ACCESS_TOKEN_TTL = env.JWT_ACCESS_TOKEN_TTL_SECONDS
+  private readonly REFRESH_TOKEN_TTL = env.JWT_REFRESH_TOKEN_TTL_SECONDS
+  private readonly REMEMBER_ME_TTL = env.JWT_REMEMBER_ME_TTL_SECONDS
+  // No session outlives the longest-lived refresh token
+  private readonly MAX_SESSION_TTL = Math.max(this.REFRESH_TOKEN_TTL, this.REMEMBER_ME_TTL)
   private readonly REDIS_TOKEN_PREFIX = 'token:'
   private readonly REDIS_BLACKLIST_PREFIX = 'blacklist:'
   private readonly REDIS_REFRESH_PREFIX = 'refresh:'
+  private readonly REDIS_ROTATED_PREFIX = 'rotated:'
+  private readonly REDIS_REVOKED_SESSION_PREFIX = 'revoked-session:'
+  // Cache of users' current token version, the database column is authoritative
+  private readonly REDIS_TOKEN_VERSION_PREFIX = 'token-version:'
+  // Sorted set per user: session ids scored by the time (ms) their refresh token expires
+  private readonly REDIS_USER_SESSIONS_PREFIX = 'user-sessions:'
+  private readonly SCAN_BATCH_SIZE = 100
+  // Last use is recorded at most this often per session, rather than with writes on every request
+  private readonly LAST_USED_PRECISION_MS = 60 * 1000
 
   /**
    * Generate a pair of access and refresh tokens
    */
-  async generateTokenPair(userId: string, email: string): Promise<TokenPair> {
+  async generateTokenPair(userId: string, email: string, options: TokenOptions = {}): Promise<TokenPair> {
     const sessionId = uuidv4()
-    const redis = getRedis()
+    const audience = options.audience ?? env.JWT_AUDIENCES[0]
+    const rememberMe = options.rememberMe ?? false
+    const device = this.describeClient(options.deviceName)
+    const now = new Date()
+
+    const tokenVersion = await this.getTokenVersion(userId)
+    if (tokenVersion === null) {
+      throw new Error('User not found')
+    }
+
+    const tokens = await this.issueTokenPair(userId, email, sessionId, audience, rememberMe, tokenVersion)
+    const refreshTokenHash = hashToken(tokens.refreshToken)
+
+    // The database row is the durable record of the session, Redis caches it while it is active
+    await prisma.session.create({
+      data: {
+        id: sessionId,
+        userId,
+        refreshTokenHash,
+        audience,
+        rememberMe,
+        ...device,
+        expiresAt: tokens.refreshTokenExpiresAt,
+        lastUsedAt: now,
+        createdAt: now
+      }
+    })
+
+    const session: SessionMetadata = {
+      userId,
+      email,
+      createdAt: now.toISOString(),
+      lastUsedAt: now.toISOString(),
+      ...device
+    }
+
+    await this.cacheSession(sessionId, session, refreshTokenHash, this.refreshTokenTtl(rememberMe))
+
+    logger.info(`Token pair generated for user ${userId}, session ${sessionId}`)
+
+    return tokens
+  }
+
+  /**
+   * Sign a token pair for a session
+   */
+  private async issueTokenPair(
+    userId: string,
+    email: string,
+    sessionId: string,
+    audience: string,
+    rememberMe: boolean,
+    tokenVersion: number
+  ): Promise<TokenPair> {
+    const signingKey = await signingKeyService.getSigningKey()
 
     // Create token payloads
     const accessPayload: TokenPayload = {
       userId,
       email,
       sessionId,
-      tokenType: 'access'
+      tokenType: 'access',
+      ver: tokenVersion
     }
 
     const refreshPayload: TokenPayload = {
       userId,
       email,
       sessionId,
-      tokenType: 'refresh'
+      tokenType: 'refresh',
+      ver: tokenVersion,
+      ...(rememberMe ? { rememberMe } : {})
     }
 
+    const refreshTokenTtl = this.refreshTokenTtl(rememberMe)
+
     // Generate tokens
-    const accessToken = jwt.sign(accessPayload, this.JWT_SECRET, {
-      expiresIn: this.ACCESS_TOKEN_EXPIRY,
-      issuer: 'honojs-template',
-      audience: 'honojs-template-client'
+    const accessToken = jwt.sign(accessPayload, signingKey.privateKey, {
+      algorithm: signingKey.algorithm,
+      keyid: signingKey.kid,
+      expiresIn: this.ACCESS_TOKEN_TTL,
+      issuer: env.JWT_ISSUER,
+      audience
     })
 
-    const refreshToken = jwt.sign(refreshPayload, this.JWT_SECRET, {
-      expiresIn: this.REFRESH_TOKEN_EXPIRY,
-      issuer: 'honojs-template',
-      audience: 'honojs-template-client'
+    // Every refresh token gets its own id so a rotated token can be recognized when replayed
+    const refreshToken = jwt.sign(refreshPayload, signingKey.privateKey, {
+      algorithm: signingKey.algorithm,
+      keyid: signingKey.kid,
+      expiresIn: refreshTokenTtl,
+      issuer: env.JWT_ISSUER,
+      audience,
+      jwtid: uuidv4()
     })
 
     // Calculate expiration times
-    const accessTokenExpiresAt = new Date(Date.now() + 15 * 60 * 1000) // 15 minutes
-    const refreshTokenExpiresAt = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000) // 7 days
-
-    // Store refresh token in Redis with expiration
-    await redis.setex(
-      `${this.REDIS_REFRESH_PREFIX}${sessionId}`,
-      7 * 24 * 60 * 60, // 7 days in seconds
-      refreshToken
-    )
-
-    // Store session metadata
-    await redis.setex(
-      `${this.REDIS_TOKEN_PREFIX}${sessionId}`,
-      7 * 24 * 60 * 60, // 7 days in seconds
-      JSON.stringify({
-        userId,
-        email,
-        createdAt: new Date().toISOString(),
-        lastUsedAt: new Date().toISOString()
-      })
-    )
-
-    logger.info(`Token pair generated for user ${userId}, session ${sessionId}`)
+    const accessTokenExpiresAt = new Date(Date.now() + this.ACCESS_TOKEN_TTL * 1000)
+    const refreshTokenExpiresAt = new Date(Date.now() + refreshTokenTtl * 1000)
 
     return {
       accessToken,
@@ -111,17 +219,43 @@ export class TokenService {
         return null
       }
 
+      // Look up the key the token claims to be signed with; only its algorithm is accepted
+      const kid = jwt.decode(token, { complete: true })?.header.kid
+      const signingKey = kid ? await signingKeyService.getVerificationKey(kid) : null
+      if (!signingKey) {
+        logger.warn('Token signed with an unknown or expired key')
+        return null
+      }
+
       // Verify JWT token
-      const payload = jwt.verify(token, this.JWT_SECRET, {
-        issuer: 'honojs-template',
-        audience: 'honojs-template-client'
+      const payload = jwt.verify(token, signingKey.publicKey, {
+        algorithms: [signingKey.algorithm],
+        issuer: env.JWT_ISSUER,
+        audience: env.JWT_AUDIENCES
       }) as TokenPayload
 
-      // Update last used timestamp for the session
-      if (payload.sessionId) {
-        await this.updateSessionLastUsed(payload.sessionId)
+      // Tokens issued before the user's token version was last bumped are dead, whatever their session
+      const tokenVersion = await this.getTokenVersion(payload.userId)
+      if (tokenVersion === null || (payload.ver ?? 0) < tokenVersion) {
+        logger.warn(`Attempted to use token invalidated by token version for user ${payload.userId}`)
+        return null
       }
 
+      // Access tokens are not tracked individually, so a revoked session stays marked until they expire
+      if (await redis.exists(`${this.REDIS_REVOKED_SESSION_PREFIX}${payload.sessionId}`)) {
+        logger.warn(`Attempted to use token of revoked session ${payload.sessionId}`)
+        return null
+      }
+
+      // Tokens are only good while their session is active
+      const session = await this.loadSession(payload.sessionId)
+      if (!session) {
+        logger.warn(`Token presented for inactive session ${payload.sessionId}`)
+        return null
+      }
+
+      await this.updateSessionLastUsed(payload.sessionId, session)
+
       return payload
     } catch (error) {
       if (error instanceof jwt.TokenExpiredError) {
@@ -136,9 +270,10 @@ export class TokenService {
   }
 
   /**
-   * Refresh access token using refresh token
+   * Exchange a refresh token for a new token pair. The presented refresh token is spent;
+   * presenting it again is treated as theft and revokes the whole session.
    */
-  async refreshAccessToken(refreshToken: string): Promise<{ accessToken: string; accessTokenExpiresAt: Date } | null> {
+  async refreshAccessToken(refreshToken: string): Promise<TokenPair | null> {
     try {
       const redis = getRedis()
 
@@ -148,44 +283,99 @@ export class TokenService {
         return null
       }
 
-      // Check if refresh token exists in Redis
+      // Check if the session still has a refresh token; verifyToken restored it from the database if needed
       const storedRefreshToken = await redis.get(`${this.REDIS_REFRESH_PREFIX}${payload.sessionId}`)
-      if (!storedRefreshToken || storedRefreshToken !== refreshToken) {
-        logger.warn(`Invalid refresh token for session ${payload.sessionId}`)
+      if (!storedRefreshToken) {
+        logger.warn(`Refresh token presented for inactive session ${payload.sessionId}`)
         return null
       }
 
-      // Generate new access token
-      const accessPayload: TokenPayload = {
-        userId: payload.userId,
-        email: payload.email,
-        sessionId: payload.sessionId,
-        tokenType: 'access'
+      // Mark the token as spent; only the first request to do so may rotate it
+      const firstUse = payload.jti
+        ? await redis.set(
+            `${this.REDIS_ROTATED_PREFIX}${payload.jti}`,
+            payload.sessionId,
+            'EX',
+            Math.max((payload.exp ?? 0) - Math.floor(Date.now() / 1000), 1),
+            'NX'
+          ) === 'OK'
+        : true
+
+      // Sessions cached before refresh tokens were stored hashed hold the token itself
+      const isLatest = storedRefreshToken === hashToken(refreshToken) || storedRefreshToken === refreshToken
+
+      if (!firstUse || !isLatest) {
+        await this.handleRefreshTokenReuse(payload)
+        return null
       }
 
-      const accessToken = jwt.sign(accessPayload, this.JWT_SECRET, {
-        expiresIn: this.ACCESS_TOKEN_EXPIRY,
-        issuer: 'honojs-template',
-        audience: 'honojs-template-client'
+      // The new pair keeps the client and "remember me" choice the session was created with
+      const rememberMe = payload.rememberMe === true
+      const tokens = await this.issueTokenPair(
+        payload.userId,
+        payload.email,
+        payload.sessionId,
+        payload.aud ?? env.JWT_AUDIENCES[0],
+        rememberMe,
+        payload.ver ?? 0
+      )
+
+      const refreshTokenHash = hashToken(tokens.refreshToken)
+      const refreshTokenTtl = this.refreshTokenTtl(rememberMe)
+
+      const { count } = await prisma.session.updateMany({
+        where: { id: payload.sessionId, revokedAt: null },
+        data: { refreshTokenHash, expiresAt: tokens.refreshTokenExpiresAt, lastUsedAt: new Date() }
       })
 
-      const accessTokenExpiresAt = new Date(Date.now() + 15 * 60 * 1000)
+      // The session was revoked while this refresh was under way, so the new pair is never handed out
+      if (count === 0) {
+        logger.warn(`Refresh token presented for session ${payload.sessionId} revoked during the refresh`)
+        return null
+      }
 
-      // Update session last used
-      await this.updateSessionLastUsed(payload.sessionId)
+      // Keep the session alive as long as its newest refresh token
+      await redis.setex(`${this.REDIS_REFRESH_PREFIX}${payload.sessionId}`, refreshTokenTtl, refreshTokenHash)
+      await redis.expire(`${this.REDIS_TOKEN_PREFIX}${payload.sessionId}`, refreshTokenTtl)
+      await this.indexSession(payload.userId, payload.sessionId, refreshTokenTtl)
 
-      logger.info(`Access token refreshed for user ${payload.userId}, session ${payload.sessionId}`)
+      logger.info(`Refresh token rotated for user ${payload.userId}, session ${payload.sessionId}`)
 
-      return {
-        accessToken,
-        accessTokenExpiresAt
-      }
+      return tokens
     } catch (error) {
       logger.error('Error refreshing access token:', error)
       return null
     }
   }
 
+  /**
+   * A rotated refresh token came back, so either the client or an attacker holds a stale copy.
+   * Revoke the session it belongs to and tell the user.
+   */
+  private async handleRefreshTokenReuse(payload: TokenPayload): Promise<void> {
+    logger.warn({ userId: payload.userId, sessionId: payload.sessionId }, 'Refresh token reuse detected, revoking session')
+
+    await this.revokeSession(payload.sessionId)
+
+    await auditService.record({
+      action: 'auth.refresh_token.reuse',
+      targetType: 'session',
+      targetId: payload.sessionId,
+      metadata: { userId: payload.userId },
+      actorId: null
+    })
+
+    await notificationService.notifyUser(payload.userId, {
+      type: 'warning',
+      title: 'Suspicious sign-in activity',
+      message: 'A previously used refresh token was presented again, so that session has been signed out. If this was not you, change your password.',
+      data: {
+        sessionId: payload.sessionId
+      },
+      priority: 'high'
+    })
+  }
+
   /**
    * Revoke a specific token (add to blacklist)
    */
@@ -214,12 +404,18 @@ export class TokenService {
   async revokeSession(sessionId: string): Promise<void> {
     try {
       const redis = getRedis()
+      const sessionData = await redis.get(`${this.REDIS_TOKEN_PREFIX}${sessionId}`)
+
+      // Keep the row as history
+      await prisma.session.updateMany({
+        where: { id: sessionId, revokedAt: null },
+        data: { revokedAt: new Date() }
+      })
 
-      // Remove refresh token
-      await redis.del(`${this.REDIS_REFRESH_PREFIX}${sessionId}`)
-      
-      // Remove session metadata
-      await redis.del(`${this.REDIS_TOKEN_PREFIX}${sessionId}`)
+      await this.uncacheSession(sessionId, sessionData ? JSON.parse(sessionData).userId : null)
+
+      // Reject the session's outstanding access tokens until they expire
+      await redis.setex(`${this.REDIS_REVOKED_SESSION_PREFIX}${sessionId}`, this.ACCESS_TOKEN_TTL, '1')
 
       logger.info(`Session ${sessionId} revoked`)
     } catch (error) {
@@ -229,24 +425,32 @@ export class TokenService {
   }
 
   /**
-   * Revoke all tokens for a user
+   * Revoke all tokens for a user: outstanding access tokens stop working immediately and every session ends
    */
   async revokeAllUserTokens(userId: string): Promise<void> {
     try {
       const redis = getRedis()
 
+      await this.bumpTokenVersion(userId)
+
       // Find all sessions for the user
-      const sessionKeys = await redis.keys(`${this.REDIS_TOKEN_PREFIX}*`)
-      
-      for (const key of sessionKeys) {
-        const sessionData = await redis.get(key)
-        if (sessionData) {
-          const session = JSON.parse(sessionData)
-          if (session.userId === userId) {
-            const sessionId = key.replace(this.REDIS_TOKEN_PREFIX, '')
-            await this.revokeSession(sessionId)
-          }
-        }
+      const sessionIds = await this.getSessionIds(userId)
+
+      for (const sessionId of sessionIds) {
+        await this.revokeSession(sessionId)
+      }
+
+      await redis.del(`${this.REDIS_USER_SESSIONS_PREFIX}${userId}`)
+
+      // API keys are credentials too: one created from a stolen session must not outlive a password reset
+      const { count: apiKeys } = await prisma.apiKey.deleteMany({ where: { userId } })
+      if (apiKeys > 0) {
+        await auditService.record({
+          action: 'auth.api_key.revoke_all',
+          targetType: 'user',
+          targetId: userId,
+          metadata: { count: apiKeys }
+        })
       }
 
       logger.info(`All tokens revoked for user ${userId}`)
@@ -256,30 +460,94 @@ export class TokenService {
     }
   }
 
+  /**
+   * Revoke every session of a user except the one given, typically the caller's own
+   */
+  async revokeOtherSessions(userId: string, currentSessionId: string): Promise<number> {
+    const sessionIds = await this.getSessionIds(userId)
+    const otherSessionIds = sessionIds.filter(sessionId => sessionId !== currentSessionId)
+
+    for (const sessionId of otherSessionIds) {
+      await this.revokeSession(sessionId)
+    }
+
+    logger.info(`Revoked ${otherSessionIds.length} other sessions for user ${userId}`)
+    return otherSessionIds.length
+  }
+
+  /**
+   * Check that a session belongs to a user
+   */
+  async isUserSession(userId: string, sessionId: string): Promise<boolean> {
+    const session = await this.loadSession(sessionId)
+
+    return session?.userId === userId
+  }
+
+  /**
+   * Give one of a user's sessions a name. Returns false when the session is not theirs or is gone.
+   */
+  async renameSession(userId: string, sessionId: string, deviceName: string): Promise<boolean> {
+    const redis = getRedis()
+    const sessionKey = `${this.REDIS_TOKEN_PREFIX}${sessionId}`
+
+    const session = await this.loadSession(sessionId)
+    if (session?.userId !== userId) {
+      return false
+    }
+
+    await prisma.session.updateMany({ where: { id: sessionId }, data: { deviceName } })
+
+    const ttl = await redis.ttl(sessionKey)
+    if (ttl > 0) {
+      await redis.setex(sessionKey, ttl, JSON.stringify({ ...session, deviceName }))
+    }
+
+    return true
+  }
+
   /**
    * Get active sessions for a user
    */
-  async getUserSessions(userId: string): Promise<Array<{ sessionId: string; createdAt: string; lastUsedAt: string }>> {
+  async getUserSessions(userId: string, currentSessionId?: string): Promise<SessionInfo[]> {
     try {
       const redis = getRedis()
-      const sessions = []
-
-      const sessionKeys = await redis.keys(`${this.REDIS_TOKEN_PREFIX}*`)
-      
-      for (const key of sessionKeys) {
-        const sessionData = await redis.get(key)
-        if (sessionData) {
-          const session = JSON.parse(sessionData)
-          if (session.userId === userId) {
-            sessions.push({
-              sessionId: key.replace(this.REDIS_TOKEN_PREFIX, ''),
-              createdAt: session.createdAt,
-              lastUsedAt: session.lastUsedAt
-            })
-          }
+
+      const sessionIds = await this.getSessionIds(userId)
+      if (sessionIds.length === 0) {
+        return []
+      }
+
+      const sessionData = await redis.mget(...sessionIds.map(sessionId => `${this.REDIS_TOKEN_PREFIX}${sessionId}`))
+      const sessions: SessionInfo[] = []
+      const staleSessionIds = []
+
+      for (const [index, data] of sessionData.entries()) {
+        // Metadata evicted from Redis is restored from the database unless the session ended
+        const session: SessionMetadata | null = data ? JSON.parse(data) : await this.loadSession(sessionIds[index])
+        if (session) {
+          sessions.push({
+            sessionId: sessionIds[index],
+            createdAt: session.createdAt,
+            lastUsedAt: session.lastUsedAt,
+            deviceName: session.deviceName ?? null,
+            userAgent: session.userAgent ?? null,
+            browser: session.browser ?? null,
+            os: session.os ?? null,
+            deviceType: session.deviceType ?? 'unknown',
+            ip: session.ip ?? null,
+            location: session.location ?? null,
+            isCurrent: sessionIds[index] === currentSessionId
+          })
+        } else {
+          staleSessionIds.push(sessionIds[index])
         }
       }
 
+      if (staleSessionIds.length > 0) {
+        await redis.zrem(`${this.REDIS_USER_SESSIONS_PREFIX}${userId}`, ...staleSessionIds)
+      }
+
       return sessions
     } catch (error) {
       logger.error('Error getting user sessions:', error)
@@ -288,22 +556,275 @@ export class TokenService {
   }
 
   /**
-   * Update session last used timestamp
+   * Add sessions created before the per-user index existed to it. Safe to run repeatedly
+   * and while serving traffic, as it walks session keys with SCAN in batches.
+   */
+  async migrateSessionIndex(): Promise<{ indexedCount: number }> {
+    const redis = getRedis()
+    let indexedCount = 0
+
+    await this.scanKeys(`${this.REDIS_TOKEN_PREFIX}*`, async (keys) => {
+      for (const key of keys) {
+        const [sessionData, ttl] = await Promise.all([redis.get(key), redis.ttl(key)])
+        if (!sessionData || ttl <= 0) {
+          continue
+        }
+
+        const { userId } = JSON.parse(sessionData)
+        await this.indexSession(userId, key.slice(this.REDIS_TOKEN_PREFIX.length), ttl)
+        indexedCount++
+      }
+    })
+
+    logger.info(`Session index migration completed, indexed ${indexedCount} sessions`)
+    return { indexedCount }
+  }
+
+  /**
+   * Device details of the request creating a session, taken from the current request when there is one
+   */
+  private describeClient(deviceName?: string): SessionDevice {
+    const c = tryGetContext()
+    const userAgent = c?.req.header('User-Agent') ?? null
+
+    return {
+      deviceName: deviceName ?? null,
+      userAgent,
+      ...parseUserAgent(userAgent),
+      ip: c?.get('clientIP') ?? null,
+      location: c ? locationFromHeaders(name => c.req.header(name)) : null
+    }
+  }
+
+  /**
+   * Current token version of a user, null when the user does not exist
+   */
+  private async getTokenVersion(userId: string): Promise<number | null> {
+    const redis = getRedis()
+    const versionKey = `${this.REDIS_TOKEN_VERSION_PREFIX}${userId}`
+
+    const cached = await redis.get(versionKey)
+    if (cached !== null) {
+      return Number(cached)
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { tokenVersion: true }
+    })
+
+    if (!user) {
+      return null
+    }
+
+    // NX, so a version read before a concurrent bump cannot overwrite the bumped one
+    await redis.set(versionKey, String(user.tokenVersion), 'EX', this.MAX_SESSION_TTL, 'NX')
+
+    return user.tokenVersion
+  }
+
+  /**
+   * Invalidate every token issued to a user so far
+   */
+  private async bumpTokenVersion(userId: string): Promise<void> {
+    const redis = getRedis()
+
+    const { tokenVersion } = await prisma.user.update({
+      where: { id: userId },
+      data: { tokenVersion: { increment: 1 } },
+      select: { tokenVersion: true }
+    })
+
+    await redis.setex(`${this.REDIS_TOKEN_VERSION_PREFIX}${userId}`, this.MAX_SESSION_TTL, String(tokenVersion))
+
+    logger.info(`Token version of user ${userId} bumped to ${tokenVersion}`)
+  }
+
+  /**
+   * Ids of a user's active sessions
+   */
+  private async getSessionIds(userId: string): Promise<string[]> {
+    const redis = getRedis()
+    const indexKey = `${this.REDIS_USER_SESSIONS_PREFIX}${userId}`
+
+    // Sessions whose refresh token expired are gone already, drop them from the index first
+    await redis.zremrangebyscore(indexKey, '-inf', Date.now())
+
+    if (!(await redis.exists(indexKey))) {
+      await this.rebuildSessionIndex(userId)
+    }
+
+    return redis.zrange(indexKey, 0, -1)
+  }
+
+  /**
+   * Session metadata from Redis, or from the database when the cache lost it.
+   * Null once the session is revoked or expired.
+   */
+  private async loadSession(sessionId: string): Promise<SessionMetadata | null> {
+    const redis = getRedis()
+    const sessionData = await redis.get(`${this.REDIS_TOKEN_PREFIX}${sessionId}`)
+    if (sessionData) {
+      return JSON.parse(sessionData)
+    }
+
+    const storedSession = await prisma.session.findUnique({
+      where: { id: sessionId },
+      include: { user: { select: { email: true } } }
+    })
+
+    if (!storedSession || storedSession.revokedAt || storedSession.expiresAt.getTime() <= Date.now()) {
+      return null
+    }
+
+    const session = await this.restoreSession(storedSession)
+
+    // A revocation between reading the row and caching it cleared the cache before it was written, so look again
+    const current = await prisma.session.findUnique({ where: { id: sessionId }, select: { revokedAt: true } })
+    if (!current || current.revokedAt) {
+      await this.uncacheSession(sessionId, session.userId)
+      return null
+    }
+
+    return session
+  }
+
+  /**
+   * Cache a session row in Redis again for the rest of its lifetime
+   */
+  private async restoreSession(storedSession: StoredSession): Promise<SessionMetadata> {
+    const session: SessionMetadata = {
+      userId: storedSession.userId,
+      email: storedSession.user.email,
+      createdAt: storedSession.createdAt.toISOString(),
+      lastUsedAt: storedSession.lastUsedAt.toISOString(),
+      deviceName: storedSession.deviceName,
+      userAgent: storedSession.userAgent,
+      browser: storedSession.browser,
+      os: storedSession.os,
+      deviceType: storedSession.deviceType as DeviceType,
+      ip: storedSession.ip,
+      location: storedSession.location
+    }
+
+    const ttl = Math.ceil((storedSession.expiresAt.getTime() - Date.now()) / 1000)
+    await this.cacheSession(storedSession.id, session, storedSession.refreshTokenHash, ttl)
+
+    logger.info(`Session ${storedSession.id} restored from the database`)
+    return session
+  }
+
+  /**
+   * Cache a session's metadata and current refresh token hash, and index it under its user
+   */
+  private async cacheSession(
+    sessionId: string,
+    session: SessionMetadata,
+    refreshTokenHash: string,
+    ttlSeconds: number
+  ): Promise<void> {
+    const redis = getRedis()
+
+    await redis.setex(`${this.REDIS_TOKEN_PREFIX}${sessionId}`, ttlSeconds, JSON.stringify(session))
+    await redis.setex(`${this.REDIS_REFRESH_PREFIX}${sessionId}`, ttlSeconds, refreshTokenHash)
+    await this.indexSession(session.userId, sessionId, ttlSeconds)
+  }
+
+  /**
+   * Remove a session's metadata and refresh token from Redis, and from its user's index when the user is known
+   */
+  private async uncacheSession(sessionId: string, userId: string | null): Promise<void> {
+    const redis = getRedis()
+
+    await redis.del(`${this.REDIS_REFRESH_PREFIX}${sessionId}`)
+    await redis.del(`${this.REDIS_TOKEN_PREFIX}${sessionId}`)
+
+    if (userId) {
+      await redis.zrem(`${this.REDIS_USER_SESSIONS_PREFIX}${userId}`, sessionId)
+    }
+  }
+
+  /**
+   * Record a session in its user's index until its refresh token expires
+   */
+  private async indexSession(userId: string, sessionId: string, ttlSeconds: number): Promise<void> {
+    const redis = getRedis()
+    const indexKey = `${this.REDIS_USER_SESSIONS_PREFIX}${userId}`
+
+    // An index that exists lists all of the user's sessions, so one Redis lost has to start from the database
+    if (!(await redis.exists(indexKey))) {
+      await this.rebuildSessionIndex(userId)
+    }
+
+    await redis.zadd(indexKey, Date.now() + ttlSeconds * 1000, sessionId)
+    await redis.expire(indexKey, this.MAX_SESSION_TTL)
+  }
+
+  /**
+   * Index the user's active session rows. Their metadata is restored from the database when first read.
    */
-  private async updateSessionLastUsed(sessionId: string): Promise<void> {
+  private async rebuildSessionIndex(userId: string): Promise<void> {
+    const redis = getRedis()
+    const indexKey = `${this.REDIS_USER_SESSIONS_PREFIX}${userId}`
+
+    const storedSessions = await prisma.session.findMany({
+      where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+      select: { id: true, expiresAt: true }
+    })
+
+    for (const storedSession of storedSessions) {
+      await redis.zadd(indexKey, storedSession.expiresAt.getTime(), storedSession.id)
+    }
+
+    if (storedSessions.length > 0) {
+      await redis.expire(indexKey, this.MAX_SESSION_TTL)
+    }
+  }
+
+  /**
+   * Walk keys matching a pattern without blocking Redis the way KEYS does
+   */
+  private async scanKeys(pattern: string, onBatch: (keys: string[]) => Promise<void>): Promise<void> {
+    const redis = getRedis()
+    let cursor = '0'
+
+    do {
+      const [nextCursor, keys] = await redis.scan(cursor, 'MATCH', pattern, 'COUNT', this.SCAN_BATCH_SIZE)
+      cursor = nextCursor
+
+      if (keys.length > 0) {
+        await onBatch(keys)
+      }
+    } while (cursor !== '0')
+  }
+
+  /**
+   * Refresh token lifetime in seconds
+   */
+  private refreshTokenTtl(rememberMe: boolean): number {
+    return rememberMe ? this.REMEMBER_ME_TTL : this.REFRESH_TOKEN_TTL
+  }
+
+  /**
+   * Update session last used timestamp, in Redis and in the session row that outlives it
+   */
+  private async updateSessionLastUsed(sessionId: string, session: SessionMetadata): Promise<void> {
+    if (Date.now() - new Date(session.lastUsedAt).getTime() < this.LAST_USED_PRECISION_MS) {
+      return
+    }
+
     try {
       const redis = getRedis()
       const sessionKey = `${this.REDIS_TOKEN_PREFIX}${sessionId}`
-      const sessionData = await redis.get(sessionKey)
-      
-      if (sessionData) {
-        const session = JSON.parse(sessionData)
-        session.lastUsedAt = new Date().toISOString()
-        
-        // Get TTL and reset it
-        const ttl = await redis.ttl(sessionKey)
-        await redis.setex(sessionKey, ttl > 0 ? ttl : 7 * 24 * 60 * 60, JSON.stringify(session))
+      const lastUsedAt = new Date()
+
+      // Keep the TTL the session already has
+      const ttl = await redis.ttl(sessionKey)
+      if (ttl > 0) {
+        await redis.setex(sessionKey, ttl, JSON.stringify({ ...session, lastUsedAt: lastUsedAt.toISOString() }))
       }
+
+      await prisma.session.updateMany({ where: { id: sessionId }, data: { lastUsedAt } })
     } catch (error) {
       logger.error('Error updating session last used:', error)
     }
@@ -317,22 +838,15 @@ export class TokenService {
       const redis = getRedis()
       let deletedCount = 0
 
-      // Clean blacklisted tokens (Redis TTL handles this automatically)
-      // Clean session tokens (Redis TTL handles this automatically) 
-      // Clean refresh tokens (Redis TTL handles this automatically)
-
-      // We can also manually check for and clean up orphaned data if needed
-      const sessionKeys = await redis.keys(`${this.REDIS_TOKEN_PREFIX}*`)
-      
-      for (const key of sessionKeys) {
-        const ttl = await redis.ttl(key)
-        if (ttl === -1) { // Key exists but has no expiration
-          await redis.del(key)
-          deletedCount++
+      // Blacklisted tokens, session metadata and refresh tokens expire through their Redis TTL.
+      // Only the per-user session indexes keep members of expired sessions around.
+      await this.scanKeys(`${this.REDIS_USER_SESSIONS_PREFIX}*`, async (keys) => {
+        for (const key of keys) {
+          deletedCount += await redis.zremrangebyscore(key, '-inf', Date.now())
         }
-      }
+      })
 
-      logger.info(`Token cleanup completed, deleted ${deletedCount} orphaned tokens`)
+      logger.info(`Token cleanup completed, removed ${deletedCount} expired sessions from user indexes`)
       return { deletedCount }
     } catch (error) {
       logger.error('Error during token cleanup:', error)
@@ -1,5 +1,11 @@
 import { prisma } from '../config/database.js'
-import { hashPassword } from '../utils/auth.js'
+import { logger } from '../config/logger.js'
+import { hashPassword, comparePassword } from '../utils/auth.js'
+import { assertPasswordPolicy } from '../utils/password-policy.js'
+import { auditService } from './audit.service.js'
+import { tokenService } from './token.service.js'
+import { emailVerificationService } from './email-verification.service.js'
+import { loginThrottleService } from './login-throttle.service.js'
 import type { CreateUser, UpdateUser } from '../schemas/user.js'
 
 export class UserService {
@@ -14,6 +20,7 @@ export class UserService {
           id: true,
           email: true,
           name: true,
+          emailVerifiedAt: true,
           createdAt: true,
           updatedAt: true,
           _count: {
@@ -47,6 +54,7 @@ export class UserService {
         id: true,
         email: true,
         name: true,
+        emailVerifiedAt: true,
         createdAt: true,
         updatedAt: true,
         posts: {
@@ -91,11 +99,19 @@ export class UserService {
         id: true,
         email: true,
         name: true,
+        emailVerifiedAt: true,
         createdAt: true,
         updatedAt: true
       }
     })
 
+    await auditService.record({
+      action: 'user.create',
+      targetType: 'user',
+      targetId: user.id,
+      after: { email: user.email, name: user.name }
+    })
+
     return user
   }
 
@@ -115,10 +131,24 @@ export class UserService {
       }
     }
 
-    const updateData: any = { ...updates }
+    const emailChanged = updates.email !== undefined && updates.email !== existingUser.email
+
+    const { currentPassword, ...changes } = updates
+    const updateData: any = { ...changes }
     if (updates.password) {
+      if (!currentPassword || !(await comparePassword(currentPassword, existingUser.password))) {
+        throw new Error('Current password is incorrect')
+      }
+      assertPasswordPolicy(updates.password, {
+        email: updates.email ?? existingUser.email,
+        name: updates.name ?? existingUser.name
+      })
       updateData.password = await hashPassword(updates.password)
     }
+    // A new address has to be verified again
+    if (emailChanged) {
+      updateData.emailVerifiedAt = null
+    }
 
     const user = await prisma.user.update({
       where: { id },
@@ -127,11 +157,31 @@ export class UserService {
         id: true,
         email: true,
         name: true,
+        emailVerifiedAt: true,
         createdAt: true,
         updatedAt: true
       }
     })
 
+    await auditService.record({
+      action: 'user.update',
+      targetType: 'user',
+      targetId: id,
+      before: { email: existingUser.email, name: existingUser.name, password: existingUser.password },
+      after: { email: user.email, name: user.name, password: updateData.password ?? existingUser.password }
+    })
+
+    // Whoever held the old password may still hold tokens
+    if (updates.password) {
+      await tokenService.revokeAllUserTokens(id)
+    }
+
+    if (emailChanged) {
+      await emailVerificationService.sendVerificationEmail(user).catch(error => {
+        logger.error({ error, userId: id }, 'Failed to send verification email')
+      })
+    }
+
     return user
   }
 
@@ -143,7 +193,36 @@ export class UserService {
     }
 
     await prisma.user.delete({ where: { id } })
+
+    await auditService.record({
+      action: 'user.delete',
+      targetType: 'user',
+      targetId: id,
+      before: { email: existingUser.email, name: existingUser.name }
+    })
     
     return { message: 'User deleted successfully' }
   }
+
+  /**
+   * Let a user sign in again before their lockout from failed logins runs out
+   */
+  async unlockUser(id: string) {
+    const user = await prisma.user.findUnique({ where: { id } })
+
+    if (!user) {
+      throw new Error('User not found')
+    }
+
+    const wasLocked = await loginThrottleService.unlock(user.email)
+
+    await auditService.record({
+      action: 'user.unlock',
+      targetType: 'user',
+      targetId: id,
+      metadata: { wasLocked }
+    })
+
+    return { message: wasLocked ? 'User unlocked successfully' : 'User was not locked' }
+  }
 }
\ No newline at end of file
@@ -2,7 +2,7 @@ import type { User } from '@prisma/client'
 
 declare module 'hono' {
   interface ContextVariableMap {
-    user: Pick<User, 'id' | 'email' | 'name' | 'createdAt' | 'updatedAt'>
+    user: Pick<User, 'id' | 'email' | 'name' | 'emailVerifiedAt' | 'totpEnabledAt' | 'createdAt' | 'updatedAt'>
     userRoles?: Array<{
       id: string
       name: string
@@ -15,5 +15,14 @@ declare module 'hono' {
       action: string
       description: string | null
     }>
+    // Set when the request authenticated with an API key rather than an access token
+    apiKey?: {
+      id: string
+      scopes: string[]
+    }
+    permissionScope?: 'any' | 'own'
+    resourceAttributes?: Record<string, unknown>
+    clientIP?: string
+    requestId?: string
   }
 }
\ No newline at end of file
@@ -1,3 +1,4 @@
+import { createHash, randomBytes } from 'node:crypto'
 import bcrypt from 'bcryptjs'
 import jwt from 'jsonwebtoken'
 import { env } from '../config/env.js'
@@ -13,6 +14,20 @@ export const comparePassword = async (
   return bcrypt.compare(password, hashedPassword)
 }
 
+/**
+ * Random URL-safe token for links sent to users
+ */
+export const generateSecureToken = (): string => {
+  return randomBytes(32).toString('base64url')
+}
+
+/**
+ * SHA-256 of a token, for storing tokens so that a leaked store does not leak usable tokens
+ */
+export const hashToken = (token: string): string => {
+  return createHash('sha256').update(token).digest('hex')
+}
+
 export const generateToken = (payload: object): string => {
   return jwt.sign(payload, env.JWT_SECRET, {
     expiresIn: '7d'
@@ -0,0 +1,28 @@
+import { logger } from '../config/logger.js'
+
+const pending = new Set<Promise<void>>()
+
+/**
+ * Run work after the response is sent, logging its failure instead of failing the request.
+ * For work whose duration would otherwise tell the client something, such as whether an
+ * account exists.
+ */
+export const runInBackground = (description: string, task: () => Promise<unknown>): void => {
+  const run: Promise<void> = Promise.resolve()
+    .then(task)
+    .then(() => undefined, error => {
+      logger.error({ error }, `Background task failed: ${description}`)
+    })
+    .finally(() => pending.delete(run))
+
+  pending.add(run)
+}
+
+/**
+ * Wait for the background work started so far, so it is not cut off at shutdown
+ */
+export const settleBackgroundTasks = async (): Promise<void> => {
+  while (pending.size > 0) {
+    await Promise.all(pending)
+  }
+}
\ No newline at end of file
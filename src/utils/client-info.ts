@@ -0,0 +1,89 @@
+export type DeviceType = 'desktop' | 'mobile' | 'tablet' | 'bot' | 'unknown'
+
+export interface UserAgentInfo {
+  browser: string | null
+  os: string | null
+  deviceType: DeviceType
+}
+
+// Order matters: Edge and Opera also claim to be Chrome, Chrome also claims to be Safari
+const BROWSERS: Array<[string, RegExp]> = [
+  ['Edge', /Edg(?:e|A|iOS)?\/([\d.]+)/],
+  ['Opera', /(?:OPR|Opera)\/([\d.]+)/],
+  ['Samsung Internet', /SamsungBrowser\/([\d.]+)/],
+  ['Firefox', /(?:Firefox|FxiOS)\/([\d.]+)/],
+  ['Chrome', /(?:Chrome|CriOS)\/([\d.]+)/],
+  ['Safari', /Version\/([\d.]+).*Safari\//]
+]
+
+const OPERATING_SYSTEMS: Array<[string, RegExp]> = [
+  ['iOS', /(?:iPhone|iPad|iPod).*OS ([\d_]+)/],
+  ['Android', /Android ([\d.]+)/],
+  ['Windows', /Windows NT ([\d.]+)/],
+  ['macOS', /Mac OS X ([\d_.]+)/],
+  ['ChromeOS', /CrOS [\w]+ ([\d.]+)/],
+  ['Linux', /Linux()/]
+]
+
+const majorVersion = (version: string) => version.split(/[._]/)[0]
+
+const match = (userAgent: string, candidates: Array<[string, RegExp]>): string | null => {
+  for (const [name, pattern] of candidates) {
+    const version = pattern.exec(userAgent)?.[1]
+    if (version !== undefined) {
+      return version ? `${name} ${majorVersion(version)}` : name
+    }
+  }
+  return null
+}
+
+/**
+ * Best-effort browser, OS and device type from a User-Agent header, for showing sessions to their owner.
+ * Not suitable for anything security relevant, since clients choose their User-Agent.
+ */
+export const parseUserAgent = (userAgent: string | null | undefined): UserAgentInfo => {
+  if (!userAgent) {
+    return { browser: null, os: null, deviceType: 'unknown' }
+  }
+
+  const deviceType: DeviceType = /bot|crawler|spider|curl|wget/i.test(userAgent)
+    ? 'bot'
+    : /iPad|Tablet|Android(?!.*Mobile)/i.test(userAgent)
+      ? 'tablet'
+      : /Mobi|iPhone|iPod|Android/i.test(userAgent)
+        ? 'mobile'
+        : /Windows|Macintosh|X11|CrOS/.test(userAgent)
+          ? 'desktop'
+          : 'unknown'
+
+  return {
+    browser: match(userAgent, BROWSERS),
+    os: match(userAgent, OPERATING_SYSTEMS),
+    deviceType
+  }
+}
+
+/**
+ * Approximate location from the geo headers CDNs and edge proxies add (Cloudflare, CloudFront, Vercel).
+ * Null when the app is not behind one of them.
+ */
+export const locationFromHeaders = (header: (name: string) => string | undefined): string | null => {
+  const decode = (value: string | undefined) => {
+    if (!value) {
+      return undefined
+    }
+    try {
+      return decodeURIComponent(value)
+    } catch {
+      return value
+    }
+  }
+
+  const city = decode(header('CF-IPCity') ?? header('CloudFront-Viewer-City') ?? header('X-Vercel-IP-City'))
+  const country = header('CF-IPCountry') ?? header('CloudFront-Viewer-Country') ?? header('X-Vercel-IP-Country')
+
+  // Cloudflare reports XX for unknown and T1 for Tor exit nodes
+  const knownCountry = country && !['XX', 'T1'].includes(country) ? country : undefined
+
+  return [city, knownCountry].filter(Boolean).join(', ') || null
+}
\ No newline at end of file
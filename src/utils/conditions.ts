@@ -0,0 +1,135 @@
+export const CONDITION_OPERATORS = ['eq', 'ne', 'in', 'nin', 'gt', 'gte', 'lt', 'lte', 'exists'] as const
+
+export type ConditionOperator = typeof CONDITION_OPERATORS[number]
+
+/**
+ * Compare an attribute of the request user (`user.*`) or the loaded resource (`resource.*`)
+ * against a literal, or against another attribute via `{ "ref": "user.id" }`.
+ */
+export interface AttributeCondition {
+  attr: string
+  op: ConditionOperator
+  value?: unknown
+}
+
+export type PolicyCondition =
+  | AttributeCondition
+  | { all: PolicyCondition[] }
+  | { any: PolicyCondition[] }
+  | { not: PolicyCondition }
+
+export interface ConditionContext {
+  user: Record<string, unknown>
+  resource?: Record<string, unknown> | null
+}
+
+export type ConditionTrace =
+  | { attr: string; op: ConditionOperator; expected: unknown; actual: unknown; passed: boolean }
+  | { op: 'all' | 'any' | 'not'; passed: boolean; children: ConditionTrace[] }
+
+const isReference = (value: unknown): value is { ref: string } => {
+  return typeof value === 'object' && value !== null && typeof (value as { ref?: unknown }).ref === 'string'
+}
+
+/**
+ * Resolve a dotted attribute path such as `resource.author.id`; missing segments yield undefined
+ */
+export const resolveAttribute = (path: string, context: ConditionContext): unknown => {
+  const [root, ...segments] = path.split('.')
+  let current: unknown = root === 'user' ? context.user : root === 'resource' ? context.resource : undefined
+
+  for (const segment of segments) {
+    if (typeof current !== 'object' || current === null) {
+      return undefined
+    }
+    current = (current as Record<string, unknown>)[segment]
+  }
+
+  return current
+}
+
+const isResourcePath = (path: string): boolean => path.split('.')[0] === 'resource'
+
+// Whether a condition reads the resource anywhere, as the attribute or the value it is compared with
+const referencesResource = (condition: PolicyCondition): boolean => {
+  if ('all' in condition) {
+    return condition.all.some(referencesResource)
+  }
+  if ('any' in condition) {
+    return condition.any.some(referencesResource)
+  }
+  if ('not' in condition) {
+    return referencesResource(condition.not)
+  }
+  return isResourcePath(condition.attr) || (isReference(condition.value) && isResourcePath(condition.value.ref))
+}
+
+const toComparable = (value: unknown): unknown => {
+  return value instanceof Date ? value.getTime() : value
+}
+
+const compare = (op: ConditionOperator, actual: unknown, expected: unknown): boolean => {
+  const left = toComparable(actual)
+  const right = toComparable(expected)
+
+  switch (op) {
+    case 'eq':
+      return left === right
+    case 'ne':
+      return left !== right
+    case 'in':
+      return Array.isArray(expected) && expected.map(toComparable).includes(left)
+    case 'nin':
+      return Array.isArray(expected) && !expected.map(toComparable).includes(left)
+    case 'exists':
+      return (left !== undefined && left !== null) === (expected ?? true)
+    default: {
+      // Ordering only makes sense between two numbers or two strings
+      if (typeof left !== typeof right || (typeof left !== 'number' && typeof left !== 'string')) {
+        return false
+      }
+      const [a, b] = [left as number | string, right as number | string]
+      return op === 'gt' ? a > b : op === 'gte' ? a >= b : op === 'lt' ? a < b : a <= b
+    }
+  }
+}
+
+/**
+ * Evaluate a condition and record how every branch was decided.
+ * Groups evaluate all children so the trace is complete. Without a loaded resource, comparisons
+ * and negations that read it fail, so `ne`, `nin` and `not` grant nothing against no resource.
+ */
+export const traceCondition = (condition: PolicyCondition, context: ConditionContext): ConditionTrace => {
+  const resourceMissing = context.resource === null || context.resource === undefined
+
+  if ('all' in condition) {
+    const children = condition.all.map(child => traceCondition(child, context))
+    return { op: 'all', passed: children.every(child => child.passed), children }
+  }
+
+  if ('any' in condition) {
+    const children = condition.any.map(child => traceCondition(child, context))
+    return { op: 'any', passed: children.some(child => child.passed), children }
+  }
+
+  if ('not' in condition) {
+    const child = traceCondition(condition.not, context)
+    const passed = !child.passed && !(resourceMissing && referencesResource(condition.not))
+    return { op: 'not', passed, children: [child] }
+  }
+
+  const actual = resolveAttribute(condition.attr, context)
+  const expected = isReference(condition.value) ? resolveAttribute(condition.value.ref, context) : condition.value
+
+  return {
+    attr: condition.attr,
+    op: condition.op,
+    expected,
+    actual,
+    passed: compare(condition.op, actual, expected) && !(resourceMissing && referencesResource(condition))
+  }
+}
+
+export const evaluateCondition = (condition: PolicyCondition, context: ConditionContext): boolean => {
+  return traceCondition(condition, context).passed
+}
\ No newline at end of file
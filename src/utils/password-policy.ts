@@ -0,0 +1,91 @@
+import { env } from '../config/env.js'
+import { COMMON_PASSWORDS } from './common-passwords.js'
+
+// bcrypt ignores everything after the first 72 bytes
+export const PASSWORD_MAX_BYTES = 72
+
+// Name and email parts shorter than this are too common to reject passwords for
+const MIN_IDENTITY_PART_LENGTH = 3
+
+const CHARACTER_CLASSES = [/[a-z]/, /[A-Z]/, /[0-9]/, /[^a-zA-Z0-9]/]
+
+export const PASSWORD_CONTAINS_OWNER_MESSAGE = 'Password must not contain your name or email address'
+
+/**
+ * Who a password is for, so it can be checked against their name and email address
+ */
+export interface PasswordOwner {
+  email?: string
+  name?: string
+}
+
+/**
+ * Common password with digits and symbols added around it, such as `Password123!`
+ */
+const isCommonPassword = (password: string): boolean => {
+  const lowered = password.toLowerCase()
+  const stripped = lowered.replace(/^[^a-z]+|[^a-z]+$/g, '')
+  return COMMON_PASSWORDS.has(lowered) || COMMON_PASSWORDS.has(stripped)
+}
+
+/**
+ * Whether the password contains the owner's name or the local part of their email address
+ */
+export const passwordContainsOwner = (password: string, owner: PasswordOwner): boolean => {
+  const [localPart] = (owner.email ?? '').toLowerCase().split('@')
+  const nameParts = (owner.name ?? '').toLowerCase().split(/\s+/)
+  const lowered = password.toLowerCase()
+
+  return [localPart, ...nameParts]
+    .filter(part => part.length >= MIN_IDENTITY_PART_LENGTH)
+    .some(part => lowered.includes(part))
+}
+
+/**
+ * Every rule of the password policy the password breaks, as messages for the user.
+ * Empty when the password is acceptable.
+ */
+export const getPasswordPolicyViolations = (password: string, owner: PasswordOwner = {}): string[] => {
+  const violations: string[] = []
+
+  if (password.length < env.PASSWORD_MIN_LENGTH) {
+    violations.push(`Password must be at least ${env.PASSWORD_MIN_LENGTH} characters`)
+  }
+  if (Buffer.byteLength(password) > PASSWORD_MAX_BYTES) {
+    violations.push(`Password must be at most ${PASSWORD_MAX_BYTES} bytes`)
+  }
+
+  const classes = CHARACTER_CLASSES.filter(pattern => pattern.test(password)).length
+  if (classes < env.PASSWORD_MIN_CHARACTER_CLASSES) {
+    violations.push(
+      `Password must contain at least ${env.PASSWORD_MIN_CHARACTER_CLASSES} of lowercase letters, uppercase letters, digits and symbols`
+    )
+  }
+
+  if (isCommonPassword(password)) {
+    violations.push('Password must not be a commonly used password')
+  }
+
+  if (passwordContainsOwner(password, owner)) {
+    violations.push(PASSWORD_CONTAINS_OWNER_MESSAGE)
+  }
+
+  return violations
+}
+
+/**
+ * Whether an error a service threw is a password policy violation
+ */
+export const isPasswordPolicyViolation = (error: unknown): error is Error => {
+  return error instanceof Error && error.message.startsWith('Password must')
+}
+
+/**
+ * Throw the first rule of the password policy the password breaks
+ */
+export const assertPasswordPolicy = (password: string, owner: PasswordOwner = {}): void => {
+  const [violation] = getPasswordPolicyViolations(password, owner)
+  if (violation) {
+    throw new Error(violation)
+  }
+}
\ No newline at end of file
@@ -0,0 +1,78 @@
+export interface PermissionLike {
+  resource: string
+  action: string
+}
+
+export const WILDCARD = '*'
+
+/**
+ * Match a single permission segment against a concrete value.
+ * `*` matches anything, a trailing `*` matches by prefix (`channel:*`), anything else must be equal.
+ */
+export const matchesSegment = (pattern: string, value: string): boolean => {
+  if (pattern === WILDCARD) {
+    return true
+  }
+  if (pattern.endsWith(WILDCARD)) {
+    return value.startsWith(pattern.slice(0, -1))
+  }
+  return pattern === value
+}
+
+export const matchesPermission = (permission: PermissionLike, resource: string, action: string): boolean => {
+  return matchesSegment(permission.resource, resource) && matchesSegment(permission.action, action)
+}
+
+/**
+ * Rank a segment pattern: exact beats prefix, longer prefixes beat shorter ones, `*` ranks last.
+ */
+const segmentSpecificity = (pattern: string): number => {
+  if (pattern === WILDCARD) {
+    return 0
+  }
+  if (pattern.endsWith(WILDCARD)) {
+    return pattern.length
+  }
+  return Number.MAX_SAFE_INTEGER
+}
+
+/**
+ * Compare two permissions by specificity, resource first then action.
+ * Negative when `a` is more specific than `b`.
+ */
+export const comparePermissionSpecificity = (a: PermissionLike, b: PermissionLike): number => {
+  return (segmentSpecificity(b.resource) - segmentSpecificity(a.resource)) ||
+    (segmentSpecificity(b.action) - segmentSpecificity(a.action))
+}
+
+/**
+ * Every permission granting `resource:action`, most specific first
+ */
+export const findMatchingPermissions = <T extends PermissionLike>(
+  permissions: T[],
+  resource: string,
+  action: string
+): T[] => {
+  return permissions
+    .filter(permission => matchesPermission(permission, resource, action))
+    .sort(comparePermissionSpecificity)
+}
+
+/**
+ * Find the most specific permission granting `resource:action`, if any
+ */
+export const findMatchingPermission = <T extends PermissionLike>(
+  permissions: T[],
+  resource: string,
+  action: string
+): T | undefined => {
+  return findMatchingPermissions(permissions, resource, action)[0]
+}
+
+/**
+ * A pattern may only use `*` as its last character
+ */
+export const isValidPermissionPattern = (pattern: string): boolean => {
+  const wildcardIndex = pattern.indexOf(WILDCARD)
+  return wildcardIndex === -1 || wildcardIndex === pattern.length - 1
+}
\ No newline at end of file